@@ -1,21 +1,156 @@
-import React, { useState, useEffect } from 'react';
-import { UserProfile, LearningPath, Challenge, Domain, SkillLevel } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { UserProfile, LearningPath, Challenge, Domain, SkillLevel, ActivityLog, ActivityKind, XpEntry, XpSource, DailyChallengeRecord, ChallengeStatus, EventKind, ChallengeEventRecord, ChallengeEvaluation, ChallengeAttempt, ChallengeAttemptReport, ChallengeSession, StepRevisionAction, StepSubmission, ReviewResult, LabelledImage, ModelSummary, DrawingSummary, PendingReview, PendingStepReview, PendingChallengeReview, PendingMilestoneReview, ChatThread } from './types';
+import { loadState, loadProfileState, saveProfile, saveActiveProfileId, savePaths, saveActivePathId, saveTheme, saveActivityLog, saveDailyChallenge, saveChallengeEvents, saveChallengeSession, addXpEntry, addChallengeAttempt, addStepSubmission, savePendingReviews, saveChatThread, deleteChatThread, ChallengeEvents, ProfileState, EMPTY_PROFILE_STATE } from './services/storageService';
+import { isCurrentDaily, createDailyChallenge, canReroll, remainingRerolls, advanceDailyStatus } from './services/dailyChallengeService';
+import { EVENT_KINDS, isCurrentEvent, createEventChallenge, startEventSession, recordMilestone, computeEventBonus } from './services/eventChallengeService';
+import { createAttempt } from './services/attemptService';
+import { scoreChallenge } from './services/scoringService';
+import { createPendingReview, recordRetryFailure, retryNow, dueReviews, nextDueAt, evaluatePendingReview, PendingVerdict } from './services/reviewQueueService';
+import { createStepSubmission } from './services/submissionService';
+import { buildCopilotContext } from './services/chatContextService';
+import { parseCopilotAction, resolveStep, actionFailed, actionDeclined, CopilotActionOutcome } from './services/copilotActionService';
+import { ChatActionCall } from './services/aiProvider';
+import { startSession } from './services/challengeSessionService';
+import { applyStepRevision, completeStep, recordReviewFailure, needsRemediation, insertRemedialSteps, setMiniStepDone, createStepAttachment, addStepAttachment, removeStepAttachment } from './services/pathService';
+import { reviseStep, generateRemedialSteps, generateReferenceImage, visualizeConcept } from './services/aiService';
+import { createXpEntry, totalXp, levelForXp } from './services/xpService';
+import { EMPTY_ACTIVITY_LOG, recordActivity, applyStreakFreezes, computeStreak } from './services/activityService';
 import Onboarding from './components/Onboarding';
 import Dashboard from './components/Dashboard';
-import PathView from './components/PathView';
+import PathView, { StepFocus } from './components/PathView';
 import AIChat from './components/AIChat';
 import ChallengeModal from './components/ChallengeModal';
 import ActiveChallengeView from './components/ActiveChallengeView';
+import ActiveEventView from './components/ActiveEventView';
+import LevelUpToast from './components/LevelUpToast';
+import ChallengeHistory from './components/ChallengeHistory';
+import ReviewNoticeToast, { ReviewNotice } from './components/ReviewNoticeToast';
+import ProfileSwitcher from './components/ProfileSwitcher';
 
 const App = () => {
-  const [view, setView] = useState<'onboarding' | 'dashboard' | 'path'>('onboarding');
-  const [user, setUser] = useState<UserProfile | null>(null);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null); // Saved state couldn't be read
+  const [view, setView] = useState<'onboarding' | 'dashboard' | 'path' | 'history'>('onboarding');
+  const [user, setUser] = useState<UserProfile | null>(null); // The active profile
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [addingProfile, setAddingProfile] = useState(false);
   const [paths, setPaths] = useState<LearningPath[]>([]);
   const [activePathId, setActivePathId] = useState<string | null>(null);
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [activeChallenge, setActiveChallenge] = useState<Challenge | null>(null);
   const [isChallengeStarted, setIsChallengeStarted] = useState(false); // New state for active challenge session
   const [theme, setTheme] = useState<'light' | 'dark'>('light');
+  const [activity, setActivity] = useState<ActivityLog>(EMPTY_ACTIVITY_LOG);
+  const [xpLedger, setXpLedger] = useState<XpEntry[]>([]);
+  const [dailyChallenge, setDailyChallenge] = useState<DailyChallengeRecord | null>(null);
+  const [loadingDailyChallenge, setLoadingDailyChallenge] = useState(false);
+  const [challengeEvents, setChallengeEvents] = useState<ChallengeEvents>({});
+  const [loadingEventKind, setLoadingEventKind] = useState<EventKind | null>(null);
+  const [challengeAttempts, setChallengeAttempts] = useState<ChallengeAttempt[]>([]);
+  const [stepSubmissions, setStepSubmissions] = useState<StepSubmission[]>([]);
+  const [challengeSession, setChallengeSession] = useState<ChallengeSession | null>(null);
+  const [levelUpTo, setLevelUpTo] = useState<number | null>(null);
+  const lastLevelRef = useRef<number | null>(null);
+  const [pendingReviews, setPendingReviews] = useState<PendingReview[]>([]);
+  const [reviewNotices, setReviewNotices] = useState<ReviewNotice[]>([]);
+  const [processingReviews, setProcessingReviews] = useState(false);
+  const [chatThreads, setChatThreads] = useState<ChatThread[]>([]);
+  const [stepFocus, setStepFocus] = useState<StepFocus | null>(null);
+
+  // Swaps in one profile's data, on startup and when switching profiles. All of it is set in one
+  // render, so the save effects below never write one profile's data under another's id.
+  const applyProfileState = (profile: UserProfile | null, saved: ProfileState) => {
+      setUser(profile);
+      setPaths(saved.paths);
+      setActivePathId(saved.activePathId);
+      // Spend freezes on days missed while away before the streak is shown
+      setActivity(applyStreakFreezes(saved.activity));
+      setXpLedger(saved.xpLedger);
+      setDailyChallenge(saved.dailyChallenge);
+      setChallengeEvents(saved.challengeEvents);
+      setStepSubmissions(saved.stepSubmissions);
+      setPendingReviews(saved.pendingReviews);
+      setChatThreads(saved.chatThreads);
+      // Pick up a timed challenge that was running when the page was closed or crashed
+      setChallengeSession(saved.challengeSession);
+      setActiveChallenge(saved.challengeSession?.challenge || null);
+      setIsChallengeStarted(!!saved.challengeSession);
+      setReviewNotices([]);
+      setStepFocus(null);
+      setIsChatOpen(false);
+      lastLevelRef.current = null; // No level-up toast for the other profile's level
+      // Onboarding only when no profile has been stored yet
+      setView(profile ? 'dashboard' : 'onboarding');
+  };
+
+  // Restore saved state on startup. A failed read is shown as such, never as a first run:
+  // onboarding from there would create a second profile next to the saved one.
+  const restoreState = () => {
+    setStorageError(null);
+    loadState().then(saved => {
+        applyProfileState(saved.user, saved);
+        setProfiles(saved.profiles);
+        setTheme(saved.theme);
+        setChallengeAttempts(saved.challengeAttempts);
+        setIsHydrated(true);
+    }).catch(error => {
+        console.error("Failed to load saved state:", error);
+        setStorageError(error instanceof Error ? error.message : String(error));
+    });
+  };
+
+  useEffect(() => { restoreState(); }, []);
+
+  // Persist state changes (skipped until hydration so defaults don't overwrite saved data).
+  // Everything except the theme belongs to the active profile.
+  useEffect(() => {
+    if (!isHydrated || !user) return;
+    saveProfile(user).catch(e => console.error("Failed to save profile", e));
+    saveActiveProfileId(user.id).catch(e => console.error("Failed to save active profile", e));
+  }, [user, isHydrated]);
+
+  useEffect(() => {
+    if (isHydrated && user) savePaths(user.id, paths).catch(e => console.error("Failed to save paths", e));
+  }, [paths, isHydrated]);
+
+  useEffect(() => {
+    if (isHydrated && user) saveActivePathId(user.id, activePathId).catch(e => console.error("Failed to save active path", e));
+  }, [activePathId, isHydrated]);
+
+  useEffect(() => {
+    if (isHydrated) saveTheme(theme).catch(e => console.error("Failed to save theme", e));
+  }, [theme, isHydrated]);
+
+  useEffect(() => {
+    if (isHydrated && user) saveActivityLog(user.id, activity).catch(e => console.error("Failed to save activity", e));
+  }, [activity, isHydrated]);
+
+  useEffect(() => {
+    if (isHydrated && user) saveDailyChallenge(user.id, dailyChallenge).catch(e => console.error("Failed to save daily challenge", e));
+  }, [dailyChallenge, isHydrated]);
+
+  useEffect(() => {
+    if (isHydrated && user) saveChallengeEvents(user.id, challengeEvents).catch(e => console.error("Failed to save challenge events", e));
+  }, [challengeEvents, isHydrated]);
+
+  useEffect(() => {
+    if (isHydrated && user) saveChallengeSession(user.id, challengeSession).catch(e => console.error("Failed to save challenge session", e));
+  }, [challengeSession, isHydrated]);
+
+  useEffect(() => {
+    if (isHydrated && user) savePendingReviews(user.id, pendingReviews).catch(e => console.error("Failed to save pending reviews", e));
+  }, [pendingReviews, isHydrated]);
+
+  // Level-up events: compare against the level at the previous ledger change
+  const xp = totalXp(xpLedger);
+  useEffect(() => {
+    if (!isHydrated) return;
+    const level = levelForXp(xp);
+    if (lastLevelRef.current !== null && level > lastLevelRef.current) {
+        setLevelUpTo(level);
+    }
+    lastLevelRef.current = level;
+  }, [xp, isHydrated]);
 
   // Handle Theme Toggle
   useEffect(() => {
@@ -34,61 +169,497 @@ const App = () => {
     userData: { domain: Domain; tool: string; skill: SkillLevel; name: string }, 
     pathData: LearningPath
   ) => {
-    if (!user) {
-        // Initial setup
-        setUser({
+    if (!user || addingProfile) {
+        // Initial setup, or another person on this machine: a new profile starting from scratch
+        const profile: UserProfile = {
+            id: `profile-${Date.now()}`,
             name: userData.name,
             domain: userData.domain,
             tool: userData.tool,
-            skillLevel: userData.skill,
-            xp: 0,
-            streak: 1
-        });
+            skillLevel: userData.skill
+        };
+        applyProfileState(profile, { ...EMPTY_PROFILE_STATE, paths: [pathData] });
+        setProfiles(prev => [...prev, profile].sort((a, b) => a.name.localeCompare(b.name)));
+        setAddingProfile(false);
+    } else {
+        // Add the new path
+        setPaths(prev => [...prev, pathData]);
     }
     
-    // Add the new path
-    setPaths(prev => [...prev, pathData]);
-    
     // Always go to dashboard after adding path
     setView('dashboard');
     
     // Auto open chat to welcome if first time
-    if (paths.length === 0) {
+    if (!user || addingProfile || paths.length === 0) {
         setTimeout(() => setIsChatOpen(true), 1500);
     }
   };
 
-  const handleStepComplete = (stepId: string) => {
-    if (!activePathId || !user) return;
+  const handleAddProfile = () => {
+      setAddingProfile(true);
+      setView('onboarding');
+  };
+
+  const handleSwitchProfile = async (profileId: string) => {
+      const profile = profiles.find(p => p.id === profileId);
+      if (!profile || profileId === user?.id) return;
+      try {
+          applyProfileState(profile, await loadProfileState(profileId));
+      } catch (error) {
+          console.error("Failed to load profile", error);
+      }
+  };
+
+  const logActivity = (kind: ActivityKind) => {
+    setActivity(prev => recordActivity(prev, kind));
+  };
+
+  // All XP changes go through the append-only ledger
+  const awardXp = (source: XpSource, amount: number, reason: string) => {
+    if (!user) return;
+    const entry = createXpEntry(source, amount, reason);
+    setXpLedger(prev => [...prev, entry]);
+    addXpEntry(user.id, entry).catch(e => console.error("Failed to save XP entry", e));
+  };
+
+  const handleStepComplete = (stepId: string, pathId: string | null = activePathId) => {
+    if (!pathId || !user) return;
+    logActivity('step_passed');
+
+    const completedStep = paths.find(p => p.id === pathId)?.steps.find(s => s.id === stepId);
+    awardXp('step', completedStep?.xpReward || 50, `Completed "${completedStep?.title || 'module'}"`);
     
-    setPaths(prevPaths => prevPaths.map(path => {
-        if (path.id !== activePathId) return path;
+    setPaths(prevPaths => prevPaths.map(path => path.id === pathId ? completeStep(path, stepId) : path));
+  };
+
+  // Failed reviews are kept on the step; enough of them and practice steps are generated before it.
+  // Resolves to true when practice steps were added.
+  const handleReviewFailed = async (stepId: string, feedback: string, pathId: string | null = activePathId): Promise<boolean> => {
+      if (!pathId || !user) return false;
+      const path = paths.find(p => p.id === pathId);
+      if (!path) return false;
+
+      const updated = recordReviewFailure(path, stepId, feedback);
+      setPaths(prev => prev.map(p => p.id === path.id ? recordReviewFailure(p, stepId, feedback) : p));
+      if (!needsRemediation(updated, stepId)) return false;
+
+      const failing = updated.steps.find(s => s.id === stepId)!;
+      const generated = await generateRemedialSteps({
+          path: updated,
+          stepId,
+          feedback: failing.failedReviews || [],
+          tool: user.tool,
+          skillLevel: user.skillLevel,
+      });
+      setPaths(prev => prev.map(p => p.id === path.id ? insertRemedialSteps(p, stepId, generated) : p));
+      return true;
+  };
+
+  // Every timed session ends up in the attempt history, whatever the outcome
+  const recordAttempt = (challenge: Challenge, report: ChallengeAttemptReport, xpEarned: number) => {
+      if (!user) return;
+      createAttempt(user, challenge, report, xpEarned)
+          .then(attempt => {
+              setChallengeAttempts(prev => [...prev, attempt]);
+              return addChallengeAttempt(attempt);
+          })
+          .catch(e => console.error("Failed to save challenge attempt", e));
+  };
+
+  const handleSubmissionReviewed = (stepId: string, images: LabelledImage[], models: ModelSummary[], drawings: DrawingSummary[], review: ReviewResult) => {
+      if (activePathId) saveStepSubmission(activePathId, stepId, images, models, drawings, review);
+  };
+
+  const saveStepSubmission = (pathId: string, stepId: string, images: LabelledImage[], models: ModelSummary[], drawings: DrawingSummary[], review: ReviewResult) => {
+      const step = paths.find(p => p.id === pathId)?.steps.find(s => s.id === stepId);
+      if (!step || !user) return;
+      const profileId = user.id;
+      createStepSubmission(pathId, step, images, models, drawings, review)
+          .then(submission => {
+              setStepSubmissions(prev => [...prev, submission]);
+              return addStepSubmission(profileId, submission);
+          })
+          .catch(e => console.error("Failed to save step submission", e));
+  };
+
+  // Rewrites one step of the active path in place; errors surface in PathView
+  const handleReviseStep = async (stepId: string, action: StepRevisionAction, note?: string) => {
+      if (!activePathId || !user) return;
+      const path = paths.find(p => p.id === activePathId);
+      if (!path) return;
+
+      const generated = await reviseStep({ path, stepId, action, note, tool: user.tool, skillLevel: user.skillLevel });
+      setPaths(prev => prev.map(p => p.id === path.id ? applyStepRevision(p, stepId, action, generated) : p));
+  };
+
+  const handleChallengeFinish = (report: ChallengeAttemptReport) => {
+      if (activeChallenge) finishChallenge(activeChallenge, report);
+      exitChallenge();
+  };
+
+  // Returns the XP actually awarded
+  const finishChallenge = (challenge: Challenge, report: ChallengeAttemptReport): number => {
+      // Replaying an already completed daily challenge earns nothing
+      const isDaily = isDailyChallenge(challenge);
+      const alreadyCompleted = isDaily && dailyChallenge?.status === 'completed';
+      // Finishing past the bronze cutoff, or in a practice run, is recorded but doesn't complete the challenge
+      const inTime = report.tier !== 'FAIL' && report.ranked;
+      const xpReward = alreadyCompleted || !inTime ? 0 : report.xpReward;
+      if (xpReward > 0) {
+          awardXp('challenge', xpReward, `Finished challenge "${challenge.title}" (${report.tier})`);
+      }
+      recordAttempt(challenge, report, xpReward);
+      if (isDaily && inTime) updateDailyStatus('completed');
+      logActivity('challenge_finished');
+      return xpReward;
+  };
+
+  // Daily challenge: generated once per calendar day, then served from the cache
+  const isDailyChallenge = (challenge: Challenge | null) =>
+      !!challenge && isCurrentDaily(dailyChallenge) && dailyChallenge.challenge.id === challenge.id;
+
+  const updateDailyStatus = (status: ChallengeStatus) => {
+      setDailyChallenge(prev => prev ? advanceDailyStatus(prev, status) : prev);
+  };
+
+  const handleOpenDailyChallenge = async () => {
+      if (!user || loadingDailyChallenge) return;
+      if (isCurrentDaily(dailyChallenge)) {
+          setActiveChallenge(dailyChallenge.challenge);
+          return;
+      }
+
+      setLoadingDailyChallenge(true);
+      try {
+          const record = await createDailyChallenge(user);
+          setDailyChallenge(record);
+          setActiveChallenge(record.challenge);
+      } catch (e) {
+          alert("Failed to generate challenge. Try again.");
+      } finally {
+          setLoadingDailyChallenge(false);
+      }
+  };
+
+  const handleRerollDailyChallenge = async () => {
+      if (!user || loadingDailyChallenge || !isCurrentDaily(dailyChallenge) || !canReroll(dailyChallenge)) return;
+
+      setLoadingDailyChallenge(true);
+      try {
+          const record = await createDailyChallenge(user, dailyChallenge);
+          setDailyChallenge(record);
+          setActiveChallenge(record.challenge);
+      } catch (e) {
+          alert("Failed to reroll challenge. Try again.");
+      } finally {
+          setLoadingDailyChallenge(false);
+      }
+  };
+
+  // Events (weekly / monthly / seasonal): one per period, worked on across several sessions
+  const activeEvent = activeChallenge?.milestones
+      ? EVENT_KINDS.map(kind => challengeEvents[kind]).find((e): e is ChallengeEventRecord => isCurrentEvent(e) && e.challenge.id === activeChallenge.id) || null
+      : null;
+
+  const updateEvent = (kind: EventKind, update: (record: ChallengeEventRecord) => ChallengeEventRecord) => {
+      setChallengeEvents(prev => {
+          const record = prev[kind];
+          return record ? { ...prev, [kind]: update(record) } : prev;
+      });
+  };
+
+  const handleOpenEvent = async (kind: EventKind) => {
+      if (!user || loadingEventKind) return;
+      const current = challengeEvents[kind];
+      if (isCurrentEvent(current)) {
+          setActiveChallenge(current.challenge);
+          return;
+      }
+
+      setLoadingEventKind(kind);
+      try {
+          const record = await createEventChallenge(kind, user);
+          setChallengeEvents(prev => ({ ...prev, [kind]: record }));
+          setActiveChallenge(record.challenge);
+      } catch (e) {
+          alert("Failed to generate event. Try again.");
+      } finally {
+          setLoadingEventKind(null);
+      }
+  };
+
+  const handleMilestoneComplete = (milestoneId: string, evaluation: ChallengeEvaluation) => {
+      if (activeEvent) completeMilestone(activeEvent, milestoneId, evaluation);
+  };
 
-        const updatedSteps = path.steps.map(step => {
-            if (step.id === stepId) return { ...step, status: 'completed' as const };
-            return step;
-        });
+  const completeMilestone = (event: ChallengeEventRecord, milestoneId: string, evaluation: ChallengeEvaluation) => {
+      if (event.milestoneResults[milestoneId]) return;
+      const milestone = event.challenge.milestones?.find(m => m.id === milestoneId);
+      if (!milestone) return;
 
-        // Unlock next step
-        const completedIndex = updatedSteps.findIndex(s => s.id === stepId);
-        if (completedIndex < updatedSteps.length - 1) {
-            updatedSteps[completedIndex + 1].status = 'active';
-        }
+      const { record, justCompleted } = recordMilestone(event, milestoneId, evaluation);
+      updateEvent(event.kind, () => record);
+      awardXp('challenge', milestone.xpReward, `Milestone "${milestone.title}" in "${record.challenge.title}"`);
+      logActivity('challenge_finished');
 
-        // Add XP
-        setUser(prevUser => prevUser ? ({ ...prevUser, xp: prevUser.xp + (updatedSteps.find(s => s.id === stepId)?.xpReward || 50) }) : null);
+      if (justCompleted) {
+          const { completionBonus, scoreBonus, averageScore } = computeEventBonus(record.challenge, record.milestoneResults);
+          awardXp('bonus', completionBonus, `Completed event "${record.challenge.title}"`);
+          if (scoreBonus > 0) awardXp('bonus', scoreBonus, `Average score ${averageScore}% in "${record.challenge.title}"`);
+      }
+  };
+
+  // Review queue: uploads whose evaluation failed are retried with backoff until a verdict arrives.
+  // Rewards are granted only here, from a real verdict.
+  const queueReview = (fields: Parameters<typeof createPendingReview>[0], error: unknown) => {
+      console.error("Review unavailable, queued for retry", error);
+      setPendingReviews(prev => [...prev, createPendingReview(fields, error)]);
+  };
 
-        return { ...path, steps: updatedSteps };
-    }));
+  const handleRetryReview = (id: string) => {
+      setPendingReviews(prev => prev.map(r => r.id === id ? retryNow(r) : r));
   };
 
-  const handleChallengeFinish = (xpReward: number) => {
-      // Award XP
-      if (user) {
-          setUser(prev => prev ? ({ ...prev, xp: prev.xp + xpReward }) : null);
+  // Only offered once retrying stopped; the upload is dropped and nothing is recorded
+  const handleDiscardReview = (id: string) => {
+      setPendingReviews(prev => prev.filter(r => r.id !== id));
+  };
+
+  const notify = (pending: PendingReview, passed: boolean, message: string) => {
+      setReviewNotices(prev => [...prev, { id: pending.id, title: pending.title, passed, message }]);
+  };
+
+  const applyChallengeVerdict = (pending: PendingChallengeReview, evaluation: ChallengeEvaluation) => {
+      const { challenge, ranked, startedAt, elapsedSeconds, penaltySeconds, hintsUsed, file } = pending;
+      const breakdown = scoreChallenge({ challenge, evaluation, elapsedSeconds, penaltySeconds, hintsUsed });
+      const report: ChallengeAttemptReport = {
+          outcome: evaluation.passed ? 'completed' : 'failed',
+          ranked,
+          startedAt,
+          elapsedSeconds,
+          penaltySeconds,
+          hintsUsed,
+          tier: breakdown.tier,
+          evaluation,
+          submission: file,
+          xpReward: breakdown.claimable && ranked ? breakdown.total : 0,
+      };
+      if (!evaluation.passed) {
+          recordAttempt(challenge, report, 0);
+          notify(pending, false, `Scored ${evaluation.score}%. ${evaluation.feedback}`);
+          return;
+      }
+      const earned = finishChallenge(challenge, report);
+      notify(pending, true, `Scored ${evaluation.score}% (${breakdown.tier})${earned > 0 ? `, +${earned} XP` : ''}.`);
+  };
+
+  const applyMilestoneVerdict = (pending: PendingMilestoneReview, evaluation: ChallengeEvaluation) => {
+      const event = challengeEvents[pending.eventKind];
+      const milestone = pending.challenge.milestones?.find(m => m.id === pending.milestoneId);
+      if (!isCurrentEvent(event) || event.challenge.id !== pending.challenge.id || !milestone) {
+          notify(pending, false, 'The event ended before this milestone could be reviewed.');
+          return;
+      }
+      if (!evaluation.passed) {
+          notify(pending, false, `Scored ${evaluation.score}%. ${evaluation.feedback}`);
+          return;
+      }
+      if (event.milestoneResults[pending.milestoneId]) {
+          notify(pending, true, 'This milestone had already been passed.');
+          return;
       }
+      completeMilestone(event, pending.milestoneId, evaluation);
+      notify(pending, true, `Scored ${evaluation.score}%, +${milestone.xpReward} XP.`);
+  };
+
+  const applyVerdict = (pending: PendingReview, verdict: PendingVerdict) => {
+      if (pending.kind === 'step' && verdict.kind === 'step') {
+          const { review } = verdict;
+          const step = paths.find(p => p.id === pending.pathId)?.steps.find(s => s.id === pending.stepId);
+          if (!step) {
+              notify(pending, review.passed, 'The step was removed before the review arrived, so nothing was recorded.');
+              return;
+          }
+          const { images, models = [], drawings = [] } = pending.request;
+          saveStepSubmission(pending.pathId, pending.stepId, images, models, drawings, review);
+          if (review.passed) {
+              if (step.status !== 'completed') handleStepComplete(pending.stepId, pending.pathId);
+          } else {
+              handleReviewFailed(pending.stepId, review.feedback, pending.pathId)
+                  .catch(e => console.error("Couldn't generate practice steps:", e));
+          }
+          notify(pending, review.passed, review.feedback);
+      } else if (pending.kind === 'challenge' && verdict.kind !== 'step') {
+          applyChallengeVerdict(pending, verdict.evaluation);
+      } else if (pending.kind === 'milestone' && verdict.kind !== 'step') {
+          applyMilestoneVerdict(pending, verdict.evaluation);
+      }
+  };
+
+  // The retry loop outlives a render, so it applies verdicts through the latest handlers
+  const applyVerdictRef = useRef(applyVerdict);
+  applyVerdictRef.current = applyVerdict;
+  const pendingReviewsRef = useRef(pendingReviews);
+  pendingReviewsRef.current = pendingReviews;
+
+  const nextReviewAt = nextDueAt(pendingReviews);
+  useEffect(() => {
+      if (!isHydrated || processingReviews || nextReviewAt === null) return;
+
+      const processDueReviews = async () => {
+          setProcessingReviews(true);
+          for (const pending of dueReviews(pendingReviewsRef.current)) {
+              try {
+                  const verdict = await evaluatePendingReview(pending);
+                  // Discarded, or its profile was switched away from, while being evaluated
+                  if (!pendingReviewsRef.current.some(r => r.id === pending.id)) continue;
+                  setPendingReviews(prev => prev.filter(r => r.id !== pending.id));
+                  applyVerdictRef.current(pending, verdict);
+              } catch (error) {
+                  const updated = recordRetryFailure(pending, error);
+                  setPendingReviews(prev => prev.map(r => r.id === pending.id ? updated : r));
+                  if (updated.failedAt) notify(pending, false, `Could not be reviewed: ${updated.lastError}. You can retry or discard it.`);
+              }
+          }
+          setProcessingReviews(false);
+      };
+
+      const timer = setTimeout(processDueReviews, Math.max(0, nextReviewAt - Date.now()));
+      return () => clearTimeout(timer);
+  }, [nextReviewAt, isHydrated, processingReviews]);
+
+  // Coming back online is a good moment to try again without waiting out the backoff
+  useEffect(() => {
+      const handleOnline = () => setPendingReviews(prev => prev.map(r => r.failedAt ? r : retryNow(r)));
+      window.addEventListener('online', handleOnline);
+      return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  const handleStartChallenge = (practice: boolean) => {
+      if (!activeChallenge) return;
+      if (activeEvent) {
+          updateEvent(activeEvent.kind, startEventSession);
+      } else {
+          // Replays of a completed daily can't earn anything, so they always run as practice
+          const isDaily = isDailyChallenge(activeChallenge);
+          const ranked = !practice && !(isDaily && dailyChallenge?.status === 'completed');
+          if (isDaily && ranked) updateDailyStatus('attempted');
+          setChallengeSession(startSession(activeChallenge, ranked));
+      }
+      setIsChallengeStarted(true);
+  };
+
+  const exitChallenge = () => {
       setIsChallengeStarted(false);
       setActiveChallenge(null);
+      setChallengeSession(null);
+  };
+
+  // Copilot threads are saved one at a time, after each finished reply
+  const handleSaveChatThread = (thread: ChatThread) => {
+      if (!user) return;
+      setChatThreads(prev => [thread, ...prev.filter(t => t.id !== thread.id)]);
+      saveChatThread(user.id, thread).catch(e => console.error("Failed to save chat thread", e));
+  };
+
+  const handleDeleteChatThread = (id: string) => {
+      setChatThreads(prev => prev.filter(t => t.id !== id));
+      deleteChatThread(id).catch(e => console.error("Failed to delete chat thread", e));
+  };
+
+  const handleToggleMiniStep = (stepId: string, index: number, done: boolean) => {
+      if (!activePathId) return;
+      setPaths(prev => prev.map(p => p.id === activePathId ? setMiniStepDone(p, stepId, index, done) : p));
+  };
+
+  // Images from the Copilot saved on a step; the path may not be the one open
+  const handleSaveChatImage = async (pathId: string, stepId: string, imageUrl: string, caption: string) => {
+      const attachment = await createStepAttachment(imageUrl, caption);
+      setPaths(prev => prev.map(p => p.id === pathId ? addStepAttachment(p, stepId, attachment) : p));
+  };
+
+  const handleRemoveAttachment = (stepId: string, attachmentId: string) => {
+      if (!activePathId) return;
+      setPaths(prev => prev.map(p => p.id === activePathId ? removeStepAttachment(p, stepId, attachmentId) : p));
+  };
+
+  // Copilot actions. Navigation and images run straight away; anything that changes saved state
+  // is confirmed by the user in the chat first.
+  const handleCopilotAction = async (call: ChatActionCall, confirm: (summary: string) => Promise<boolean>): Promise<CopilotActionOutcome> => {
+      const action = parseCopilotAction(call);
+      if ('error' in action) return actionFailed(`Unsupported request (${call.name})`, action.error);
+      if (!user) return actionFailed('No profile yet', 'The user has not finished onboarding.');
+
+      switch (action.name) {
+          case 'open_step':
+          case 'show_step_hint': {
+              const target = resolveStep(paths, activePath, action.args.path, action.args.step);
+              if ('error' in target) return actionFailed('Couldn\'t find that step', target.error);
+              const { path, step } = target;
+              const showHint = action.name === 'show_step_hint';
+              setActivePathId(path.id);
+              setView('path');
+              setStepFocus({ stepId: step.id, showHint });
+              const miniSteps = (step.detailedSteps || []).map((text, i) => ({ number: i + 1, text, done: !!step.doneDetailedSteps?.includes(i) }));
+              return {
+                  status: 'done',
+                  summary: showHint ? `Opened the step-by-step guide for "${step.title}"` : `Opened "${step.title}" in "${path.title}"`,
+                  response: { ok: true, message: `Opened "${step.title}" (${step.status}).`, path: path.title, step: step.title, status: step.status, ...(showHint ? { miniSteps } : {}) },
+              };
+          }
+          case 'new_daily_challenge': {
+              if (loadingDailyChallenge) return actionFailed('Daily challenge', 'A daily challenge is already being generated.');
+              const current = isCurrentDaily(dailyChallenge) ? dailyChallenge : null;
+              if (current && !canReroll(current)) {
+                  return actionFailed('Daily challenge', current.status === 'new' ? 'No rerolls left today.' : 'Today\'s challenge has already been started, so it can\'t be replaced.');
+              }
+              const summary = current
+                  ? `Replace today's challenge "${current.challenge.title}" with a new one (${remainingRerolls(current)} reroll left)`
+                  : 'Generate today\'s daily challenge';
+              if (!await confirm(summary)) return actionDeclined(summary);
+              setLoadingDailyChallenge(true);
+              try {
+                  const record = await createDailyChallenge(user, current || undefined);
+                  setDailyChallenge(record);
+                  setActiveChallenge(record.challenge);
+                  const { title, description, goldTime } = record.challenge;
+                  return { status: 'done', summary, response: { ok: true, message: `Today's challenge is "${title}". The preview is open.`, title, description, goldMinutes: goldTime } };
+              } catch (e) {
+                  return actionFailed(summary, 'Challenge generation failed.');
+              } finally {
+                  setLoadingDailyChallenge(false);
+              }
+          }
+          case 'generate_reference_image': {
+              const title = action.args.title || 'Reference';
+              const summary = `Reference image: ${action.args.subject}`;
+              // Generation never rejects; a placeholder is how it reports failure
+              const reference = await generateReferenceImage(action.args.subject, title);
+              if (reference.placeholder) return actionFailed(summary, 'Image generation failed.');
+              return { status: 'done', summary, imageUrl: reference.url, response: { ok: true, message: 'The image is shown to the user in the chat.' } };
+          }
+          case 'visualize_concept': {
+              const summary = `Diagram: ${action.args.description}`;
+              try {
+                  const { imageUrl, caption } = await visualizeConcept({ prompt: action.args.description, tool: user.tool, stepTitle: chatContext.stepTitle });
+                  return { status: 'done', summary, imageUrl, caption, response: { ok: true, message: `The diagram is shown to the user in the chat.${caption ? ` Its caption: ${caption}` : ''}` } };
+              } catch (e) {
+                  return actionFailed(summary, 'The diagram could not be generated.');
+              }
+          }
+          case 'complete_mini_step': {
+              const target = resolveStep(paths, activePath, action.args.path, action.args.step);
+              if ('error' in target) return actionFailed('Couldn\'t find that step', target.error);
+              const { path, step } = target;
+              const index = action.args.miniStep - 1;
+              const text = step.detailedSteps?.[index];
+              if (!text) return actionFailed(`Mini-step ${action.args.miniStep} of "${step.title}"`, `"${step.title}" has ${step.detailedSteps?.length || 0} mini-steps.`);
+              const summary = `${action.args.done ? 'Tick off' : 'Untick'} mini-step ${action.args.miniStep} of "${step.title}": ${text}`;
+              if (!await confirm(summary)) return actionDeclined(summary);
+              setPaths(prev => prev.map(p => p.id === path.id ? setMiniStepDone(p, step.id, index, action.args.done) : p));
+              return { status: 'done', summary, response: { ok: true, message: `Mini-step ${action.args.miniStep} is now marked ${action.args.done ? 'done' : 'not done'}.` } };
+          }
+      }
   };
 
   // Navigation handlers
@@ -104,37 +675,86 @@ const App = () => {
 
   // Derive context for Copilot
   const activeStep = activePath?.steps.find(s => s.status === 'active') || activePath?.steps.find(s => s.status === 'completed');
-  const chatContext = {
-      tool: user?.tool || 'General',
-      stepTitle: view === 'path' ? activeStep?.title : undefined,
-      stepDesc: view === 'path' ? activeStep?.description : undefined
-  };
+  const chatContext = buildCopilotContext(user, paths, view === 'path' ? activePath : null, view === 'path' ? activeStep : undefined, stepSubmissions);
+
+  // Wait for saved state before deciding between onboarding and dashboard
+  if (!isHydrated) {
+      return (
+          <div className="min-h-screen flex items-center justify-center bg-background dark:bg-dark-background p-4">
+              {storageError ? (
+                  <div className="max-w-md text-center bg-white dark:bg-dark-surface border border-gray-200 dark:border-white/10 rounded-2xl p-8 shadow-2xl">
+                      <h1 className="text-xl font-bold text-gray-900 dark:text-white mb-2">Your saved data couldn't be opened</h1>
+                      <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">{storageError}</p>
+                      <button onClick={restoreState} className="bg-primary text-white font-bold px-6 py-3 rounded-xl hover:bg-primaryDark transition-colors shadow-lg shadow-primary/20">
+                          Try Again
+                      </button>
+                  </div>
+              ) : (
+                  <div className="w-10 h-10 bg-primary rounded-xl flex items-center justify-center font-bold text-white text-xl shadow-lg shadow-primary/30 animate-pulse">A</div>
+              )}
+          </div>
+      );
+  }
 
   // Active Challenge View (Overrides everything)
-  if (isChallengeStarted && activeChallenge && user) {
+  if (isChallengeStarted && activeEvent && user) {
+      // Event progress is saved per milestone, so leaving needs no confirmation
+      return (
+          <ActiveEventView
+            event={activeEvent}
+            onMilestoneComplete={handleMilestoneComplete}
+            onExit={exitChallenge}
+            pendingMilestoneIds={pendingReviews.flatMap(r => r.kind === 'milestone' && r.challenge.id === activeEvent.challenge.id ? [r.milestoneId] : [])}
+            onQueueReview={(milestoneId, file, error) => {
+                const milestone = activeEvent.challenge.milestones?.find(m => m.id === milestoneId);
+                queueReview({
+                    kind: 'milestone',
+                    title: `${milestone?.title || 'Milestone'} — ${activeEvent.challenge.title}`,
+                    eventKind: activeEvent.kind,
+                    challenge: activeEvent.challenge,
+                    milestoneId,
+                    file,
+                }, error);
+            }}
+          />
+      );
+  }
+
+  if (isChallengeStarted && challengeSession && user) {
       return (
           <ActiveChallengeView 
-            challenge={activeChallenge} 
+            session={challengeSession} 
             userTool={user.tool}
+            onSessionChange={(update) => setChallengeSession(prev => prev && update(prev))}
             onFinish={handleChallengeFinish}
-            onCancel={() => {
-                // No confirm dialog needed if it's annoying, or simple confirm
-                if(confirm("Are you sure you want to quit this challenge? Progress will be lost.")) {
-                    setIsChallengeStarted(false);
-                    setActiveChallenge(null);
-                }
+            onCancel={(report) => {
+                recordAttempt(challengeSession.challenge, report, 0);
+                exitChallenge();
+            }}
+            onQueueReview={(file, clock, error) => {
+                queueReview({
+                    kind: 'challenge',
+                    title: challengeSession.challenge.title,
+                    challenge: challengeSession.challenge,
+                    file,
+                    ranked: challengeSession.ranked,
+                    startedAt: challengeSession.startedAt,
+                    ...clock,
+                }, error);
+                exitChallenge();
             }}
           />
       );
   }
 
-  // Onboarding View (Initial or Add Path)
+  // Onboarding View (Initial, Add Path or Add Profile)
   if (view === 'onboarding') {
     return (
         <Onboarding 
             onComplete={handleOnboardingComplete} 
-            initialName={user?.name} // Pass name if user exists to skip step 1
-            onCancel={user ? () => setView('dashboard') : undefined} // Allow cancel if user exists
+            initialName={addingProfile ? undefined : user?.name} // Pass name if user exists to skip step 1
+            newProfile={addingProfile && !!user}
+            onCancel={user ? () => { setAddingProfile(false); setView('dashboard'); } : undefined} // Allow cancel if user exists
         />
     );
   }
@@ -162,8 +782,19 @@ const App = () => {
             >
                 <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M2 3h6a4 4 0 0 1 4 4v14a3 3 0 0 0-3-3H2z"></path><path d="M22 3h-6a4 4 0 0 0-4 4v14a3 3 0 0 1 3-3h7z"></path></svg>
             </button>
+            <button 
+                onClick={() => setView('history')}
+                title="Challenge History"
+                className={`p-3 rounded-xl transition-all duration-300 ${view === 'history' ? 'bg-primary text-white shadow-lg shadow-primary/30' : 'text-gray-400 hover:text-primary hover:bg-primary/10'}`}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="20" x2="18" y2="10"></line><line x1="12" y1="20" x2="12" y2="4"></line><line x1="6" y1="20" x2="6" y2="14"></line></svg>
+            </button>
         </nav>
 
+        {user && (
+            <ProfileSwitcher profiles={profiles} activeId={user.id} onSwitch={handleSwitchProfile} onAdd={handleAddProfile} />
+        )}
+
         {/* Theme Toggle */}
         <button 
             onClick={toggleTheme}
@@ -184,6 +815,9 @@ const App = () => {
             <Dashboard 
                 user={user} 
                 paths={paths} 
+                xpLedger={xpLedger}
+                activity={activity}
+                streak={computeStreak(activity)}
                 onNavigate={(v, pid) => {
                     if (v === 'path' && pid) {
                         navigateToPath(pid);
@@ -191,8 +825,17 @@ const App = () => {
                         setView(v as any);
                     }
                 }} 
-                onStartChallenge={setActiveChallenge}
+                dailyChallenge={dailyChallenge}
+                loadingDailyChallenge={loadingDailyChallenge}
+                onOpenDailyChallenge={handleOpenDailyChallenge}
+                onRerollDailyChallenge={handleRerollDailyChallenge}
+                challengeEvents={challengeEvents}
+                loadingEventKind={loadingEventKind}
+                onOpenEvent={handleOpenEvent}
                 onAddPath={() => setView('onboarding')}
+                pendingReviews={pendingReviews}
+                onRetryReview={handleRetryReview}
+                onDiscardReview={handleDiscardReview}
             />
         )}
         {view === 'path' && activePath && (
@@ -200,6 +843,28 @@ const App = () => {
                 path={activePath} 
                 onBack={() => setView('dashboard')}
                 onCompleteStep={handleStepComplete}
+                onReviseStep={handleReviseStep}
+                onReviewFailed={handleReviewFailed}
+                submissions={stepSubmissions.filter(s => s.pathId === activePath.id)}
+                onSubmissionReviewed={handleSubmissionReviewed}
+                pendingReviews={pendingReviews.filter((r): r is PendingStepReview => r.kind === 'step' && r.pathId === activePath.id)}
+                onReviewUnavailable={(stepId, request, error) => {
+                    const step = activePath.steps.find(s => s.id === stepId);
+                    queueReview({ kind: 'step', title: step?.title || 'Module submission', pathId: activePath.id, stepId, request }, error);
+                }}
+                onRetryReview={handleRetryReview}
+                onDiscardReview={handleDiscardReview}
+                onToggleMiniStep={handleToggleMiniStep}
+                onRemoveAttachment={handleRemoveAttachment}
+                focus={stepFocus}
+                onFocusHandled={() => setStepFocus(null)}
+            />
+        )}
+        {view === 'history' && user && (
+            <ChallengeHistory 
+                user={user}
+                attempts={challengeAttempts}
+                onBack={() => setView('dashboard')}
             />
         )}
       </main>
@@ -207,19 +872,34 @@ const App = () => {
       {/* AI Copilot - Disabled during active challenge */}
       {!isChallengeStarted && (
           <AIChat 
+            key={user?.id} // Each profile has its own threads
             isOpen={isChatOpen} 
             onToggle={() => setIsChatOpen(!isChatOpen)} 
             context={chatContext}
+            onSessionActive={() => logActivity('chat_session')}
+            threads={chatThreads}
+            onSaveThread={handleSaveChatThread}
+            onDeleteThread={handleDeleteChatThread}
+            onAction={handleCopilotAction}
+            onSaveImage={handleSaveChatImage}
           />
       )}
 
+      {reviewNotices.length > 0 && (
+          <ReviewNoticeToast notice={reviewNotices[0]} onDismiss={() => setReviewNotices(prev => prev.slice(1))} />
+      )}
+
+      {levelUpTo !== null && (
+          <LevelUpToast level={levelUpTo} onDismiss={() => setLevelUpTo(null)} />
+      )}
+
       {/* Modals */}
       {/* Show Preview Modal if activeChallenge exists BUT NOT started yet */}
       {activeChallenge && !isChallengeStarted && (
         <ChallengeModal 
             challenge={activeChallenge} 
             onClose={() => setActiveChallenge(null)}
-            onStart={() => setIsChallengeStarted(true)}
+            onStart={handleStartChallenge}
         />
       )}
     </div>
@@ -1,51 +1,146 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { createChatSession, editImage } from '../services/geminiService';
-import { ChatMessage } from '../types';
-import { Chat, GenerateContentResponse, Part } from "@google/genai";
-import { marked } from 'marked';
+import { createChatSession, editImage, visualizeConcept } from '../services/aiService';
+import { ChatSession, ChatEvent, ChatActionCall, ChatActionResult } from '../services/aiProvider';
+import { ChatMessage, ChatThread, ChatActionStatus, ImageVersionRef, ImageEditSession } from '../types';
+import { copilotActionDefinitions, CopilotActionOutcome } from '../services/copilotActionService';
+import { CopilotContext, formatCopilotContext } from '../services/chatContextService';
+import { createThread, hasQuestions, updateThreadMessages, threadsForScope, latestThreadFor, searchThreads, historyForThread, threadToMarkdown, threadFileName, messageImage } from '../services/chatThreadService';
+import { startEditSession, addImageVersion, findVersion, upsertEditSession, versionLabel, undoTarget } from '../services/imageEditService';
+import ImageVersionsPanel from './ImageVersionsPanel';
+import MarkdownMessage from './MarkdownMessage';
 
 interface AIChatProps {
   isOpen: boolean;
   onToggle: () => void;
-  context: {
-    tool: string;
-    stepTitle?: string;
-    stepDesc?: string;
-  };
+  context: CopilotContext;
+  onSessionActive?: () => void; // Fired once per chat session, on the first successful reply
+  threads: ChatThread[]; // Saved conversations, newest first
+  onSaveThread: (thread: ChatThread) => void;
+  onDeleteThread: (id: string) => void;
+  // Runs an app action the model asked for; state-changing actions call `confirm` first
+  onAction: (call: ChatActionCall, confirm: (summary: string) => Promise<boolean>) => Promise<CopilotActionOutcome>;
+  onSaveImage: (pathId: string, stepId: string, imageUrl: string, caption: string) => Promise<void>;
 }
 
-const AIChat: React.FC<AIChatProps> = ({ isOpen, onToggle, context }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: 'init',
-      role: 'model',
-      text: "Hi! I'm Artifex. I see what you're working on. How can I help you with this step?",
-      timestamp: Date.now()
-    }
-  ]);
+// Rounds of action calls answered within one reply, so a confused model can't loop forever
+const MAX_ACTION_ROUNDS = 3;
+
+const ACTION_STATUS_LABELS: Record<ChatActionStatus, string> = {
+  awaiting: 'Needs your OK',
+  done: 'Done',
+  declined: 'Cancelled',
+  failed: "Couldn't do it",
+};
+
+const AIChat: React.FC<AIChatProps> = ({ isOpen, onToggle, context, onSessionActive, threads, onSaveThread, onDeleteThread, onAction, onSaveImage }) => {
+  const newThread = () => createThread({
+    tool: context.tool,
+    pathId: context.pathId,
+    stepId: context.stepId,
+    scopeLabel: context.stepTitle || context.pathTitle || 'General',
+  });
+  const [thread, setThread] = useState<ChatThread>(() => latestThreadFor(threads, context.pathId, context.stepId) || newThread());
+  const messages = thread.messages;
+  const [showThreads, setShowThreads] = useState(false);
+  const [query, setQuery] = useState('');
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [pastedImage, setPastedImage] = useState<string | null>(null);
-  const [mode, setMode] = useState<'chat' | 'edit'>('chat'); // Toggle for image mode
+  const [mode, setMode] = useState<'chat' | 'edit' | 'visualize'>('chat'); // Image edit needs a pasted image; visualize is text only
+  const [savingImageId, setSavingImageId] = useState<string | null>(null);
+  const [editTarget, setEditTarget] = useState<ImageVersionRef | null>(null); // Version the next edit starts from, instead of a pasted image
+  const [versionsOpen, setVersionsOpen] = useState<ImageVersionRef | null>(null);
+  const [confirmation, setConfirmation] = useState<{ messageId: string; resolve: (confirmed: boolean) => void } | null>(null);
   
-  const chatSessionRef = useRef<Chat | null>(null);
+  const chatSessionRef = useRef<ChatSession | null>(null);
+  const sessionActiveRef = useRef(false);
+  const sessionContextRef = useRef<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  // Initialize Chat
+  const systemContext = formatCopilotContext(context);
+
+  const startSession = (target: ChatThread) => {
+    chatSessionRef.current = createChatSession({ history: historyForThread(target), systemContext, actions: copilotActionDefinitions() });
+    sessionContextRef.current = systemContext;
+  };
+
+  // Each opened thread gets a chat session primed with its saved history
+  const openThread = (next: ChatThread) => {
+    setThread(next);
+    setEditTarget(null);
+    setVersionsOpen(null);
+    startSession(next);
+    sessionActiveRef.current = false;
+    setShowThreads(false);
+  };
+
+  // Follow the user to another step or path: resume its latest thread or start a fresh one.
+  // Navigation the Copilot itself performed mid-reply keeps the conversation where it is.
+  useEffect(() => {
+    if (isTyping) return;
+    openThread(latestThreadFor(threads, context.pathId, context.stepId) || newThread());
+  }, [context.pathId, context.stepId]);
+
+  // A new step or a new review changes what the Copilot should know; the conversation carries on
+  // in a fresh session with the same history. Waits for a reply in progress to finish.
   useEffect(() => {
-    chatSessionRef.current = createChatSession();
-  }, []);
+    if (!isTyping && sessionContextRef.current !== null && sessionContextRef.current !== systemContext) startSession(thread);
+  }, [systemContext, isTyping]);
+
+  const handleDeleteThread = (target: ChatThread) => {
+    if (!confirm(`Delete "${target.title}"?`)) return;
+    onDeleteThread(target.id);
+    if (target.id === thread.id) openThread(newThread());
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([threadToMarkdown(thread)], { type: 'text/markdown' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = threadFileName(thread);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const searchResults = searchThreads(threads, query);
 
   // Scroll to bottom
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, isOpen, isTyping]);
 
-  // Reset mode when image cleared
+  // Reset edit mode when image cleared
   useEffect(() => {
-    if (!pastedImage) setMode('chat');
+    if (!pastedImage && mode === 'edit') setMode('chat');
   }, [pastedImage]);
 
+  const target = pastedImage ? undefined : findVersion(thread.editSessions, editTarget ?? undefined);
+  const isEditing = (mode === 'edit' && !!pastedImage) || !!target;
+  const versionsView = findVersion(thread.editSessions, versionsOpen ?? undefined);
+
+  const continueEditing = (ref: ImageVersionRef) => {
+    setEditTarget(ref);
+    setPastedImage(null);
+    setMode('chat');
+    setVersionsOpen(null);
+  };
+
+  // Generated images can be kept on the step the user is looking at
+  const handleSaveImage = async (msg: ChatMessage) => {
+    const { pathId, stepId } = context;
+    const imageUrl = messageImage(thread, msg);
+    if (!pathId || !stepId || !imageUrl || savingImageId) return;
+    setSavingImageId(msg.id);
+    try {
+      await onSaveImage(pathId, stepId, imageUrl, msg.text || msg.action?.summary || '');
+      const saved = updateThreadMessages(thread, thread.messages.map(m => m.id === msg.id ? { ...m, savedToStepId: stepId } : m));
+      setThread(saved);
+      if (hasQuestions(saved)) onSaveThread(saved);
+    } finally {
+      setSavingImageId(null);
+    }
+  };
+
   // Handle Paste (Images)
   const handlePaste = (e: React.ClipboardEvent) => {
     const items = e.clipboardData.items;
@@ -59,6 +154,7 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onToggle, context }) => {
                 if (event.target?.result) {
                     // Get base64 string without prefix for API, but keep full for preview
                     setPastedImage(event.target.result as string);
+                    setEditTarget(null); // A new image starts a new edit session
                     setMode('chat'); // Default to chat
                 }
             };
@@ -69,113 +165,178 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onToggle, context }) => {
   };
 
   const handleSend = async () => {
-    if ((!input.trim() && !pastedImage) || isTyping) return;
+    if ((!input.trim() && !pastedImage && !target) || isTyping) return;
+    if (mode === 'visualize' && !target && !input.trim()) return;
 
     // Display user message
+    const currentInput = input;
+    const currentImage = pastedImage;
+    const currentMode = mode;
+    // An edit either starts a session from the pasted image or continues from the targeted version
+    let editSession: ImageEditSession | undefined;
+    let editBaseId: string | undefined;
+    if (target) {
+      editSession = target.session;
+      editBaseId = target.version.id;
+    } else if (currentMode === 'edit' && currentImage) {
+      editSession = startEditSession(currentImage);
+      editBaseId = editSession.versions[0].id;
+    }
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
       role: 'user',
       text: input, 
-      imageUrl: pastedImage || undefined,
-      timestamp: Date.now()
+      imageUrl: editSession ? undefined : currentImage || undefined,
+      imageVersion: editSession && editBaseId ? { sessionId: editSession.id, versionId: editBaseId } : undefined,
+      timestamp: Date.now(),
+      offThread: !!editSession || currentMode === 'visualize',
     };
 
-    setMessages(prev => [...prev, userMsg]);
-    const currentInput = input;
-    const currentImage = pastedImage;
-    const currentMode = mode;
+    // Messages are tracked here so the finished thread can be saved without waiting for a render
+    let current = updateThreadMessages(
+      editSession ? { ...thread, editSessions: upsertEditSession(thread.editSessions, editSession) } : thread,
+      [...thread.messages, userMsg]
+    );
+    const setMessages = (update: (prev: ChatMessage[]) => ChatMessage[]) => {
+        current = updateThreadMessages(current, update(current.messages));
+        setThread(current);
+    };
+    setThread(current);
     
     setInput('');
     setPastedImage(null);
     setIsTyping(true);
 
     try {
-      if (currentMode === 'edit' && currentImage) {
-        // Image Editing Flow (Nano Banana)
+      if (editSession && editBaseId) {
+        // Image Editing Flow (Nano Banana); each result is a new version and the next edit continues from it
         try {
-            const editedImageBase64 = await editImage(currentImage, currentInput || "Enhance this image");
-            
+            const base = editSession.versions.find(v => v.id === editBaseId)!;
+            const prompt = currentInput || "Enhance this image";
+            const editedImageBase64 = await editImage(base.imageUrl, prompt);
+            const { session: next, version } = addImageVersion(editSession, editBaseId, editedImageBase64, prompt);
+            current = { ...current, editSessions: upsertEditSession(current.editSessions, next) };
+            const ref = { sessionId: next.id, versionId: version.id };
+
             setMessages(prev => [...prev, {
                 id: Date.now().toString(),
                 role: 'model',
-                text: "Here is the edited version:",
-                imageUrl: editedImageBase64,
-                timestamp: Date.now()
+                text: `Here is the edited version (${versionLabel(next, version.id)}):`,
+                imageVersion: ref,
+                timestamp: Date.now(),
+                offThread: true
             }]);
+            setEditTarget(ref);
         } catch (err) {
             setMessages(prev => [...prev, {
                 id: Date.now().toString(),
                 role: 'model',
                 text: "Sorry, I couldn't process the image edit request.",
-                timestamp: Date.now()
+                timestamp: Date.now(),
+                offThread: true
+            }]);
+            // Trying again shouldn't need the image pasted again
+            setEditTarget({ sessionId: editSession.id, versionId: editBaseId });
+        }
+      } else if (currentMode === 'visualize') {
+        // Text-to-image explanation; like image edits, it stays out of the chat session
+        try {
+            const { imageUrl, caption } = await visualizeConcept({ prompt: currentInput, tool: context.tool, stepTitle: context.stepTitle });
+            setMessages(prev => [...prev, {
+                id: Date.now().toString(),
+                role: 'model',
+                text: caption,
+                imageUrl,
+                timestamp: Date.now(),
+                offThread: true
+            }]);
+        } catch (err) {
+            setMessages(prev => [...prev, {
+                id: Date.now().toString(),
+                role: 'model',
+                text: "Sorry, I couldn't draw that. Try describing it differently.",
+                timestamp: Date.now(),
+                offThread: true
             }]);
         }
       } else {
         // Standard Chat Flow (Gemini Flash)
         if (!chatSessionRef.current) return;
 
-        // Construct parts for the model
-        // We prepend context to the text part so the model knows what's up without user seeing it in bubble
-        const contextPrompt = `
-        [SYSTEM CONTEXT]
-        User Tool: ${context.tool}
-        Current Module: ${context.stepTitle || 'General'}
-        Task Description: ${context.stepDesc || 'N/A'}
-        
-        Please provide specific advice for ${context.tool}. Do NOT include markdown code blocks or HTML tags in your response unless absolutely necessary for code snippets. Keep the response clean and readable.
-        [END CONTEXT]
-        
-        ${currentInput}
-        `;
-
-        const parts: (string | Part)[] = [{ text: contextPrompt }];
-        
-        if (currentImage) {
-            // Remove data url prefix for API
-            const base64Data = currentImage.split(',')[1];
-            parts.unshift({
-                inlineData: {
-                    mimeType: 'image/png', // Assuming png or jpeg, simple handling
-                    data: base64Data
+        const session = chatSessionRef.current;
+
+        // Streams one stretch of the reply into a new bubble and collects the actions it asks for
+        const streamReply = async (events: AsyncIterable<ChatEvent>): Promise<ChatActionCall[]> => {
+            const calls: ChatActionCall[] = [];
+            let fullResponse = '';
+            const botMsgId = `${Date.now()}-reply`;
+            for await (const event of events) {
+                if (event.kind === 'action') {
+                    calls.push(event.call);
+                    continue;
                 }
+                const isFirst = !fullResponse;
+                fullResponse += event.text;
+                setMessages(prev => isFirst
+                    ? [...prev, { id: botMsgId, role: 'model', text: fullResponse, timestamp: Date.now() }]
+                    : prev.map(msg => msg.id === botMsgId ? { ...msg, text: fullResponse } : msg));
+            }
+            return calls;
+        };
+
+        // The action card goes up when confirmation is asked for, or once the action has run
+        const runAction = async (call: ChatActionCall): Promise<ChatActionResult> => {
+            const cardId = `${Date.now()}-${call.name}`;
+            const confirm = (summary: string) => new Promise<boolean>(resolve => {
+                setMessages(prev => [...prev, { id: cardId, role: 'model', text: '', timestamp: Date.now(), offThread: true, action: { name: call.name, summary, status: 'awaiting' } }]);
+                setConfirmation({ messageId: cardId, resolve });
             });
-        }
+            const outcome = await onAction(call, confirm);
+            setConfirmation(null);
+            const card: ChatMessage = {
+                id: cardId, role: 'model', text: outcome.caption || '', timestamp: Date.now(), offThread: true,
+                imageUrl: outcome.imageUrl,
+                action: { name: call.name, summary: outcome.summary, status: outcome.status },
+            };
+            setMessages(prev => prev.some(m => m.id === cardId) ? prev.map(m => m.id === cardId ? card : m) : [...prev, card]);
+            return { id: call.id, name: call.name, response: outcome.response };
+        };
 
-        const result = await chatSessionRef.current.sendMessageStream({ 
-            message: parts.length === 1 ? parts[0] as string : parts 
+        // The step, criteria and last review travel as the session's system context, not in each message
+        let events = session.sendMessageStream({ 
+            text: currentInput,
+            imageDataUrl: currentImage || undefined
         });
-        
-        let fullResponse = '';
-        const botMsgId = (Date.now() + 1).toString();
-        
-        // Add placeholder for bot message
-        setMessages(prev => [...prev, {
-            id: botMsgId,
-            role: 'model',
-            text: '',
-            timestamp: Date.now()
-        }]);
-
-        for await (const chunk of result) {
-            const c = chunk as GenerateContentResponse;
-            const textChunk = c.text || '';
-            fullResponse += textChunk;
-            
-            setMessages(prev => prev.map(msg => 
-            msg.id === botMsgId ? { ...msg, text: fullResponse } : msg
-            ));
+        for (let round = 0; ; round++) {
+            const calls = await streamReply(events);
+            if (!calls.length || round > MAX_ACTION_ROUNDS) break;
+            const results: ChatActionResult[] = [];
+            for (const call of calls) {
+                results.push(round < MAX_ACTION_ROUNDS
+                    ? await runAction(call)
+                    : { id: call.id, name: call.name, response: { ok: false, message: 'Too many actions in one reply; ask the user first.' } });
+            }
+            events = session.sendActionResults(results);
+        }
+
+        if (!sessionActiveRef.current) {
+            sessionActiveRef.current = true;
+            onSessionActive?.();
         }
       }
     } catch (error) {
       console.error("Chat error", error);
-      setMessages(prev => [...prev, {
+      // The failed exchange is kept for reading but not replayed to the model
+      setMessages(prev => [...prev.map((m, i) => i >= prev.findIndex(p => p.id === userMsg.id) ? { ...m, offThread: true } : m), {
         id: Date.now().toString(),
         role: 'model',
         text: "I encountered an error connecting to the neural network. Please try again.",
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        offThread: true
       }]);
     } finally {
       setIsTyping(false);
+      if (hasQuestions(current)) onSaveThread(current);
     }
   };
 
@@ -186,12 +347,6 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onToggle, context }) => {
     }
   };
 
-  // Render markdown safely
-  const renderMessageText = (text: string) => {
-      const html = marked.parse(text) as string;
-      return <div className="prose prose-sm max-w-none dark:prose-invert" dangerouslySetInnerHTML={{ __html: html }} />;
-  };
-
   if (!isOpen) {
     return (
       <button 
@@ -204,6 +359,7 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onToggle, context }) => {
   }
 
   return (
+    <>
     <div className="fixed top-0 right-0 h-full w-96 bg-white dark:bg-dark-surface border-l border-gray-200 dark:border-white/10 shadow-2xl z-50 flex flex-col transform transition-transform duration-300">
       {/* Header */}
       <div className="p-4 border-b border-gray-200 dark:border-white/10 flex justify-between items-center bg-gray-100 dark:bg-dark-surfaceHighlight">
@@ -214,36 +370,137 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onToggle, context }) => {
                 <span className="text-[10px] text-gray-500">{context.tool} • {context.stepTitle ? 'Module Active' : 'Idle'}</span>
             </div>
         </div>
-        <button onClick={onToggle} className="text-gray-400 hover:text-gray-900 dark:hover:text-white">
-          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
-        </button>
+        <div className="flex items-center gap-3">
+            {hasQuestions(thread) && !showThreads && (
+                <button onClick={handleExport} title="Export as Markdown" className="text-gray-400 hover:text-gray-900 dark:hover:text-white">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>
+                </button>
+            )}
+            <button
+                onClick={() => setShowThreads(!showThreads)}
+                disabled={isTyping}
+                title="Conversations"
+                className={`disabled:opacity-30 ${showThreads ? 'text-primary' : 'text-gray-400 hover:text-gray-900 dark:hover:text-white'}`}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="8" y1="6" x2="21" y2="6"></line><line x1="8" y1="12" x2="21" y2="12"></line><line x1="8" y1="18" x2="21" y2="18"></line><line x1="3" y1="6" x2="3.01" y2="6"></line><line x1="3" y1="12" x2="3.01" y2="12"></line><line x1="3" y1="18" x2="3.01" y2="18"></line></svg>
+            </button>
+            <button onClick={onToggle} className="text-gray-400 hover:text-gray-900 dark:hover:text-white">
+              <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+            </button>
+        </div>
       </div>
 
+      {showThreads ? (
+      /* Conversations */
+      <div className="flex-1 overflow-y-auto p-4 space-y-3 bg-white dark:bg-dark-surface">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search past conversations..."
+          className="w-full bg-white dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg px-3 py-2 text-sm text-gray-900 dark:text-white focus:outline-none focus:border-primary"
+        />
+        {query.trim() ? (
+            searchResults.length ? searchResults.map(hit => (
+                <button key={`${hit.thread.id}-${hit.message.id}`} onClick={() => openThread(hit.thread)} className="w-full text-left p-3 rounded-lg border border-gray-200 dark:border-white/10 hover:border-primary/50">
+                    <div className="text-sm font-semibold text-gray-900 dark:text-white truncate">{hit.thread.title}</div>
+                    <div className="text-[10px] text-gray-500 mb-1">{hit.message.role === 'user' ? 'You' : 'Artifex'} • {new Date(hit.message.timestamp).toLocaleDateString()}</div>
+                    <div className="text-xs text-gray-600 dark:text-gray-400">{hit.snippet}</div>
+                </button>
+            )) : (
+                <p className="text-sm text-gray-400 text-center py-6">No messages match "{query.trim()}".</p>
+            )
+        ) : (
+            <>
+                <button onClick={() => openThread(newThread())} className="w-full p-3 rounded-lg border border-dashed border-primary/50 text-primary text-sm font-semibold hover:bg-primary/5">
+                    + New conversation about {context.stepTitle || context.pathTitle || 'anything'}
+                </button>
+                {threadsForScope(threads, context.pathId, context.stepId).map(t => (
+                    <div key={t.id} className={`flex items-start gap-2 p-3 rounded-lg border ${t.id === thread.id ? 'border-primary bg-primary/5' : 'border-gray-200 dark:border-white/10 hover:border-primary/50'}`}>
+                        <button onClick={() => openThread(t)} className="flex-1 min-w-0 text-left">
+                            <div className="text-sm font-semibold text-gray-900 dark:text-white truncate">{t.title}</div>
+                            <div className="text-[10px] text-gray-500 truncate">{t.scopeLabel} • {new Date(t.updatedAt).toLocaleDateString()} • {t.messages.filter(m => m.role === 'user').length} questions</div>
+                        </button>
+                        <button onClick={() => handleDeleteThread(t)} title="Delete conversation" className="text-gray-400 hover:text-red-500 text-lg leading-none">×</button>
+                    </div>
+                ))}
+            </>
+        )}
+      </div>
+      ) : (
+      <>
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-white dark:bg-dark-surface">
-        {messages.map((msg) => (
+        {messages.map((msg) => {
+          const imageUrl = messageImage(thread, msg);
+          const version = findVersion(thread.editSessions, msg.imageVersion);
+          return (
           <div key={msg.id} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+            {msg.action ? (
+            <div className={`max-w-[90%] w-full rounded-lg overflow-hidden border text-sm ${msg.action.status === 'failed' ? 'border-red-500/30 bg-red-500/5' : 'border-primary/30 bg-primary/5'}`}>
+              {msg.imageUrl && (
+                  <img src={msg.imageUrl} alt={msg.action.summary} className="w-full h-auto object-cover max-h-60" />
+              )}
+              <div className="p-3">
+                <div className={`text-[10px] font-bold uppercase tracking-wider mb-1 ${msg.action.status === 'failed' ? 'text-red-500' : 'text-primary'}`}>{ACTION_STATUS_LABELS[msg.action.status]}</div>
+                <div className="text-gray-800 dark:text-gray-200">{msg.action.summary}</div>
+                {msg.text && <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">{msg.text}</div>}
+                {confirmation?.messageId === msg.id && (
+                    <div className="flex gap-2 mt-3">
+                        <button onClick={() => confirmation.resolve(true)} className="px-3 py-1 rounded bg-primary hover:bg-blue-600 text-white text-xs font-bold">Confirm</button>
+                        <button onClick={() => confirmation.resolve(false)} className="px-3 py-1 rounded text-gray-500 hover:text-gray-900 dark:hover:text-white text-xs">Cancel</button>
+                    </div>
+                )}
+              </div>
+            </div>
+            ) : (
             <div className={`max-w-[90%] rounded-lg overflow-hidden border ${
               msg.role === 'user' 
                 ? 'bg-primary text-white border-primary' 
                 : 'bg-gray-200 dark:bg-white/5 border-gray-300 dark:border-white/10 text-gray-900 dark:text-gray-200'
             }`}>
               {/* Image Content */}
-              {msg.imageUrl && (
+              {imageUrl && (
                   <div className="w-full">
-                      <img src={msg.imageUrl} alt="Content" className="w-full h-auto object-cover max-h-60" />
+                      <img src={imageUrl} alt="Content" className="w-full h-auto object-cover max-h-60" />
                   </div>
               )}
+              {/* Follow-up edits name the version they start from */}
+              {msg.role === 'user' && version && !imageUrl && (
+                  <div className="px-3 pt-2 text-[10px] font-bold uppercase tracking-wider opacity-80">Editing {versionLabel(version.session, version.version.id)}</div>
+              )}
               {/* Text Content */}
-              {(msg.text || !msg.imageUrl) && (
+              {(msg.text || !imageUrl) && (
                 <div className="p-3 text-sm">
-                    {msg.role === 'model' ? renderMessageText(msg.text) : msg.text}
+                    {msg.role === 'model' ? <MarkdownMessage text={msg.text} /> : msg.text}
                 </div>
               )}
             </div>
+            )}
+            {msg.role === 'model' && version && msg.imageVersion && (
+                <div className="flex gap-3 text-[10px] mt-1">
+                    <button onClick={() => continueEditing(msg.imageVersion!)} disabled={isTyping} className="text-primary hover:underline disabled:opacity-50">Edit this version</button>
+                    <button onClick={() => setVersionsOpen(msg.imageVersion!)} className="text-gray-500 hover:text-gray-900 dark:hover:text-white">
+                        Compare & download ({version.session.versions.length} versions)
+                    </button>
+                </div>
+            )}
+            {msg.role === 'model' && imageUrl && context.stepId && (!msg.action || msg.action.status === 'done') && (
+                msg.savedToStepId === context.stepId ? (
+                    <span className="text-[10px] text-green-500 mt-1">✓ Saved to {context.stepTitle}</span>
+                ) : (
+                    <button
+                        onClick={() => handleSaveImage(msg)}
+                        disabled={isTyping || !!savingImageId}
+                        className="text-[10px] text-primary hover:underline mt-1 disabled:opacity-50"
+                    >
+                        {savingImageId === msg.id ? 'Saving...' : `Save to "${context.stepTitle}"`}
+                    </button>
+                )
+            )}
           </div>
-        ))}
-        {isTyping && (
+          );
+        })}
+        {isTyping && !confirmation && (
            <div className="flex justify-start">
              <div className="bg-gray-100 dark:bg-white/5 rounded-lg p-3 text-sm text-gray-400 italic flex gap-1">
                  <span className="animate-bounce">●</span>
@@ -285,26 +542,70 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onToggle, context }) => {
                 </div>
             </div>
         )}
+        {target && (
+            <div className="mb-2 flex items-center gap-3">
+                <img src={target.version.imageUrl} alt={versionLabel(target.session, target.version.id)} className="h-16 rounded border border-accent" />
+                <div className="text-xs space-y-1">
+                    <div className="font-bold text-gray-900 dark:text-white">Editing {versionLabel(target.session, target.version.id)}</div>
+                    <div className="flex gap-3 text-gray-500">
+                        <button
+                            onClick={() => setEditTarget({ sessionId: target.session.id, versionId: undoTarget(target.session, target.version.id)! })}
+                            disabled={!target.version.parentId || isTyping}
+                            title="Go back to the version this one was made from"
+                            className="hover:text-gray-900 dark:hover:text-white disabled:opacity-30"
+                        >
+                            Undo
+                        </button>
+                        <button onClick={() => setVersionsOpen(editTarget)} className="hover:text-gray-900 dark:hover:text-white">Versions</button>
+                        <button onClick={() => setEditTarget(null)} className="hover:text-red-500">Stop editing</button>
+                    </div>
+                </div>
+            </div>
+        )}
         <textarea
           value={input}
           onChange={(e) => setInput(e.target.value)}
           onKeyDown={handleKeyPress}
           onPaste={handlePaste}
-          placeholder={pastedImage && mode === 'edit' ? "Describe changes (e.g. 'Add a neon glow')..." : `Ask about ${context.stepTitle || context.tool}...`}
+          placeholder={isEditing
+            ? "Describe changes (e.g. 'Add a neon glow')..."
+            : mode === 'visualize' ? "Describe what to draw (e.g. 'Edge loops around an eye')..." : `Ask about ${context.stepTitle || context.tool}...`}
           className="w-full bg-white dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-lg p-3 text-sm text-gray-900 dark:text-white focus:outline-none focus:border-primary resize-none h-20"
         />
         <div className="flex justify-between items-center mt-2 text-xs text-gray-500">
-          <span>Shift+Enter for new line</span>
+          {pastedImage || target ? (
+            <span>Shift+Enter for new line</span>
+          ) : (
+            <button
+              onClick={() => setMode(mode === 'visualize' ? 'chat' : 'visualize')}
+              title="Draw an explanatory image instead of answering in text"
+              className={`px-2 py-1 rounded-md transition-all ${mode === 'visualize' ? 'bg-accent text-black font-bold' : 'hover:text-gray-900 dark:hover:text-white'}`}
+            >
+              Visualize
+            </button>
+          )}
           <button 
             onClick={handleSend}
-            disabled={(!input.trim() && !pastedImage) || isTyping}
-            className={`px-3 py-1 rounded transition-colors text-white disabled:opacity-50 ${mode === 'edit' && pastedImage ? 'bg-accent text-black font-bold hover:bg-yellow-300' : 'bg-primary hover:bg-blue-600'}`}
+            disabled={(!input.trim() && ((!pastedImage && !target) || mode === 'visualize')) || isTyping}
+            className={`px-3 py-1 rounded transition-colors text-white disabled:opacity-50 ${isEditing || mode === 'visualize' ? 'bg-accent text-black font-bold hover:bg-yellow-300' : 'bg-primary hover:bg-blue-600'}`}
           >
-            {mode === 'edit' && pastedImage ? 'Generate' : 'Send'}
+            {isEditing ? 'Generate' : mode === 'visualize' ? 'Visualize' : 'Send'}
           </button>
         </div>
       </div>
+      </>
+      )}
     </div>
+    {/* Outside the panel: its transform would otherwise contain the fixed overlay */}
+    {versionsView && (
+        <ImageVersionsPanel
+          session={versionsView.session}
+          initialId={versionsView.version.id}
+          onContinue={versionId => continueEditing({ sessionId: versionsView.session.id, versionId })}
+          onClose={() => setVersionsOpen(null)}
+        />
+    )}
+    </>
   );
 };
 
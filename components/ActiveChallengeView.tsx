@@ -1,29 +1,58 @@
 import React, { useState, useEffect } from 'react';
-import { Challenge } from '../types';
-import { generateHint, evaluateChallengeSubmission } from '../services/geminiService';
+import { ChallengeSession, ChallengeSubmission, ChallengeAttemptReport, AttemptOutcome } from '../types';
+import { generateHint } from '../services/aiService';
+import { evaluateAgainstReference } from '../services/similarityService';
+import { tierForTime } from '../services/attemptService';
+import { scoreChallenge } from '../services/scoringService';
+import { elapsedSeconds as sessionElapsed, isPaused, canPause, pauseRulesFor, pauseSecondsLeft, pauseSession, resumeSession, addHintPenalty, addHint, recordSubmission } from '../services/challengeSessionService';
+import { CHALLENGE_SCORING } from '../constants';
+import EvaluationScores from './EvaluationScores';
 
 interface ActiveChallengeViewProps {
-  challenge: Challenge;
+  session: ChallengeSession;
   userTool: string;
-  onFinish: (score: number) => void;
-  onCancel: () => void;
+  // Session changes go through the owner so every step is persisted
+  onSessionChange: (update: (session: ChallengeSession) => ChallengeSession) => void;
+  onFinish: (report: ChallengeAttemptReport) => void;
+  onCancel: (report: ChallengeAttemptReport) => void;
+  // The upload couldn't be evaluated; the owner queues it with the clock at submission and ends the session
+  onQueueReview: (file: File, clock: SubmissionClock, error: unknown) => void;
 }
 
-const ActiveChallengeView: React.FC<ActiveChallengeViewProps> = ({ challenge, userTool, onFinish, onCancel }) => {
-  const [elapsedSeconds, setElapsedSeconds] = useState(0);
-  const [penaltySeconds, setPenaltySeconds] = useState(0);
-  const [hints, setHints] = useState<string[]>([]);
+type SubmissionClock = Pick<ChallengeSubmission, 'elapsedSeconds' | 'penaltySeconds' | 'hintsUsed'>;
+
+const ActiveChallengeView: React.FC<ActiveChallengeViewProps> = ({ session, userTool, onSessionChange, onFinish, onCancel, onQueueReview }) => {
+  const { challenge, hints, penaltySeconds, submission } = session;
+  const [now, setNow] = useState(Date.now());
   const [loadingHint, setLoadingHint] = useState(false);
   const [uploading, setUploading] = useState(false);
-  const [submissionResult, setSubmissionResult] = useState<{passed: boolean, score: number, feedback: string} | null>(null);
+  // A restored session that already has a graded upload reopens on its result
+  const [showResult, setShowResult] = useState(!!submission);
+  const [confirmingQuit, setConfirmingQuit] = useState(false);
+  const [unavailable, setUnavailable] = useState<{ file: File; clock: SubmissionClock; error: unknown } | null>(null);
 
+  // The interval only triggers re-renders; time itself comes from timestamps, so throttling can't skew it
   useEffect(() => {
-    const interval = setInterval(() => {
-      setElapsedSeconds(prev => prev + 1);
-    }, 1000);
-    return () => clearInterval(interval);
+    const tick = () => setNow(Date.now());
+    const interval = setInterval(tick, 1000);
+    document.addEventListener('visibilitychange', tick);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', tick);
+    };
   }, []);
 
+  const paused = isPaused(session);
+  const pauseRules = pauseRulesFor(session);
+  const pausesLeft = pauseRules.maxPauses - session.pauses.length;
+  const pauseLeft = pauseSecondsLeft(session, now);
+
+  // A pause that reaches its limit ends by itself
+  useEffect(() => {
+    if (paused && pauseLeft === 0) onSessionChange(s => resumeSession(s, Date.now()));
+  }, [paused, pauseLeft]);
+
+  const elapsedSeconds = sessionElapsed(session, now);
   const totalSeconds = elapsedSeconds + penaltySeconds;
 
   // Format seconds into MM:SS
@@ -34,52 +63,67 @@ const ActiveChallengeView: React.FC<ActiveChallengeViewProps> = ({ challenge, us
   };
 
   const handleRequestHint = async () => {
-    if (loadingHint) return;
+    if (loadingHint || paused) return;
     setLoadingHint(true);
-    setPenaltySeconds(prev => prev + 120);
+    onSessionChange(s => addHintPenalty(s));
     
     try {
         const hint = await generateHint(userTool, challenge);
-        setHints(prev => [...prev, hint]);
+        onSessionChange(s => addHint(s, hint));
     } catch (e) {
-        setHints(prev => [...prev, "Focus on the main silhouette first."]);
+        onSessionChange(s => addHint(s, "Focus on the main silhouette first."));
     } finally {
         setLoadingHint(false);
     }
   };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-      if (!e.target.files || !e.target.files[0] || !challenge.referenceImageUrl) return;
+      if (!e.target.files || !e.target.files[0] || paused) return;
       
+      // Scoring uses the time of submission, not the time spent waiting for the review
+      const clock: SubmissionClock = { elapsedSeconds: sessionElapsed(session), penaltySeconds, hintsUsed: hints.length };
+      const file = e.target.files[0];
+      e.target.value = '';
       setUploading(true);
       try {
-          const file = e.target.files[0];
-          const result = await evaluateChallengeSubmission(challenge.referenceImageUrl, file);
-          setSubmissionResult(result);
-      } catch (e) {
-          alert("Submission failed. Please try again.");
+          const evaluation = await evaluateAgainstReference(challenge, file);
+          onSessionChange(s => recordSubmission(s, evaluation, file, clock));
+          setShowResult(true);
+      } catch (error) {
+          setUnavailable({ file, clock, error });
       } finally {
           setUploading(false);
       }
   };
 
   // Determine current tier
-  const currentMinutes = totalSeconds / 60;
-  let currentTier = 'GOLD';
-  let timeToNext = challenge.goldTime * 60 - totalSeconds;
-  
-  if (currentMinutes > challenge.goldTime) {
-      currentTier = 'SILVER';
-      timeToNext = challenge.silverTime * 60 - totalSeconds;
-  }
-  if (currentMinutes > challenge.silverTime) {
-      currentTier = 'BRONZE';
-      timeToNext = challenge.bronzeTime * 60 - totalSeconds;
-  }
-  if (currentMinutes > challenge.bronzeTime) {
-      currentTier = 'FAIL';
-      timeToNext = 0;
-  }
+  const currentTier = tierForTime(challenge, totalSeconds);
+  const cutoffMinutes = { GOLD: challenge.goldTime, SILVER: challenge.silverTime, BRONZE: challenge.bronzeTime, FAIL: 0 }[currentTier];
+  const timeToNext = currentTier === 'FAIL' ? 0 : cutoffMinutes * 60 - totalSeconds;
+
+  const breakdown = submission ? scoreChallenge({ challenge, ...submission }) : null;
+  // Practice runs are scored for reference but never pay out
+  const earnsXp = !!breakdown && breakdown.claimable && session.ranked;
+
+  // Everything the session knows when it ends, so the attempt can be recorded.
+  // A completed run is timed at its submission; anything else at the moment the user left.
+  const buildReport = (outcome: AttemptOutcome): ChallengeAttemptReport => {
+      const completed = outcome === 'completed' && submission && breakdown;
+      return {
+          outcome,
+          ranked: session.ranked,
+          startedAt: session.startedAt,
+          elapsedSeconds: completed ? submission.elapsedSeconds : elapsedSeconds,
+          penaltySeconds: completed ? submission.penaltySeconds : penaltySeconds,
+          hintsUsed: hints.length,
+          tier: completed ? breakdown.tier : currentTier,
+          evaluation: submission?.evaluation,
+          submission: submission?.file,
+          xpReward: completed && earnsXp ? breakdown.total : 0,
+      };
+  };
+
+  const result = showResult && submission && breakdown ? { evaluation: submission.evaluation, breakdown } : null;
 
   const getTierColor = (tier: string) => {
       switch(tier) {
@@ -96,7 +140,7 @@ const ActiveChallengeView: React.FC<ActiveChallengeViewProps> = ({ challenge, us
       {/* Left: Reference Image */}
       <div className="w-full md:w-2/3 bg-black flex items-center justify-center relative p-8">
          <div className="absolute top-4 left-4 z-10 bg-black/50 backdrop-blur px-3 py-1 rounded text-white text-xs font-mono">
-            REFERENCE
+            REFERENCE{challenge.referenceIsPlaceholder && ' • PLACEHOLDER, FOLLOW THE BRIEF'}{!session.ranked && ' • PRACTICE RUN'}
          </div>
          {challenge.referenceImageUrl ? (
             <img 
@@ -118,12 +162,24 @@ const ActiveChallengeView: React.FC<ActiveChallengeViewProps> = ({ challenge, us
                 <h2 className="text-2xl font-bold text-gray-900 dark:text-white leading-tight">{challenge.title}</h2>
                 <p className="text-gray-500 text-sm mt-1">{challenge.theme}</p>
             </div>
-            <button 
-                onClick={onCancel}
-                className="text-gray-400 hover:text-red-500 text-sm font-medium transition-colors"
-            >
-                Quit
-            </button>
+            <div className="flex gap-4">
+                {pauseRules.maxPauses > 0 && (
+                    <button 
+                        onClick={() => onSessionChange(s => pauseSession(s, Date.now()))}
+                        disabled={!canPause(session)}
+                        title={`${pausesLeft} ${pausesLeft === 1 ? 'pause' : 'pauses'} left, up to ${Math.floor(pauseRules.maxPauseSeconds / 60)} min each`}
+                        className="text-gray-400 hover:text-primary text-sm font-medium transition-colors disabled:opacity-30 disabled:hover:text-gray-400"
+                    >
+                        Pause ({pausesLeft})
+                    </button>
+                )}
+                <button 
+                    onClick={() => setConfirmingQuit(true)}
+                    className="text-gray-400 hover:text-red-500 text-sm font-medium transition-colors"
+                >
+                    Quit
+                </button>
+            </div>
         </div>
 
         {/* Timer Section */}
@@ -155,6 +211,9 @@ const ActiveChallengeView: React.FC<ActiveChallengeViewProps> = ({ challenge, us
 
         {/* Hints Section */}
         <div className="flex-1 overflow-y-auto mb-8 space-y-4">
+             {!session.ranked && (
+                 <p className="text-xs text-gray-500 text-center">Practice run: you can pause, but no XP is awarded and it won't count on the leaderboard.</p>
+             )}
              {hints.map((hint, idx) => (
                  <div key={idx} className="bg-blue-500/10 border-l-2 border-blue-500 p-3 rounded-r text-sm text-gray-700 dark:text-gray-300 animate-fade-in">
                      <span className="font-bold text-blue-500 block text-xs mb-1">HINT #{idx+1}</span>
@@ -167,10 +226,10 @@ const ActiveChallengeView: React.FC<ActiveChallengeViewProps> = ({ challenge, us
         <div className="mt-auto space-y-3">
              <button 
                 onClick={handleRequestHint}
-                disabled={loadingHint}
+                disabled={loadingHint || paused}
                 className="w-full py-3 rounded-xl border border-dashed border-gray-400 text-gray-500 hover:border-primary hover:text-primary hover:bg-primary/5 transition-all flex justify-center items-center gap-2"
              >
-                {loadingHint ? 'Consulting AI...' : 'Request Hint (+2:00 Penalty)'}
+                {loadingHint ? 'Consulting AI...' : `Request Hint (+${formatTime(CHALLENGE_SCORING.hintPenaltySeconds)}, -${CHALLENGE_SCORING.hintPenaltyXp} XP)`}
              </button>
 
              <label className={`w-full bg-primary hover:bg-primaryDark text-white font-bold py-4 rounded-xl shadow-lg shadow-primary/20 transition-all flex justify-center items-center gap-2 cursor-pointer ${uploading ? 'opacity-50 pointer-events-none' : ''}`}>
@@ -186,32 +245,97 @@ const ActiveChallengeView: React.FC<ActiveChallengeViewProps> = ({ challenge, us
       </div>
       
       {/* Result Modal Overlay */}
-      {submissionResult && (
+      {result && (
           <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-4">
               <div className="bg-white dark:bg-dark-surface p-8 rounded-3xl max-w-md w-full text-center border border-gray-200 dark:border-white/10">
-                  {submissionResult.passed ? (
+                  {result.evaluation.passed ? (
                       <>
-                        <div className="w-20 h-20 bg-green-500 rounded-full flex items-center justify-center mx-auto mb-6 text-white text-4xl shadow-lg shadow-green-500/40">✓</div>
-                        <h3 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Challenge Complete!</h3>
-                        <p className="text-gray-500 mb-6">Match Score: <span className="text-green-500 font-bold">{submissionResult.score}%</span></p>
-                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-8">{submissionResult.feedback}</p>
-                        <button onClick={() => onFinish(submissionResult.score * 10)} className="w-full bg-primary text-white font-bold py-3 rounded-xl">Claim Reward</button>
+                        <div className={`w-20 h-20 ${earnsXp ? 'bg-green-500 shadow-green-500/40' : 'bg-gray-400 shadow-gray-400/40'} rounded-full flex items-center justify-center mx-auto mb-6 text-white text-4xl shadow-lg`}>✓</div>
+                        <h3 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">{result.breakdown.claimable ? 'Challenge Complete!' : 'Out of Time'}</h3>
+                        <p className="text-gray-500 mb-4">Match Score: <span className="text-green-500 font-bold">{result.evaluation.score}%</span> • Tier: <span className={`font-bold ${getTierColor(result.breakdown.tier)}`}>{result.breakdown.tier}</span></p>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">{result.evaluation.feedback}</p>
+                        <EvaluationScores evaluation={result.evaluation} />
+
+                        {/* Reward Breakdown */}
+                        <div className="text-left text-sm bg-gray-50 dark:bg-white/5 rounded-xl p-4 mb-6 space-y-1 font-mono">
+                            <div className="flex justify-between text-gray-600 dark:text-gray-300"><span>Match ({result.breakdown.matchScore}% × {CHALLENGE_SCORING.xpPerScorePoint})</span><span>{result.breakdown.baseXp}</span></div>
+                            <div className="flex justify-between text-gray-600 dark:text-gray-300"><span>{result.breakdown.tier} multiplier × {result.breakdown.tierMultiplier}</span><span>{result.breakdown.tierXp}</span></div>
+                            <div className="flex justify-between text-green-600 dark:text-green-400"><span>Time left bonus</span><span>+{result.breakdown.timeBonus}</span></div>
+                            {result.breakdown.hintPenalty > 0 && (
+                                <div className="flex justify-between text-red-500"><span>Hints ({submission!.hintsUsed} × {CHALLENGE_SCORING.hintPenaltyXp})</span><span>-{result.breakdown.hintPenalty}</span></div>
+                            )}
+                            <div className="flex justify-between font-bold text-gray-900 dark:text-white border-t border-gray-200 dark:border-white/10 pt-1 mt-1"><span>Total</span><span>{result.breakdown.total} XP</span></div>
+                        </div>
+
+                        {earnsXp ? (
+                            <button onClick={() => onFinish(buildReport('completed'))} className="w-full bg-primary text-white font-bold py-3 rounded-xl">Claim {result.breakdown.total} XP</button>
+                        ) : (
+                            <>
+                                <p className="text-xs text-red-500 mb-4">
+                                    {result.breakdown.claimable ? 'Practice runs earn no XP.' : 'The bronze cutoff had passed when you submitted, so this run earns no XP.'}
+                                </p>
+                                <button onClick={() => onFinish(buildReport('completed'))} className="w-full border border-gray-300 dark:border-white/20 text-gray-700 dark:text-white font-bold py-3 rounded-xl hover:bg-gray-100 dark:hover:bg-white/5">Finish Without Reward</button>
+                            </>
+                        )}
                       </>
                   ) : (
                       <>
                         <div className="w-20 h-20 bg-red-500 rounded-full flex items-center justify-center mx-auto mb-6 text-white text-4xl shadow-lg shadow-red-500/40">✕</div>
                         <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Not Quite There</h3>
-                        <p className="text-gray-500 mb-6">Match Score: <span className="text-red-500 font-bold">{submissionResult.score}%</span></p>
-                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-8">{submissionResult.feedback}</p>
+                        <p className="text-gray-500 mb-6">Match Score: <span className="text-red-500 font-bold">{result.evaluation.score}%</span></p>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-8">{result.evaluation.feedback}</p>
+                        <EvaluationScores evaluation={result.evaluation} />
                         <div className="flex gap-4">
-                            <button onClick={() => setSubmissionResult(null)} className="flex-1 border border-gray-300 dark:border-white/20 text-gray-700 dark:text-white font-bold py-3 rounded-xl hover:bg-gray-100 dark:hover:bg-white/5">Try Again</button>
-                            <button onClick={onCancel} className="flex-1 text-red-500 font-bold py-3">Give Up</button>
+                            <button onClick={() => setShowResult(false)} className="flex-1 border border-gray-300 dark:border-white/20 text-gray-700 dark:text-white font-bold py-3 rounded-xl hover:bg-gray-100 dark:hover:bg-white/5">Try Again</button>
+                            <button onClick={() => onCancel(buildReport('failed'))} className="flex-1 text-red-500 font-bold py-3">Give Up</button>
                         </div>
                       </>
                   )}
               </div>
           </div>
       )}
+
+      {/* Pause Overlay (covers the reference so a pause can't be used to keep working) */}
+      {paused && (
+          <div className="absolute inset-0 z-40 bg-black/90 backdrop-blur-xl flex items-center justify-center p-4">
+              <div className="text-center">
+                  <div className="text-sm text-gray-400 uppercase tracking-widest mb-2">Paused</div>
+                  <div className="text-6xl font-mono font-bold text-white mb-2">{formatTime(totalSeconds)}</div>
+                  <p className="text-gray-400 text-sm mb-8">The clock restarts on its own in {formatTime(pauseLeft)}.</p>
+                  <button onClick={() => onSessionChange(s => resumeSession(s, Date.now()))} className="bg-primary hover:bg-primaryDark text-white font-bold px-10 py-3 rounded-xl">Resume</button>
+              </div>
+          </div>
+      )}
+
+      {/* Evaluation failed: queue the upload rather than guessing a verdict */}
+      {unavailable && (
+          <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-4">
+              <div className="bg-white dark:bg-dark-surface p-8 rounded-3xl max-w-sm w-full text-center border border-gray-200 dark:border-white/10">
+                  <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">Review Service Unavailable</h3>
+                  <p className="text-sm text-gray-500 mb-6">
+                      Your upload couldn't be graded right now. Queue it and it will be reviewed automatically with your time of {formatTime(unavailable.clock.elapsedSeconds + unavailable.clock.penaltySeconds)}; XP is awarded only if it passes.
+                  </p>
+                  <div className="flex gap-4">
+                      <button onClick={() => onQueueReview(unavailable.file, unavailable.clock, unavailable.error)} className="flex-1 bg-primary text-white font-bold py-3 rounded-xl">Queue & Exit</button>
+                      <button onClick={() => setUnavailable(null)} className="flex-1 text-gray-500 font-bold py-3">Keep Working</button>
+                  </div>
+              </div>
+          </div>
+      )}
+
+      {/* Quit Confirmation */}
+      {confirmingQuit && (
+          <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-4">
+              <div className="bg-white dark:bg-dark-surface p-8 rounded-3xl max-w-sm w-full text-center border border-gray-200 dark:border-white/10">
+                  <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">Quit this challenge?</h3>
+                  <p className="text-sm text-gray-500 mb-6">The attempt is recorded as {submission ? 'failed' : 'abandoned'} and the clock can't be resumed.</p>
+                  <div className="flex gap-4">
+                      <button onClick={() => setConfirmingQuit(false)} className="flex-1 bg-primary text-white font-bold py-3 rounded-xl">Keep Going</button>
+                      <button onClick={() => onCancel(buildReport(submission ? 'failed' : 'abandoned'))} className="flex-1 text-red-500 font-bold py-3">Quit</button>
+                  </div>
+              </div>
+          </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { ChallengeEventRecord, ChallengeEvaluation, ChallengeMilestone } from '../types';
+import { evaluateAgainstReference } from '../services/similarityService';
+import { completedMilestoneCount, computeEventBonus } from '../services/eventChallengeService';
+import { formatTimeLeft } from './EventChallengeCard';
+import EvaluationScores from './EvaluationScores';
+
+interface ActiveEventViewProps {
+  event: ChallengeEventRecord;
+  onMilestoneComplete: (milestoneId: string, evaluation: ChallengeEvaluation) => void;
+  onExit: () => void;
+  // Milestones whose upload is waiting in the review queue
+  pendingMilestoneIds: string[];
+  onQueueReview: (milestoneId: string, file: File, error: unknown) => void;
+}
+
+/**
+ * Work view for multi-session events. There is no timer: each milestone is submitted on its own
+ * and progress is stored as soon as a milestone passes, so the user can leave at any point.
+ */
+const ActiveEventView: React.FC<ActiveEventViewProps> = ({ event, onMilestoneComplete, onExit, pendingMilestoneIds, onQueueReview }) => {
+  const { challenge } = event;
+  const milestones = challenge.milestones || [];
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+  const [result, setResult] = useState<{ milestone: ChallengeMilestone; evaluation: ChallengeEvaluation } | null>(null);
+  const [unavailable, setUnavailable] = useState<{ milestone: ChallengeMilestone; file: File; error: unknown } | null>(null);
+
+  const done = completedMilestoneCount(event);
+  const nextMilestone = milestones.find(m => !event.milestoneResults[m.id]);
+
+  const handleFileUpload = async (milestone: ChallengeMilestone, e: React.ChangeEvent<HTMLInputElement>) => {
+      if (!e.target.files || !e.target.files[0]) return;
+      const file = e.target.files[0];
+      e.target.value = '';
+
+      setUploadingId(milestone.id);
+      try {
+          const evaluation = await evaluateAgainstReference(challenge, file, milestone);
+          setResult({ milestone, evaluation });
+      } catch (error) {
+          setUnavailable({ milestone, file, error });
+      } finally {
+          setUploadingId(null);
+      }
+  };
+
+  const handleClaim = () => {
+      if (!result) return;
+      onMilestoneComplete(result.milestone.id, result.evaluation);
+      setResult(null);
+  };
+
+  const handleQueue = () => {
+      if (!unavailable) return;
+      onQueueReview(unavailable.milestone.id, unavailable.file, unavailable.error);
+      setUnavailable(null);
+  };
+
+  const bonus = event.status === 'completed' ? computeEventBonus(challenge, event.milestoneResults) : null;
+
+  return (
+    <div className="fixed inset-0 bg-background dark:bg-dark-background z-[100] flex flex-col md:flex-row">
+
+      {/* Left: Reference Image */}
+      <div className="w-full md:w-2/3 bg-black flex items-center justify-center relative p-8">
+         <div className="absolute top-4 left-4 z-10 bg-black/50 backdrop-blur px-3 py-1 rounded text-white text-xs font-mono uppercase">
+            {challenge.kind} Reference{challenge.referenceIsPlaceholder && ' • Placeholder, follow the brief'}
+         </div>
+         {challenge.referenceImageUrl ? (
+            <img
+                src={challenge.referenceImageUrl}
+                alt="Reference"
+                className="max-w-full max-h-full object-contain shadow-2xl"
+            />
+         ) : (
+            <div className="text-gray-500">No Image Available</div>
+         )}
+      </div>
+
+      {/* Right: Milestones */}
+      <div className="w-full md:w-1/3 bg-surface dark:bg-dark-surface border-l border-white/10 flex flex-col p-8 overflow-y-auto">
+
+        {/* Header */}
+        <div className="flex justify-between items-start mb-8">
+            <div>
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white leading-tight">{challenge.title}</h2>
+                <p className="text-gray-500 text-sm mt-1">{challenge.theme}</p>
+            </div>
+            <button
+                onClick={onExit}
+                className="text-gray-400 hover:text-primary text-sm font-medium transition-colors whitespace-nowrap"
+            >
+                Save & Exit
+            </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 mb-8 text-center">
+            <div className="bg-white dark:bg-white/5 p-3 rounded-xl border border-gray-200 dark:border-white/10">
+                <div className="text-[10px] text-gray-500 uppercase mb-1">Milestones</div>
+                <div className="text-lg font-bold text-gray-900 dark:text-white">{done}/{milestones.length}</div>
+            </div>
+            <div className="bg-white dark:bg-white/5 p-3 rounded-xl border border-gray-200 dark:border-white/10">
+                <div className="text-[10px] text-gray-500 uppercase mb-1">Session</div>
+                <div className="text-lg font-bold text-gray-900 dark:text-white">#{event.sessions}</div>
+            </div>
+            <div className="bg-white dark:bg-white/5 p-3 rounded-xl border border-gray-200 dark:border-white/10">
+                <div className="text-[10px] text-gray-500 uppercase mb-1">Ends In</div>
+                <div className="text-lg font-bold text-gray-900 dark:text-white">{challenge.endsAt ? formatTimeLeft(challenge.endsAt - Date.now()) : '-'}</div>
+            </div>
+        </div>
+
+        {/* Milestone List */}
+        <ol className="space-y-3 flex-1">
+            {milestones.map((m, idx) => {
+                const completed = event.milestoneResults[m.id];
+                const isNext = nextMilestone?.id === m.id;
+                return (
+                    <li key={m.id} className={`p-4 rounded-xl border transition-colors ${completed ? 'border-green-500/30 bg-green-500/5' : isNext ? 'border-primary/50 bg-primary/5' : 'border-gray-200 dark:border-white/10'}`}>
+                        <div className="flex justify-between items-start gap-2">
+                            <div className="font-bold text-gray-900 dark:text-white text-sm">{idx + 1}. {m.title}</div>
+                            <span className="text-xs font-mono text-primary whitespace-nowrap">+{m.xpReward} XP</span>
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{m.description}</p>
+                        {completed ? (
+                            <div className="mt-2 text-xs text-green-600 dark:text-green-400 font-semibold">✓ Passed with {completed.score}%</div>
+                        ) : pendingMilestoneIds.includes(m.id) ? (
+                            <div className="mt-2 text-xs text-yellow-600 dark:text-yellow-400 font-semibold">⏳ Awaiting review</div>
+                        ) : isNext && (
+                            <label className={`mt-3 w-full bg-primary hover:bg-primaryDark text-white text-sm font-bold py-2 rounded-lg transition-all flex justify-center items-center cursor-pointer ${uploadingId ? 'opacity-50 pointer-events-none' : ''}`}>
+                                {uploadingId === m.id ? 'Verifying...' : 'Upload Milestone'}
+                                <input type="file" className="hidden" accept="image/*" onChange={(e) => handleFileUpload(m, e)} disabled={!!uploadingId} />
+                            </label>
+                        )}
+                    </li>
+                );
+            })}
+        </ol>
+      </div>
+
+      {/* Milestone Result Overlay */}
+      {result && (
+          <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-4">
+              <div className="bg-white dark:bg-dark-surface p-8 rounded-3xl max-w-md w-full text-center border border-gray-200 dark:border-white/10">
+                  {result.evaluation.passed ? (
+                      <>
+                        <div className="w-20 h-20 bg-green-500 rounded-full flex items-center justify-center mx-auto mb-6 text-white text-4xl shadow-lg shadow-green-500/40">✓</div>
+                        <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Milestone Passed</h3>
+                        <p className="text-gray-500 mb-6">Match Score: <span className="text-green-500 font-bold">{result.evaluation.score}%</span></p>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-8">{result.evaluation.feedback}</p>
+                        <EvaluationScores evaluation={result.evaluation} />
+                        <button onClick={handleClaim} className="w-full bg-primary text-white font-bold py-3 rounded-xl">Claim +{result.milestone.xpReward} XP</button>
+                      </>
+                  ) : (
+                      <>
+                        <div className="w-20 h-20 bg-red-500 rounded-full flex items-center justify-center mx-auto mb-6 text-white text-4xl shadow-lg shadow-red-500/40">✕</div>
+                        <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Not Quite There</h3>
+                        <p className="text-gray-500 mb-6">Match Score: <span className="text-red-500 font-bold">{result.evaluation.score}%</span></p>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-8">{result.evaluation.feedback}</p>
+                        <EvaluationScores evaluation={result.evaluation} />
+                        <div className="flex gap-4">
+                            <button onClick={() => setResult(null)} className="flex-1 border border-gray-300 dark:border-white/20 text-gray-700 dark:text-white font-bold py-3 rounded-xl hover:bg-gray-100 dark:hover:bg-white/5">Keep Working</button>
+                            <button onClick={onExit} className="flex-1 text-gray-500 font-bold py-3">Save & Exit</button>
+                        </div>
+                      </>
+                  )}
+              </div>
+          </div>
+      )}
+
+      {/* Evaluation failed: queue the milestone rather than guessing a verdict */}
+      {unavailable && (
+          <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-4">
+              <div className="bg-white dark:bg-dark-surface p-8 rounded-3xl max-w-sm w-full text-center border border-gray-200 dark:border-white/10">
+                  <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">Review Service Unavailable</h3>
+                  <p className="text-sm text-gray-500 mb-6">
+                      "{unavailable.milestone.title}" couldn't be graded right now. Queue it and it will be reviewed automatically; XP is awarded only if it passes.
+                  </p>
+                  <div className="flex gap-4">
+                      <button onClick={handleQueue} className="flex-1 bg-primary text-white font-bold py-3 rounded-xl">Queue for Review</button>
+                      <button onClick={() => setUnavailable(null)} className="flex-1 text-gray-500 font-bold py-3">Try Again Later</button>
+                  </div>
+              </div>
+          </div>
+      )}
+
+      {/* Event Complete Overlay */}
+      {bonus && !result && (
+          <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-40 bg-white dark:bg-dark-surface px-6 py-4 rounded-2xl shadow-2xl border border-green-500/30 text-center">
+              <div className="font-bold text-gray-900 dark:text-white">Event Complete!</div>
+              <div className="text-sm text-gray-500">
+                  Average score {bonus.averageScore}% • +{bonus.completionBonus + bonus.scoreBonus} XP bonus
+              </div>
+          </div>
+      )}
+    </div>
+  );
+};
+
+export default ActiveEventView;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { ActivityLog } from '../types';
+import { countActivityByDay, toDayKey, addDays, fromDayKey } from '../services/activityService';
+
+interface ActivityHeatmapProps {
+  activity: ActivityLog;
+  weeks?: number;
+}
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const getCellColor = (count: number) => {
+  if (count === 0) return 'bg-gray-100 dark:bg-white/5';
+  if (count === 1) return 'bg-primary/30';
+  if (count <= 3) return 'bg-primary/60';
+  return 'bg-primary';
+};
+
+const ActivityHeatmap: React.FC<ActivityHeatmapProps> = ({ activity, weeks = 26 }) => {
+  const counts = countActivityByDay(activity);
+  const frozen = new Set(activity.frozenDays);
+  const today = toDayKey(new Date());
+
+  // Columns are weeks (Sunday first), ending with the current week
+  const lastSunday = addDays(today, -fromDayKey(today).getDay());
+  const firstDay = addDays(lastSunday, -(weeks - 1) * 7);
+  const columns = Array.from({ length: weeks }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => addDays(firstDay, w * 7 + d))
+  );
+
+  return (
+    <div className="overflow-x-auto">
+        {/* Month labels */}
+        <div className="flex gap-1 mb-1 text-[10px] text-gray-400">
+            {columns.map((days, w) => {
+                const month = fromDayKey(days[0]).getMonth();
+                const showLabel = w === 0 || fromDayKey(columns[w - 1][0]).getMonth() !== month;
+                return <div key={days[0]} className="w-3 flex-shrink-0 overflow-visible whitespace-nowrap">{showLabel ? MONTH_LABELS[month] : ''}</div>;
+            })}
+        </div>
+
+        <div className="flex gap-1">
+            {columns.map(days => (
+                <div key={days[0]} className="flex flex-col gap-1">
+                    {days.map(day => {
+                        if (day > today) return <div key={day} className="w-3 h-3" />;
+                        const count = counts.get(day) || 0;
+                        const isFrozen = frozen.has(day);
+                        return (
+                            <div
+                                key={day}
+                                title={isFrozen ? `${day}: streak freeze used` : `${day}: ${count} activit${count === 1 ? 'y' : 'ies'}`}
+                                className={`w-3 h-3 rounded-sm ${isFrozen ? 'bg-blue-300 dark:bg-blue-500/60 ring-1 ring-blue-400' : getCellColor(count)} ${day === today ? 'ring-1 ring-gray-400' : ''}`}
+                            />
+                        );
+                    })}
+                </div>
+            ))}
+        </div>
+
+        {/* Legend */}
+        <div className="flex items-center gap-1 mt-2 text-[10px] text-gray-400">
+            <span className="mr-1">Less</span>
+            {[0, 1, 2, 4].map(c => <div key={c} className={`w-3 h-3 rounded-sm ${getCellColor(c)}`} />)}
+            <span className="ml-1 mr-3">More</span>
+            <div className="w-3 h-3 rounded-sm bg-blue-300 dark:bg-blue-500/60 ring-1 ring-blue-400" />
+            <span className="ml-1">Freeze</span>
+        </div>
+    </div>
+  );
+};
+
+export default ActivityHeatmap;
@@ -0,0 +1,174 @@
+import React from 'react';
+import { UserProfile, ChallengeAttempt, ChallengeTier, AttemptOutcome } from '../types';
+import { TIERS, attemptSeconds, personalBestsByTheme, tierDistribution, buildLeaderboard } from '../services/attemptService';
+
+interface ChallengeHistoryProps {
+  user: UserProfile;
+  attempts: ChallengeAttempt[]; // All local profiles; filtered here for the personal sections
+  onBack: () => void;
+}
+
+const TIER_STYLES: Record<ChallengeTier, string> = {
+  GOLD: 'bg-yellow-400',
+  SILVER: 'bg-gray-300',
+  BRONZE: 'bg-orange-500',
+  FAIL: 'bg-red-500',
+};
+
+const OUTCOME_LABELS: Record<AttemptOutcome, { label: string; className: string }> = {
+  completed: { label: 'Completed', className: 'bg-green-500/10 text-green-600 dark:text-green-400' },
+  failed: { label: 'Failed', className: 'bg-red-500/10 text-red-500' },
+  abandoned: { label: 'Quit', className: 'bg-gray-500/10 text-gray-500' },
+};
+
+const formatDuration = (totalSecs: number) => {
+  const m = Math.floor(totalSecs / 60);
+  const s = totalSecs % 60;
+  return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+};
+
+const ChallengeHistory: React.FC<ChallengeHistoryProps> = ({ user, attempts, onBack }) => {
+  const mine = attempts.filter(a => a.profileId === user.id).sort((a, b) => b.finishedAt - a.finishedAt);
+  const bests = personalBestsByTheme(mine);
+  const tiers = tierDistribution(mine);
+  const tierTotal = TIERS.reduce((sum, t) => sum + tiers[t], 0);
+  const leaderboard = buildLeaderboard(attempts);
+
+  return (
+    <div className="p-4 md:p-8 max-w-7xl mx-auto space-y-10">
+      <div className="flex items-center gap-3 border-b border-gray-200 dark:border-white/10 pb-6">
+        <button onClick={onBack} className="p-2 hover:bg-gray-200 dark:hover:bg-white/5 rounded-lg text-gray-500 dark:text-gray-400">
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M19 12H5M12 19l-7-7 7-7"/></svg>
+        </button>
+        <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Challenge History</h1>
+            <p className="text-gray-500 dark:text-gray-400">{mine.length} {mine.length === 1 ? 'attempt' : 'attempts'} recorded</p>
+        </div>
+      </div>
+
+      <section className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Personal Bests */}
+          <div className="lg:col-span-2 bg-white dark:bg-dark-surface rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-white/5">
+            <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wider mb-3">Personal Bests by Theme</h3>
+            {bests.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No attempts yet. Finish a challenge to set your first record.</p>
+            ) : (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-xs text-gray-400 uppercase">
+                            <th className="py-2 font-medium">Theme</th>
+                            <th className="py-2 font-medium text-right">Best Score</th>
+                            <th className="py-2 font-medium text-right">Fastest</th>
+                            <th className="py-2 font-medium text-right">Attempts</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 dark:divide-white/5">
+                        {bests.map(b => (
+                            <tr key={b.theme}>
+                                <td className="py-2 text-gray-900 dark:text-white font-medium">{b.theme}</td>
+                                <td className="py-2 text-right font-mono text-primary">{b.bestScore !== null ? `${b.bestScore}%` : '-'}</td>
+                                <td className="py-2 text-right font-mono text-gray-700 dark:text-gray-300">{b.fastestSeconds !== null ? formatDuration(b.fastestSeconds) : '-'}</td>
+                                <td className="py-2 text-right font-mono text-gray-500">{b.attempts}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+          </div>
+
+          {/* Tier Distribution */}
+          <div className="bg-white dark:bg-dark-surface rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-white/5">
+            <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wider mb-3">Tier Distribution</h3>
+            <div className="space-y-3">
+                {TIERS.map(tier => (
+                    <div key={tier} className="flex items-center gap-3 text-xs">
+                        <span className="w-14 font-bold text-gray-500">{tier}</span>
+                        <div className="flex-1 h-2 bg-gray-100 dark:bg-white/10 rounded-full overflow-hidden">
+                            <div className={`h-full ${TIER_STYLES[tier]}`} style={{ width: `${tierTotal ? (tiers[tier] / tierTotal) * 100 : 0}%` }}></div>
+                        </div>
+                        <span className="w-6 text-right font-mono text-gray-500">{tiers[tier]}</span>
+                    </div>
+                ))}
+            </div>
+          </div>
+      </section>
+
+      {/* Local Leaderboard */}
+      <section className="bg-white dark:bg-dark-surface rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-white/5">
+        <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wider mb-1">Leaderboard</h3>
+        <p className="text-xs text-gray-400 mb-3">Every profile that has played on this device, ranked by medals. Add or switch profiles from the sidebar.</p>
+        {leaderboard.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Nobody has finished a challenge yet.</p>
+        ) : (
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-left text-xs text-gray-400 uppercase">
+                        <th className="py-2 font-medium w-10">#</th>
+                        <th className="py-2 font-medium">Profile</th>
+                        <th className="py-2 font-medium text-right">Gold</th>
+                        <th className="py-2 font-medium text-right">Silver</th>
+                        <th className="py-2 font-medium text-right">Bronze</th>
+                        <th className="py-2 font-medium text-right">Best Score</th>
+                        <th className="py-2 font-medium text-right">Fastest</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-white/5">
+                    {leaderboard.map((row, idx) => (
+                        <tr key={row.profileId} className={row.profileId === user.id ? 'bg-primary/5' : ''}>
+                            <td className="py-2 font-mono text-gray-400">{idx + 1}</td>
+                            <td className="py-2 text-gray-900 dark:text-white font-medium">{row.profileName}{row.profileId === user.id && <span className="text-xs text-primary ml-2">(you)</span>}</td>
+                            <td className="py-2 text-right font-mono text-yellow-500">{row.medals.GOLD}</td>
+                            <td className="py-2 text-right font-mono text-gray-400">{row.medals.SILVER}</td>
+                            <td className="py-2 text-right font-mono text-orange-500">{row.medals.BRONZE}</td>
+                            <td className="py-2 text-right font-mono text-primary">{row.bestScore !== null ? `${row.bestScore}%` : '-'}</td>
+                            <td className="py-2 text-right font-mono text-gray-700 dark:text-gray-300">{row.fastestSeconds !== null ? formatDuration(row.fastestSeconds) : '-'}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        )}
+      </section>
+
+      {/* Attempt Log */}
+      <section className="space-y-3">
+        <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wider">All Attempts</h3>
+        {mine.map(attempt => (
+            <div key={attempt.id} className="bg-white dark:bg-dark-surface rounded-xl p-4 shadow-sm border border-gray-100 dark:border-white/5 flex items-center gap-4">
+                <div className="w-16 h-16 flex-shrink-0 rounded-lg overflow-hidden bg-gray-100 dark:bg-white/5 flex items-center justify-center">
+                    {attempt.thumbnailDataUrl ? (
+                        <img src={attempt.thumbnailDataUrl} alt="Submission" className="w-full h-full object-cover" />
+                    ) : (
+                        <span className="text-[10px] text-gray-400">No upload</span>
+                    )}
+                </div>
+                <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                        <span className="font-bold text-gray-900 dark:text-white truncate">{attempt.challenge.title}</span>
+                        <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded ${OUTCOME_LABELS[attempt.outcome].className}`}>{OUTCOME_LABELS[attempt.outcome].label}</span>
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                        {attempt.challenge.theme} • {new Date(attempt.finishedAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                        {attempt.hintsUsed > 0 && ` • ${attempt.hintsUsed} ${attempt.hintsUsed === 1 ? 'hint' : 'hints'}`}
+                    </div>
+                    {attempt.feedback && <p className="text-xs text-gray-400 mt-1 line-clamp-1" title={attempt.feedback}>{attempt.feedback}</p>}
+                </div>
+                <div className="text-right space-y-1">
+                    <div className="flex items-center justify-end gap-2">
+                        <span className={`w-2 h-2 rounded-full ${TIER_STYLES[attempt.tier]}`}></span>
+                        <span className="text-xs font-bold text-gray-500">{attempt.tier}</span>
+                    </div>
+                    <div className="font-mono text-sm text-gray-900 dark:text-white" title={attempt.penaltySeconds ? `Includes ${formatDuration(attempt.penaltySeconds)} penalty` : undefined}>
+                        {formatDuration(attemptSeconds(attempt))}
+                    </div>
+                    <div className="text-xs font-mono text-gray-500">
+                        {attempt.score !== undefined ? `${attempt.score}%` : '-'}{attempt.xpEarned > 0 && <span className="text-green-600 dark:text-green-400 ml-2">+{attempt.xpEarned} XP</span>}
+                    </div>
+                </div>
+            </div>
+        ))}
+      </section>
+    </div>
+  );
+};
+
+export default ChallengeHistory;
@@ -1,13 +1,20 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Challenge } from '../types';
+import { CHALLENGE_PAUSE_RULES } from '../constants';
 
 interface ChallengeModalProps {
   challenge: Challenge;
   onClose: () => void;
-  onStart: () => void;
+  onStart: (practice: boolean) => void; // Practice runs can pause but earn no XP
 }
 
 const ChallengeModal: React.FC<ChallengeModalProps> = ({ challenge, onClose, onStart }) => {
+  const isEvent = !!challenge.milestones;
+  const [practice, setPractice] = useState(false);
+  const endsAt = challenge.endsAt
+    ? new Date(challenge.endsAt).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : null;
+
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
       <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose}></div>
@@ -36,12 +43,40 @@ const ChallengeModal: React.FC<ChallengeModalProps> = ({ challenge, onClose, onS
             </button>
 
             <div className="mb-6">
-                <div className="inline-block px-3 py-1 rounded-full bg-accent/20 text-accent dark:text-yellow-400 text-xs font-bold mb-2 border border-accent/20">DAILY CHALLENGE</div>
+                <div className="flex items-center gap-2 mb-2">
+                    <div className="inline-block px-3 py-1 rounded-full bg-accent/20 text-accent dark:text-yellow-400 text-xs font-bold border border-accent/20 uppercase">{challenge.kind} Challenge</div>
+                    {endsAt && <span className="text-xs text-gray-400">Ends {endsAt}</span>}
+                </div>
                 <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2 leading-tight">{challenge.title}</h2>
                 <p className="text-gray-500 dark:text-gray-400 italic mb-4 font-medium">Theme: {challenge.theme}</p>
                 <p className="text-gray-600 dark:text-gray-300 leading-relaxed">{challenge.description}</p>
             </div>
 
+            {isEvent ? (
+            <div className="space-y-4 mb-8">
+                <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wide">Milestones</h3>
+                <ol className="space-y-2">
+                    {challenge.milestones!.map((m, i) => (
+                        <li key={m.id} className="flex items-start gap-3 text-sm">
+                            <span className="w-6 h-6 flex-shrink-0 rounded-full bg-gray-100 dark:bg-white/10 text-gray-500 flex items-center justify-center text-xs font-bold">{i + 1}</span>
+                            <div className="flex-1">
+                                <div className="font-semibold text-gray-900 dark:text-white">{m.title}</div>
+                                <div className="text-gray-500 dark:text-gray-400 text-xs">{m.description}</div>
+                            </div>
+                            <span className="text-xs font-mono text-primary whitespace-nowrap">+{m.xpReward} XP</span>
+                        </li>
+                    ))}
+                </ol>
+                {challenge.rewards && (
+                    <div className="p-3 bg-gray-50 dark:bg-white/5 rounded-lg text-xs text-gray-500 dark:text-gray-400 space-y-1">
+                        <div><span className="font-bold text-gray-700 dark:text-gray-200">+{challenge.rewards.completionBonus} XP</span> for finishing every milestone</div>
+                        {challenge.rewards.scoreBonuses.map(b => (
+                            <div key={b.minScore}><span className="font-bold text-gray-700 dark:text-gray-200">+{b.xp} XP</span> for an average score of {b.minScore}%+</div>
+                        ))}
+                    </div>
+                )}
+            </div>
+            ) : (
             <div className="space-y-4 mb-8">
                 <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wide">Target Times</h3>
                 <div className="grid grid-cols-3 gap-2 text-center">
@@ -59,11 +94,20 @@ const ChallengeModal: React.FC<ChallengeModalProps> = ({ challenge, onClose, onS
                     </div>
                 </div>
             </div>
+            )}
 
             <div className="mt-auto">
-                <p className="text-sm text-gray-500 dark:text-gray-400 text-center mb-4">Launch your tool and start the timer when ready.</p>
+                <p className="text-sm text-gray-500 dark:text-gray-400 text-center mb-4">
+                    {isEvent ? 'No timer here. Submit each milestone whenever it is ready, progress is saved between sessions.' : 'Launch your tool and start the timer when ready.'}
+                </p>
+                {!isEvent && (
+                    <label className="flex items-center justify-center gap-2 text-sm text-gray-500 dark:text-gray-400 mb-4 cursor-pointer">
+                        <input type="checkbox" checked={practice} onChange={e => setPractice(e.target.checked)} className="accent-primary" />
+                        Practice run (up to {CHALLENGE_PAUSE_RULES.practice.maxPauses} pauses, no XP)
+                    </label>
+                )}
                 <button 
-                    onClick={onStart}
+                    onClick={() => onStart(practice)}
                     className="w-full bg-gray-900 dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 font-bold py-3 rounded-xl transition-all shadow-lg shadow-gray-200 dark:shadow-none"
                 >
                     I'm Ready!
@@ -0,0 +1,83 @@
+import React, { useState, useEffect } from 'react';
+import { DailyChallengeRecord } from '../types';
+import { isCurrentDaily, canReroll, remainingRerolls } from '../services/dailyChallengeService';
+import { toDayKey, addDays, fromDayKey } from '../services/activityService';
+
+interface DailyChallengeCardProps {
+  record: DailyChallengeRecord | null;
+  loading: boolean;
+  onOpen: () => void;
+  onReroll: () => void;
+}
+
+const formatCountdown = (ms: number) => {
+  const totalSecs = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(totalSecs / 3600);
+  const m = Math.floor((totalSecs % 3600) / 60);
+  const s = totalSecs % 60;
+  return `${h}h ${m.toString().padStart(2, '0')}m ${s.toString().padStart(2, '0')}s`;
+};
+
+const DailyChallengeCard: React.FC<DailyChallengeCardProps> = ({ record, loading, onOpen, onReroll }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // A record from a previous day is stale; today's challenge hasn't been generated yet
+  const today = isCurrentDaily(record, new Date(now)) ? record : null;
+  const expiresAt = today ? today.expiresAt : fromDayKey(addDays(toDayKey(new Date(now)), 1)).getTime();
+
+  const buttonLabel = loading
+    ? 'Generating...'
+    : !today ? 'Start Daily Challenge'
+    : today.status === 'completed' ? 'Replay (No Reward)'
+    : today.status === 'attempted' ? 'Try Again'
+    : 'Open Challenge';
+
+  return (
+    <div className="md:col-span-5 bg-white dark:bg-dark-surface rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-white/5 flex flex-col relative overflow-hidden group hover:shadow-md transition-all">
+        <div className="absolute top-0 right-0 p-8 opacity-5 dark:opacity-10 transition-transform group-hover:scale-110">
+            <svg width="120" height="120" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1"><circle cx="12" cy="12" r="10"></circle><polyline points="12 6 12 12 16 14"></polyline></svg>
+        </div>
+        <div className="relative z-10">
+            <div className="flex items-center gap-2 mb-2">
+                <div className="text-xs font-bold text-primary uppercase tracking-wider font-mono">Expires in {formatCountdown(expiresAt - now)}</div>
+                {today?.status === 'completed' && (
+                    <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-green-500/10 text-green-600 dark:text-green-400">Completed</span>
+                )}
+                {today?.status === 'attempted' && (
+                    <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-accent/20 text-yellow-600 dark:text-yellow-400">Attempted</span>
+                )}
+            </div>
+            <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">{today ? today.challenge.title : 'Daily Sprint'}</h3>
+            <p className="text-gray-500 dark:text-gray-400 mb-6 line-clamp-2">
+                {today ? today.challenge.description : 'Quick-fire modeling tasks to warm up your creativity.'}
+            </p>
+            <div className="flex items-center gap-3">
+                <button
+                    onClick={onOpen}
+                    disabled={loading}
+                    className="bg-primary hover:bg-primaryDark text-white px-6 py-2 rounded-full font-medium transition-colors flex items-center gap-2 w-fit"
+                >
+                    {buttonLabel}
+                </button>
+                {today && canReroll(today) && (
+                    <button
+                        onClick={onReroll}
+                        disabled={loading}
+                        title="Swap today's challenge for a new one. Only available before you start."
+                        className="text-sm text-gray-500 hover:text-primary transition-colors disabled:opacity-50"
+                    >
+                        Reroll ({remainingRerolls(today)} left)
+                    </button>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default DailyChallengeCard;
@@ -1,30 +1,43 @@
 import React, { useState } from 'react';
-import { UserProfile, LearningPath, Challenge } from '../types';
-import { generateDailyChallenge } from '../services/geminiService';
+import { UserProfile, LearningPath, ActivityLog, StreakSummary, XpEntry, DailyChallengeRecord, EventKind, PendingReview } from '../types';
+import { EVENT_FORMATS } from '../constants';
+import { totalXp, getLevelProgress } from '../services/xpService';
+import ActivityHeatmap from './ActivityHeatmap';
+import XpHistory from './XpHistory';
+import DailyChallengeCard from './DailyChallengeCard';
+import PendingReviewCard from './PendingReviewCard';
+import EventChallengeCard from './EventChallengeCard';
+import { ChallengeEvents } from '../services/storageService';
+import { isCurrentEvent, getEventPeriod, completedMilestoneCount } from '../services/eventChallengeService';
 
 interface DashboardProps {
   user: UserProfile;
   paths: LearningPath[];
+  xpLedger: XpEntry[];
+  activity: ActivityLog;
+  streak: StreakSummary;
+  dailyChallenge: DailyChallengeRecord | null;
+  loadingDailyChallenge: boolean;
   onNavigate: (view: string, pathId?: string) => void;
-  onStartChallenge: (challenge: Challenge) => void;
+  onOpenDailyChallenge: () => void;
+  onRerollDailyChallenge: () => void;
+  challengeEvents: ChallengeEvents;
+  loadingEventKind: EventKind | null;
+  onOpenEvent: (kind: EventKind) => void;
   onAddPath: () => void;
+  pendingReviews: PendingReview[];
+  onRetryReview: (id: string) => void;
+  onDiscardReview: (id: string) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ user, paths, onNavigate, onStartChallenge, onAddPath }) => {
-  const [loadingChallenge, setLoadingChallenge] = useState(false);
-  const [challengesExpanded, setChallengesExpanded] = useState(true);
+const SIDE_EVENTS: { kind: EventKind; icon: string; color: string }[] = [
+  { kind: 'monthly', icon: 'M', color: 'bg-purple-500' },
+  { kind: 'seasonal', icon: 'S', color: 'bg-green-500' },
+];
 
-  const handleGenerateChallenge = async () => {
-    setLoadingChallenge(true);
-    try {
-        const challenge = await generateDailyChallenge(user.domain, user.tool, user.skillLevel);
-        onStartChallenge(challenge);
-    } catch (e) {
-        alert("Failed to generate challenge. Try again.");
-    } finally {
-        setLoadingChallenge(false);
-    }
-  };
+const Dashboard: React.FC<DashboardProps> = ({ user, paths, xpLedger, activity, streak, dailyChallenge, loadingDailyChallenge, onNavigate, onOpenDailyChallenge, onRerollDailyChallenge, challengeEvents, loadingEventKind, onOpenEvent, onAddPath, pendingReviews, onRetryReview, onDiscardReview }) => {
+  const [challengesExpanded, setChallengesExpanded] = useState(true);
+  const progress = getLevelProgress(totalXp(xpLedger));
 
   return (
     <div className="p-4 md:p-8 max-w-7xl mx-auto space-y-12">
@@ -33,12 +46,18 @@ const Dashboard: React.FC<DashboardProps> = ({ user, paths, onNavigate, onStartC
         <div>
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Welcome back, {user.name}</h1>
           <p className="text-gray-500 dark:text-gray-400">
-             Level {Math.floor(user.xp / 1000) + 1} • <span className="text-primary font-semibold">{user.xp} XP</span>
+             Level {progress.level} • <span className="text-primary font-semibold">{progress.totalXp} XP</span>
           </p>
+          <div className="mt-2 flex items-center gap-2" title={`${progress.xpForNextLevel - progress.xpIntoLevel} XP to Level ${progress.level + 1}`}>
+              <div className="w-48 h-1.5 bg-gray-100 dark:bg-white/10 rounded-full overflow-hidden">
+                  <div className="h-full bg-primary transition-all duration-500" style={{ width: `${(progress.xpIntoLevel / progress.xpForNextLevel) * 100}%` }}></div>
+              </div>
+              <span className="text-[10px] text-gray-400 font-mono">{progress.xpIntoLevel}/{progress.xpForNextLevel}</span>
+          </div>
         </div>
         <div className="mt-4 md:mt-0 flex gap-4">
             <div className="text-center">
-                <div className="text-2xl font-bold text-gray-900 dark:text-white">{user.streak}</div>
+                <div className={`text-2xl font-bold ${streak.activeToday ? 'text-gray-900 dark:text-white' : 'text-gray-400'}`} title={streak.activeToday ? 'Streak extended today' : 'Complete a step, challenge or chat today to extend your streak'}>{streak.current}</div>
                 <div className="text-xs text-gray-500 uppercase tracking-wide">Day Streak</div>
             </div>
              <div className="text-center">
@@ -48,6 +67,45 @@ const Dashboard: React.FC<DashboardProps> = ({ user, paths, onNavigate, onStartC
         </div>
       </div>
 
+      {/* Submissions waiting for the review service */}
+      {pendingReviews.length > 0 && (
+          <section className="space-y-3">
+              <h2 className="text-sm font-bold text-gray-500 uppercase tracking-wider">Awaiting Review ({pendingReviews.length})</h2>
+              {pendingReviews.map(review => (
+                  <PendingReviewCard key={review.id} review={review} onRetry={onRetryReview} onDiscard={onDiscardReview} />
+              ))}
+          </section>
+      )}
+
+      {/* Activity Section */}
+      <section className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-white dark:bg-dark-surface rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-white/5 flex flex-col lg:flex-row gap-6">
+            <div className="lg:w-48 flex-shrink-0 grid grid-cols-3 lg:grid-cols-1 gap-4">
+                <div>
+                    <div className="text-xs text-gray-500 uppercase tracking-wide">Current Streak</div>
+                    <div className="text-xl font-bold text-gray-900 dark:text-white">{streak.current} {streak.current === 1 ? 'day' : 'days'}</div>
+                </div>
+                <div>
+                    <div className="text-xs text-gray-500 uppercase tracking-wide">Longest Streak</div>
+                    <div className="text-xl font-bold text-gray-900 dark:text-white">{streak.longest} {streak.longest === 1 ? 'day' : 'days'}</div>
+                </div>
+                <div title="Earned every 7-day streak. A freeze covers one missed day automatically.">
+                    <div className="text-xs text-gray-500 uppercase tracking-wide">Streak Freezes</div>
+                    <div className="text-xl font-bold text-blue-500">{streak.freezeTokens}</div>
+                </div>
+            </div>
+            <div className="flex-1 min-w-0">
+                <ActivityHeatmap activity={activity} />
+            </div>
+          </div>
+
+          {/* Recent XP */}
+          <div className="bg-white dark:bg-dark-surface rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-white/5">
+            <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wider mb-3">Recent XP</h3>
+            <XpHistory ledger={xpLedger} />
+          </div>
+      </section>
+
       {/* Challenges Section */}
       <section className="space-y-4">
         <div className="flex justify-between items-center cursor-pointer group" onClick={() => setChallengesExpanded(!challengesExpanded)}>
@@ -64,54 +122,54 @@ const Dashboard: React.FC<DashboardProps> = ({ user, paths, onNavigate, onStartC
             <div className="grid grid-cols-1 md:grid-cols-12 gap-6">
                 
                 {/* Daily Challenge - Big Card */}
-                <div className="md:col-span-5 bg-white dark:bg-dark-surface rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-white/5 flex flex-col relative overflow-hidden group hover:shadow-md transition-all">
-                    <div className="absolute top-0 right-0 p-8 opacity-5 dark:opacity-10 transition-transform group-hover:scale-110">
-                        <svg width="120" height="120" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1"><circle cx="12" cy="12" r="10"></circle><polyline points="12 6 12 12 16 14"></polyline></svg>
-                    </div>
-                    <div className="relative z-10">
-                        <div className="text-xs font-bold text-primary uppercase tracking-wider mb-2">Expires in 12h</div>
-                        <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Daily Sprint</h3>
-                        <p className="text-gray-500 dark:text-gray-400 mb-6">Quick-fire modeling tasks to warm up your creativity.</p>
-                        <button 
-                            onClick={handleGenerateChallenge}
-                            disabled={loadingChallenge}
-                            className="bg-primary hover:bg-primaryDark text-white px-6 py-2 rounded-full font-medium transition-colors flex items-center gap-2 w-fit"
-                        >
-                             {loadingChallenge ? 'Generating...' : 'Start Daily Challenge'}
-                        </button>
-                    </div>
-                </div>
+                <DailyChallengeCard
+                    record={dailyChallenge}
+                    loading={loadingDailyChallenge}
+                    onOpen={onOpenDailyChallenge}
+                    onReroll={onRerollDailyChallenge}
+                />
 
-                {/* Weekly Challenge - Big Card */}
-                <div className="md:col-span-5 bg-white dark:bg-dark-surface rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-white/5 flex flex-col relative overflow-hidden group hover:shadow-md transition-all">
-                    <div className="absolute top-0 right-0 p-8 opacity-5 dark:opacity-10 transition-transform group-hover:scale-110">
-                         <svg width="120" height="120" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1"><path d="M6 9H4.5a2.5 2.5 0 0 1 0-5H6"></path><path d="M18 9h1.5a2.5 2.5 0 0 0 0-5H18"></path><path d="M4 22h16"></path><path d="M10 14.66V17c0 .55-.47.98-.97 1.21C7.85 18.75 7 20.24 7 22"></path><path d="M14 14.66V17c0 .55.47.98.97 1.21C16.15 18.75 17 20.24 17 22"></path><path d="M18 2H6v7a6 6 0 0 0 12 0V2Z"></path></svg>
-                    </div>
-                    <div className="relative z-10">
-                        <div className="text-xs font-bold text-accent uppercase tracking-wider mb-2">Weekly Theme: Cyberpunk</div>
-                        <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Neon Nights</h3>
-                        <p className="text-gray-500 dark:text-gray-400 mb-6">Create a high-fidelity environment asset.</p>
-                        <button className="border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-white/5 px-6 py-2 rounded-full font-medium transition-colors w-fit">
-                            View Details
-                        </button>
-                    </div>
-                </div>
+                {/* Weekly Event - Big Card */}
+                <EventChallengeCard
+                    kind="weekly"
+                    record={challengeEvents.weekly}
+                    loading={loadingEventKind === 'weekly'}
+                    onOpen={() => onOpenEvent('weekly')}
+                />
 
                 {/* Side Challenges - Expandable Icons */}
                 <div className="md:col-span-2 flex flex-row md:flex-col gap-4">
-                    {[
-                        { label: 'Monthly', icon: 'M', color: 'bg-purple-500', desc: 'Marathon' },
-                        { label: 'Seasonal', icon: 'S', color: 'bg-green-500', desc: 'Winter Jam' },
-                        { label: 'Sponsored', icon: '$', color: 'bg-yellow-500', desc: 'NVIDIA' }
-                    ].map((c) => (
-                        <div key={c.label} className="flex-1 bg-white dark:bg-dark-surface rounded-xl p-4 shadow-sm border border-gray-100 dark:border-white/5 flex items-center gap-3 group cursor-pointer hover:bg-gray-50 dark:hover:bg-white/5 transition-all overflow-hidden relative">
-                            <div className={`w-10 h-10 rounded-full ${c.color} text-white flex items-center justify-center font-bold text-lg shadow-lg`}>{c.icon}</div>
-                            <div className="w-0 opacity-0 group-hover:w-auto group-hover:opacity-100 transition-all duration-300 whitespace-nowrap">
-                                <div className="font-bold text-gray-900 dark:text-white text-sm">{c.label}</div>
-                                <div className="text-[10px] text-gray-500">{c.desc}</div>
-                            </div>
+                    {SIDE_EVENTS.map((c) => {
+                        const record = challengeEvents[c.kind];
+                        const current = isCurrentEvent(record) ? record : null;
+                        const total = current?.challenge.milestones?.length || EVENT_FORMATS[c.kind].milestones;
+                        const done = current ? completedMilestoneCount(current) : 0;
+                        const desc = loadingEventKind === c.kind ? 'Generating...'
+                            : current ? `${current.challenge.title} • ${done}/${total}`
+                            : getEventPeriod(c.kind).label;
+                        return (
+                            <button
+                                key={c.kind}
+                                onClick={() => onOpenEvent(c.kind)}
+                                disabled={loadingEventKind !== null}
+                                title={current ? `${current.challenge.title}: ${done} of ${total} milestones` : `Reveal the ${EVENT_FORMATS[c.kind].label.toLowerCase()} event`}
+                                className="flex-1 text-left bg-white dark:bg-dark-surface rounded-xl p-4 shadow-sm border border-gray-100 dark:border-white/5 flex items-center gap-3 group cursor-pointer hover:bg-gray-50 dark:hover:bg-white/5 transition-all overflow-hidden relative"
+                            >
+                                <div className={`w-10 h-10 flex-shrink-0 rounded-full ${c.color} text-white flex items-center justify-center font-bold text-lg shadow-lg ${current?.status === 'completed' ? 'ring-2 ring-offset-2 ring-green-500 dark:ring-offset-dark-surface' : ''}`}>{c.icon}</div>
+                                <div className="w-0 opacity-0 group-hover:w-auto group-hover:opacity-100 transition-all duration-300 whitespace-nowrap">
+                                    <div className="font-bold text-gray-900 dark:text-white text-sm">{EVENT_FORMATS[c.kind].label}</div>
+                                    <div className="text-[10px] text-gray-500">{desc}</div>
+                                </div>
+                            </button>
+                        );
+                    })}
+                    <div className="flex-1 bg-white dark:bg-dark-surface rounded-xl p-4 shadow-sm border border-gray-100 dark:border-white/5 flex items-center gap-3 group overflow-hidden relative opacity-60 cursor-default" title="Sponsored challenges are coming soon">
+                        <div className="w-10 h-10 flex-shrink-0 rounded-full bg-yellow-500 text-white flex items-center justify-center font-bold text-lg shadow-lg">$</div>
+                        <div className="w-0 opacity-0 group-hover:w-auto group-hover:opacity-100 transition-all duration-300 whitespace-nowrap">
+                            <div className="font-bold text-gray-900 dark:text-white text-sm">Sponsored</div>
+                            <div className="text-[10px] text-gray-500">Coming soon</div>
                         </div>
-                    ))}
+                    </div>
                 </div>
             </div>
         </div>
@@ -0,0 +1,53 @@
+import React from 'react';
+import { ChallengeEvaluation, SimilarityBreakdown } from '../types';
+import { IMAGE_SIMILARITY } from '../constants';
+
+interface EvaluationScoresProps {
+  evaluation: ChallengeEvaluation;
+}
+
+const PARTS: { key: keyof Omit<SimilarityBreakdown, 'score'>; label: string }[] = [
+  { key: 'silhouette', label: 'Silhouette' },
+  { key: 'edges', label: 'Edges' },
+  { key: 'color', label: 'Colour' },
+  { key: 'structure', label: 'Structure' },
+];
+
+/**
+ * Shows how a challenge score was reached: the AI judgment next to the local image comparison.
+ */
+const EvaluationScores: React.FC<EvaluationScoresProps> = ({ evaluation }) => {
+  const { aiScore, similarity } = evaluation;
+  if (aiScore === undefined) return null; // Evaluated before scores were blended
+
+  return (
+    <div className="text-left text-sm bg-gray-50 dark:bg-white/5 rounded-xl p-4 mb-6 space-y-2">
+        <div className="flex justify-between text-gray-600 dark:text-gray-300">
+            <span>AI judgment <span className="text-xs text-gray-400">× {IMAGE_SIMILARITY.aiWeight}</span></span>
+            <span className="font-mono">{aiScore}</span>
+        </div>
+        {similarity ? (
+            <>
+                <div className="flex justify-between text-gray-600 dark:text-gray-300">
+                    <span>Image match <span className="text-xs text-gray-400">× {Math.round((1 - IMAGE_SIMILARITY.aiWeight) * 10) / 10}</span></span>
+                    <span className="font-mono">{similarity.score}</span>
+                </div>
+                <div className="grid grid-cols-4 gap-2 pt-1">
+                    {PARTS.map(({ key, label }) => (
+                        <div key={key} title={`${label}: ${similarity[key]}/100`}>
+                            <div className="h-1.5 rounded-full bg-gray-200 dark:bg-white/10 overflow-hidden">
+                                <div className="h-full bg-primary" style={{ width: `${similarity[key]}%` }}></div>
+                            </div>
+                            <div className="text-[10px] text-gray-400 mt-1 flex justify-between"><span>{label}</span><span className="font-mono">{similarity[key]}</span></div>
+                        </div>
+                    ))}
+                </div>
+            </>
+        ) : (
+            <p className="text-xs text-gray-400">The reference image couldn't be read, so only the AI judgment counts.</p>
+        )}
+    </div>
+  );
+};
+
+export default EvaluationScores;
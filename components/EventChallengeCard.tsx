@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { ChallengeEventRecord, EventKind } from '../types';
+import { EVENT_FORMATS } from '../constants';
+import { isCurrentEvent, getEventPeriod, completedMilestoneCount } from '../services/eventChallengeService';
+
+interface EventChallengeCardProps {
+  kind: EventKind;
+  record: ChallengeEventRecord | undefined;
+  loading: boolean;
+  onOpen: () => void;
+}
+
+export const formatTimeLeft = (ms: number) => {
+  const totalMins = Math.max(0, Math.floor(ms / 60000));
+  const d = Math.floor(totalMins / 1440);
+  const h = Math.floor((totalMins % 1440) / 60);
+  const m = totalMins % 60;
+  return d > 0 ? `${d}d ${h}h` : `${h}h ${m.toString().padStart(2, '0')}m`;
+};
+
+const EventChallengeCard: React.FC<EventChallengeCardProps> = ({ kind, record, loading, onOpen }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const period = getEventPeriod(kind, new Date(now));
+  // An event from a previous period is stale; the current one hasn't been generated yet
+  const current = isCurrentEvent(record, new Date(now)) ? record : null;
+  const format = EVENT_FORMATS[kind];
+  const total = current?.challenge.milestones?.length || format.milestones;
+  const done = current ? completedMilestoneCount(current) : 0;
+
+  const buttonLabel = loading
+    ? 'Generating...'
+    : !current ? `Reveal ${format.label} Event`
+    : current.status === 'completed' ? 'View Results'
+    : current.status === 'attempted' ? 'Continue'
+    : 'View Details';
+
+  return (
+    <div className="md:col-span-5 bg-white dark:bg-dark-surface rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-white/5 flex flex-col relative overflow-hidden group hover:shadow-md transition-all">
+        <div className="absolute top-0 right-0 p-8 opacity-5 dark:opacity-10 transition-transform group-hover:scale-110">
+             <svg width="120" height="120" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1"><path d="M6 9H4.5a2.5 2.5 0 0 1 0-5H6"></path><path d="M18 9h1.5a2.5 2.5 0 0 0 0-5H18"></path><path d="M4 22h16"></path><path d="M10 14.66V17c0 .55-.47.98-.97 1.21C7.85 18.75 7 20.24 7 22"></path><path d="M14 14.66V17c0 .55.47.98.97 1.21C16.15 18.75 17 20.24 17 22"></path><path d="M18 2H6v7a6 6 0 0 0 12 0V2Z"></path></svg>
+        </div>
+        <div className="relative z-10">
+            <div className="flex items-center gap-2 mb-2">
+                <div className="text-xs font-bold text-accent uppercase tracking-wider">
+                    {current ? `${format.label} Theme: ${current.challenge.theme}` : period.label}
+                </div>
+                <div className="text-xs font-mono text-gray-400">Ends in {formatTimeLeft(period.endsAt - now)}</div>
+            </div>
+            <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">{current ? current.challenge.title : `${format.label} Event`}</h3>
+            <p className="text-gray-500 dark:text-gray-400 mb-4 line-clamp-2">
+                {current ? current.challenge.description : `A ${total}-milestone project you can work on across several sessions.`}
+            </p>
+            <div className="flex items-center gap-2 mb-6" title={`${done} of ${total} milestones completed`}>
+                {Array.from({ length: total }).map((_, i) => (
+                    <div key={i} className={`h-1.5 flex-1 rounded-full ${i < done ? 'bg-accent' : 'bg-gray-100 dark:bg-white/10'}`}></div>
+                ))}
+                <span className="text-[10px] text-gray-400 font-mono ml-1">{done}/{total}</span>
+            </div>
+            <button
+                onClick={onOpen}
+                disabled={loading}
+                className="border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-white/5 px-6 py-2 rounded-full font-medium transition-colors w-fit disabled:opacity-50"
+            >
+                {buttonLabel}
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default EventChallengeCard;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { ImageEditSession, ImageVersion } from '../types';
+import { versionLabel, versionTree, versionFileName } from '../services/imageEditService';
+
+interface ImageVersionsPanelProps {
+  session: ImageEditSession;
+  initialId: string; // Shown on the right, compared against the version it was made from
+  onContinue: (versionId: string) => void; // Make this the version the next edit starts from
+  onClose: () => void;
+}
+
+const ImageVersionsPanel: React.FC<ImageVersionsPanelProps> = ({ session, initialId, onContinue, onClose }) => {
+  const initial = session.versions.find(v => v.id === initialId) || session.versions[session.versions.length - 1];
+  const [leftId, setLeftId] = useState(initial.parentId || session.versions[0].id);
+  const [rightId, setRightId] = useState(initial.id);
+  const [split, setSplit] = useState(50);
+
+  const left = session.versions.find(v => v.id === leftId) || session.versions[0];
+  const right = session.versions.find(v => v.id === rightId) || initial;
+  const rows = versionTree(session);
+
+  const download = (version: ImageVersion) => {
+    const link = document.createElement('a');
+    link.href = version.imageUrl;
+    link.download = versionFileName(session, version);
+    link.click();
+  };
+
+  const renderSelect = (selectedId: string, onSelect: (id: string) => void) => (
+    <select
+        value={selectedId}
+        onChange={e => onSelect(e.target.value)}
+        className="flex-1 min-w-0 bg-gray-50 dark:bg-black/30 border border-gray-200 dark:border-white/10 rounded-lg px-3 py-2 text-sm text-gray-900 dark:text-white"
+    >
+        {rows.map(({ version, depth }) => (
+            <option key={version.id} value={version.id}>
+                {'  '.repeat(depth)}{versionLabel(session, version.id)}{version.prompt ? ` - ${version.prompt}` : ''}
+            </option>
+        ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="bg-white dark:bg-surface border border-gray-200 dark:border-white/10 rounded-2xl w-full max-w-5xl max-h-[90vh] overflow-y-auto relative p-6 shadow-2xl transition-colors duration-300">
+        <div className="flex items-start justify-between gap-4 mb-4">
+            <div>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Image Versions</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">Drag the slider to compare. Continue editing from any version; earlier edits are kept as branches.</p>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-gray-200 dark:hover:bg-white/5 rounded-lg text-gray-500 dark:text-gray-400" aria-label="Close">
+                <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+            </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-6">
+            <div className="flex-1 min-w-0 flex flex-col gap-3">
+                <div className="flex gap-2">
+                    {renderSelect(leftId, setLeftId)}
+                    {renderSelect(rightId, setRightId)}
+                </div>
+                {/* The right version is drawn over the left one and clipped at the slider */}
+                <div className="relative bg-black rounded-xl aspect-square overflow-hidden select-none">
+                    <img src={left.imageUrl} alt={versionLabel(session, left.id)} className="absolute inset-0 w-full h-full object-contain" />
+                    <img
+                        src={right.imageUrl}
+                        alt={versionLabel(session, right.id)}
+                        className="absolute inset-0 w-full h-full object-contain"
+                        style={{ clipPath: `inset(0 0 0 ${split}%)` }}
+                    />
+                    <div className="absolute inset-y-0 w-0.5 bg-white/80 pointer-events-none" style={{ left: `${split}%` }}></div>
+                    <span className="absolute top-2 left-2 text-[10px] font-bold bg-black/60 text-white px-2 py-0.5 rounded">{versionLabel(session, left.id)}</span>
+                    <span className="absolute top-2 right-2 text-[10px] font-bold bg-black/60 text-white px-2 py-0.5 rounded">{versionLabel(session, right.id)}</span>
+                </div>
+                <input type="range" min={0} max={100} value={split} onChange={e => setSplit(Number(e.target.value))} className="w-full accent-primary" aria-label="Comparison split" />
+            </div>
+
+            <ol className="md:w-72 flex-shrink-0 space-y-2">
+                {rows.map(({ version, depth }) => (
+                    <li
+                        key={version.id}
+                        style={{ marginLeft: depth * 12 }}
+                        className={`flex items-center gap-3 p-2 rounded-lg border ${version.id === right.id ? 'border-primary bg-primary/5' : 'border-gray-200 dark:border-white/10'}`}
+                    >
+                        <button onClick={() => setRightId(version.id)} className="flex items-center gap-3 flex-1 min-w-0 text-left">
+                            <img src={version.imageUrl} alt="" className="w-10 h-10 rounded object-cover flex-shrink-0" />
+                            <div className="min-w-0">
+                                <div className="text-sm font-semibold text-gray-900 dark:text-white">{versionLabel(session, version.id)}</div>
+                                <div className="text-[10px] text-gray-500 truncate">{version.prompt || 'Pasted image'}</div>
+                            </div>
+                        </button>
+                        <div className="flex flex-col gap-1 text-[10px] flex-shrink-0">
+                            <button onClick={() => onContinue(version.id)} className="text-primary hover:underline">Edit</button>
+                            <button onClick={() => download(version)} className="text-gray-500 hover:text-gray-900 dark:hover:text-white">Download</button>
+                        </div>
+                    </li>
+                ))}
+            </ol>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageVersionsPanel;
@@ -0,0 +1,32 @@
+import React, { useEffect } from 'react';
+
+interface LevelUpToastProps {
+  level: number;
+  onDismiss: () => void;
+}
+
+const AUTO_DISMISS_MS = 5000;
+
+const LevelUpToast: React.FC<LevelUpToastProps> = ({ level, onDismiss }) => {
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, AUTO_DISMISS_MS);
+    return () => clearTimeout(timeout);
+  }, [level]);
+
+  return (
+    <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[110] animate-fade-in">
+        <button
+            onClick={onDismiss}
+            className="flex items-center gap-4 bg-white dark:bg-dark-surface border border-accent/50 rounded-2xl px-6 py-4 shadow-2xl shadow-accent/20"
+        >
+            <div className="w-12 h-12 rounded-full bg-accent text-black flex items-center justify-center font-bold text-xl shadow-lg shadow-accent/40">{level}</div>
+            <div className="text-left">
+                <div className="text-xs font-bold text-accent uppercase tracking-wider">Level Up!</div>
+                <div className="font-bold text-gray-900 dark:text-white">You reached Level {level}</div>
+            </div>
+        </button>
+    </div>
+  );
+};
+
+export default LevelUpToast;
@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from 'react';
+import { Token, Tokens, MarkedToken } from 'marked';
+import { CHAT_MARKDOWN_LIMITS } from '../constants';
+import { parseMarkdown, decodeEntities, safeHref, safeImageSrc, shortcutKeys, highlightCode, CodeTokenKind } from '../services/markdownService';
+
+interface MarkdownMessageProps {
+  text: string;
+}
+
+const CODE_COLORS: Record<CodeTokenKind, string> = {
+  keyword: 'text-pink-400',
+  builtin: 'text-sky-300',
+  string: 'text-green-300',
+  comment: 'text-gray-400 italic',
+  number: 'text-amber-300',
+  plain: '',
+};
+
+const isKbdTag = (token: Token, closing: boolean) =>
+  token.type === 'html' && (token as Tokens.HTML).text.trim().toLowerCase() === (closing ? '</kbd>' : '<kbd>');
+
+const Keys: React.FC<{ keys: string[] }> = ({ keys }) => (
+  <span className="whitespace-nowrap">
+    {keys.map((key, i) => (
+      <React.Fragment key={i}>
+        {i > 0 && '+'}
+        <kbd>{key}</kbd>
+      </React.Fragment>
+    ))}
+  </span>
+);
+
+const CodeBlock: React.FC<{ code: string; lang?: string }> = ({ code, lang }) => {
+  const lineCount = code.split('\n').length;
+  const isLong = lineCount > CHAT_MARKDOWN_LIMITS.collapseCodeLines;
+  const [expanded, setExpanded] = useState(!isLong);
+  const [copied, setCopied] = useState(false);
+  const runs = useMemo(() => highlightCode(code, lang), [code, lang]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.warn("Could not copy code:", error);
+    }
+  };
+
+  return (
+    <div className="my-2 rounded-lg overflow-hidden bg-slate-800 text-white">
+      <div className="flex justify-between items-center px-3 py-1 bg-slate-900 text-[10px] uppercase tracking-wider text-gray-400">
+        <span>{lang || 'code'}</span>
+        <button onClick={handleCopy} className="hover:text-white normal-case">{copied ? 'Copied' : 'Copy'}</button>
+      </div>
+      <pre className={expanded ? '' : 'max-h-48 overflow-y-hidden'}>
+        <code>
+          {runs.map((run, i) => run.kind === 'plain' ? run.text : <span key={i} className={CODE_COLORS[run.kind]}>{run.text}</span>)}
+        </code>
+      </pre>
+      {isLong && (
+        <button onClick={() => setExpanded(!expanded)} className="w-full py-1 text-[10px] text-gray-400 hover:text-white bg-slate-900">
+          {expanded ? 'Show less' : `Show all ${lineCount} lines`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+const renderInline = (tokens: Token[] = []): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    // <kbd>…</kbd> is the one tag with meaning; its contents become a key chip
+    if (isKbdTag(tokens[i], false)) {
+      const close = tokens.findIndex((t, j) => j > i && isKbdTag(t, true));
+      if (close !== -1) {
+        const label = tokens.slice(i + 1, close).map(t => ('text' in t ? t.text : '')).join('');
+        nodes.push(<kbd key={i}>{decodeEntities(label)}</kbd>);
+        i = close;
+        continue;
+      }
+    }
+    nodes.push(<React.Fragment key={i}>{renderInlineToken(tokens[i] as MarkedToken)}</React.Fragment>);
+  }
+  return nodes;
+};
+
+const renderInlineToken = (token: MarkedToken): React.ReactNode => {
+  switch (token.type) {
+    case 'text':
+      return token.tokens ? renderInline(token.tokens) : decodeEntities(token.text);
+    case 'escape':
+      return token.text;
+    case 'strong':
+      return <strong>{renderInline(token.tokens)}</strong>;
+    case 'em':
+      return <em>{renderInline(token.tokens)}</em>;
+    case 'del':
+      return <del>{renderInline(token.tokens)}</del>;
+    case 'codespan': {
+      const keys = shortcutKeys(token.text);
+      return keys ? <Keys keys={keys} /> : <code>{token.text}</code>;
+    }
+    case 'br':
+      return <br />;
+    case 'link': {
+      const href = safeHref(token.href);
+      return href
+        ? <a href={href} title={token.title || undefined} target="_blank" rel="noopener noreferrer">{renderInline(token.tokens)}</a>
+        : renderInline(token.tokens);
+    }
+    case 'image': {
+      const src = safeImageSrc(token.href);
+      if (src) return <img src={src} alt={token.text} className="max-w-full rounded" />;
+      const href = safeHref(token.href);
+      return href
+        ? <a href={href} title={token.title || undefined} target="_blank" rel="noopener noreferrer">{token.text || 'Image'}</a>
+        : token.text;
+    }
+    case 'html':
+      return token.text; // Shown as written, never interpreted
+    default:
+      return 'raw' in token ? token.raw : null;
+  }
+};
+
+const renderHeading = (token: Tokens.Heading) => {
+  const Tag = `h${Math.min(token.depth + 2, 6)}` as 'h3';
+  return <Tag className="font-semibold mt-3 mb-1">{renderInline(token.tokens)}</Tag>;
+};
+
+const renderBlocks = (tokens: Token[] = []): React.ReactNode[] =>
+  tokens.map((token, i) => <React.Fragment key={i}>{renderBlock(token as MarkedToken)}</React.Fragment>);
+
+const renderBlock = (token: MarkedToken): React.ReactNode => {
+  switch (token.type) {
+    case 'space':
+    case 'def':
+      return null;
+    case 'paragraph':
+      return <p>{renderInline(token.tokens)}</p>;
+    case 'text':
+      return token.tokens ? renderInline(token.tokens) : decodeEntities(token.text);
+    case 'heading':
+      return renderHeading(token);
+    case 'code':
+      return <CodeBlock code={token.text} lang={token.lang?.trim().split(/\s+/)[0]} />;
+    case 'list': {
+      const items = token.items.map((item, i) => (
+        <li key={i}>
+          {item.task && <input type="checkbox" checked={!!item.checked} readOnly disabled className="mr-1 align-middle" />}
+          {renderBlocks(item.tokens)}
+        </li>
+      ));
+      return token.ordered ? <ol start={token.start === '' ? undefined : token.start}>{items}</ol> : <ul>{items}</ul>;
+    }
+    case 'blockquote':
+      return <blockquote>{renderBlocks(token.tokens)}</blockquote>;
+    case 'table':
+      return (
+        <div className="overflow-x-auto my-2">
+          <table>
+            <thead>
+              <tr>
+                {token.header.map((cell, i) => <th key={i} style={{ textAlign: token.align[i] || undefined }}>{renderInline(cell.tokens)}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {token.rows.map((row, r) => (
+                <tr key={r}>
+                  {row.map((cell, i) => <td key={i} style={{ textAlign: token.align[i] || undefined }}>{renderInline(cell.tokens)}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'hr':
+      return <hr />;
+    case 'html':
+      return <p className="whitespace-pre-wrap">{token.text.trim()}</p>;
+    default:
+      return renderInlineToken(token);
+  }
+};
+
+/**
+ * A Copilot answer as Markdown: code blocks with highlighting and a copy button, shortcut
+ * chips and tables. Long answers fold into collapsible sections, the first one open.
+ */
+const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ text }) => {
+  const { intro, sections, collapsible } = useMemo(() => parseMarkdown(text), [text]);
+
+  return (
+    <div className="prose prose-sm max-w-none dark:prose-invert">
+      {renderBlocks(intro)}
+      {sections.map((section, i) => collapsible ? (
+        <details key={i} open={i === 0}>
+          <summary>{renderInline(section.heading.tokens)}</summary>
+          {renderBlocks(section.tokens)}
+        </details>
+      ) : (
+        <React.Fragment key={i}>
+          {renderHeading(section.heading)}
+          {renderBlocks(section.tokens)}
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+export default MarkdownMessage;
@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { Domain, SkillLevel } from '../types';
-import { generateLearningPath } from '../services/geminiService';
+import { generateLearningPath } from '../services/aiService';
 
 interface OnboardingProps {
   initialName?: string;
+  newProfile?: boolean; // Someone else on this machine is setting up their own profile
   onCancel?: () => void;
   onComplete: (
     data: { domain: Domain; tool: string; skill: SkillLevel; name: string },
@@ -11,7 +12,7 @@ interface OnboardingProps {
   ) => void;
 }
 
-const Onboarding: React.FC<OnboardingProps> = ({ onComplete, initialName, onCancel }) => {
+const Onboarding: React.FC<OnboardingProps> = ({ onComplete, initialName, newProfile, onCancel }) => {
   const [step, setStep] = useState(1);
   const [name, setName] = useState(initialName || '');
   const [domain, setDomain] = useState<Domain>('Digital Art');
@@ -59,7 +60,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete, initialName, onCanc
         )}
 
         <div className="mb-8">
-            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">{initialName ? 'New Path' : 'Artifex Setup'}</h1>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">{initialName ? 'New Path' : newProfile ? 'New Profile' : 'Artifex Setup'}</h1>
             <div className="h-1 w-full bg-gray-200 dark:bg-white/10 rounded-full">
                 <div className="h-full bg-primary transition-all duration-500 rounded-full" style={{ width: `${(step / 3) * 100}%`}}></div>
             </div>
@@ -1,13 +1,42 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { LearningPath, Step } from '../types';
-import { reviewSubmission } from '../services/geminiService';
+import { LearningPath, Step, StepRevisionAction, StepSubmission, ReviewResult, ReviewRequest, LabelledImage, ModelSummary, DrawingSummary, CriterionVerdict, PendingStepReview } from '../types';
+import { reviewSubmission } from '../services/aiService';
+import { REVISION_ACTIONS, canReviseStep } from '../services/pathService';
+import { submissionsForStep } from '../services/submissionService';
+import { resultsForCriteria } from '../services/rubricService';
+import SubmissionTimeline from './SubmissionTimeline';
+import SubmissionPicker from './SubmissionPicker';
+import PendingReviewCard from './PendingReviewCard';
 
 interface PathViewProps {
   path: LearningPath;
   onBack: () => void;
   onCompleteStep: (stepId: string) => void;
+  onReviseStep: (stepId: string, action: StepRevisionAction, note?: string) => Promise<void>;
+  onReviewFailed: (stepId: string, feedback: string) => Promise<boolean>;
+  submissions: StepSubmission[]; // Every reviewed upload on this path
+  onSubmissionReviewed: (stepId: string, images: LabelledImage[], models: ModelSummary[], drawings: DrawingSummary[], review: ReviewResult) => void;
+  pendingReviews: PendingStepReview[]; // This path's submissions waiting for the review service
+  onReviewUnavailable: (stepId: string, request: ReviewRequest, error: unknown) => void;
+  onRetryReview: (id: string) => void;
+  onDiscardReview: (id: string) => void;
+  onToggleMiniStep: (stepId: string, index: number, done: boolean) => void;
+  onRemoveAttachment: (stepId: string, attachmentId: string) => void;
+  focus: StepFocus | null; // Step to select, e.g. when the Copilot opens one
+  onFocusHandled: () => void;
 }
 
+export interface StepFocus {
+  stepId: string;
+  showHint: boolean; // Expand the step-by-step guide
+}
+
+const VERDICT_STYLES: Record<CriterionVerdict, { label: string; icon: string; className: string }> = {
+  met: { label: 'Met', icon: '✓', className: 'bg-green-500 text-white' },
+  partial: { label: 'Partially met', icon: '~', className: 'bg-yellow-400 text-gray-900' },
+  unmet: { label: 'Not met', icon: '!', className: 'bg-red-500 text-white' },
+};
+
 // Simple particle system for confetti
 class Particle {
     x: number;
@@ -45,25 +74,64 @@ class Particle {
     }
 }
 
-const PathView: React.FC<PathViewProps> = ({ path, onBack, onCompleteStep }) => {
+const PathView: React.FC<PathViewProps> = ({ path, onBack, onCompleteStep, onReviseStep, onReviewFailed, submissions, onSubmissionReviewed, pendingReviews, onReviewUnavailable, onRetryReview, onDiscardReview, onToggleMiniStep, onRemoveAttachment, focus, onFocusHandled }) => {
   const [selectedStep, setSelectedStep] = useState<Step | null>(
     path.steps.find(s => s.status === 'active') || path.steps[0]
   );
   const [uploading, setUploading] = useState(false);
-  const [feedback, setFeedback] = useState<{passed: boolean, text: string} | null>(null);
+  const [feedback, setFeedback] = useState<{passed: boolean, text: string, score?: number} | null>(null);
   const [showConfetti, setShowConfetti] = useState(false);
   const [showHint, setShowHint] = useState(false); // State for hint toggle
+  const [showRevise, setShowRevise] = useState(false);
+  const [revisionNote, setRevisionNote] = useState('');
+  const [revising, setRevising] = useState<StepRevisionAction | null>(null);
+  const [remediation, setRemediation] = useState<'preparing' | 'added' | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const revealHintForRef = useRef<string | null>(null);
 
   // Sync selected step if path updates
   useEffect(() => {
      if (selectedStep) {
          const updatedStep = path.steps.find(s => s.id === selectedStep.id);
          if (updatedStep) setSelectedStep(updatedStep);
-         setShowHint(false); // Reset hint visibility on step change
      }
   }, [path, selectedStep?.id]);
 
+  useEffect(() => {
+     if (!focus) return;
+     const target = path.steps.find(s => s.id === focus.stepId);
+     if (target) {
+         revealHintForRef.current = focus.showHint ? target.id : null;
+         setSelectedStep(target);
+         if (focus.showHint) setShowHint(true);
+     }
+     onFocusHandled();
+  }, [focus]);
+
+  useEffect(() => {
+     // Reset hint visibility on step change, unless the step was opened to show it
+     setShowHint(revealHintForRef.current === selectedStep?.id);
+     revealHintForRef.current = null;
+     setShowRevise(false);
+     setRevisionNote('');
+     setRemediation(null);
+  }, [selectedStep?.id]);
+
+  const handleRevise = async (action: StepRevisionAction) => {
+    if (!selectedStep || revising) return;
+    setRevising(action);
+    try {
+        await onReviseStep(selectedStep.id, action, revisionNote.trim() || undefined);
+        setShowRevise(false);
+        setRevisionNote('');
+        setFeedback(null);
+    } catch (err) {
+        alert("Couldn't revise this step. Please try again.");
+    } finally {
+        setRevising(null);
+    }
+  };
+
   // Audio effect
   const playCelebrationSound = () => {
     const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
@@ -130,28 +198,58 @@ const PathView: React.FC<PathViewProps> = ({ path, onBack, onCompleteStep }) =>
     }
   }, [showConfetti]);
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!e.target.files || !e.target.files[0] || !selectedStep) return;
+  const handleSubmit = async (images: LabelledImage[], models: ModelSummary[], drawings: DrawingSummary[]) => {
+    if (images.length === 0 || !selectedStep) return;
     
     setUploading(true);
     setFeedback(null);
-    const file = e.target.files[0];
+    const stepId = selectedStep.id;
 
+    const request: ReviewRequest = {
+        images,
+        models,
+        drawings,
+        stepDescription: selectedStep.description,
+        criteria: selectedStep.criteria,
+        requiredViews: selectedStep.requiredViews,
+    };
+
+    let failedFeedback: string | null = null;
     try {
-        const result = await reviewSubmission(file, selectedStep.description, selectedStep.criteria);
-        setFeedback({ passed: result.passed, text: result.feedback });
+        const result = await reviewSubmission(request);
+        setFeedback({ passed: result.passed, text: result.feedback, score: result.score });
+        onSubmissionReviewed(stepId, images, models, drawings, result);
         
         if (result.passed) {
              playCelebrationSound();
              setShowConfetti(true);
+        } else {
+             failedFeedback = result.feedback;
         }
     } catch (err) {
-        setFeedback({ passed: false, text: "Error submitting file. Please try again." });
+        // No verdict: the upload waits in the review queue instead of passing or failing
+        onReviewUnavailable(stepId, request, err);
     } finally {
         setUploading(false);
     }
+
+    // Only real review verdicts count as failures, not upload errors
+    if (failedFeedback === null) return;
+    setRemediation('preparing');
+    try {
+        setRemediation(await onReviewFailed(stepId, failedFeedback) ? 'added' : null);
+    } catch (err) {
+        console.error("Couldn't generate practice steps:", err);
+        setRemediation(null);
+    }
   };
 
+  // Criteria results come from the latest stored review, so they survive switching steps
+  const stepHistory = selectedStep ? submissionsForStep(submissions, path.id, selectedStep.id) : [];
+  const latestReview = stepHistory[stepHistory.length - 1];
+  const criteriaResults = selectedStep ? resultsForCriteria(selectedStep.criteria, latestReview?.criteriaResults) : [];
+  const pendingReview = selectedStep ? pendingReviews.find(r => r.stepId === selectedStep.id) : undefined;
+
   const handleAdvance = () => {
       if (!selectedStep) return;
       onCompleteStep(selectedStep.id);
@@ -195,13 +293,14 @@ const PathView: React.FC<PathViewProps> = ({ path, onBack, onCompleteStep }) =>
                     const isActive = step.id === selectedStep?.id;
                     const isCompleted = step.status === 'completed';
                     const isLocked = step.status === 'locked';
+                    const isRemedial = !!step.remedialFor;
 
                     return (
                         <button
                         key={step.id}
                         onClick={() => !isLocked && setSelectedStep(step)}
                         disabled={isLocked}
-                        className={`relative w-full text-left flex gap-4 group ${isLocked ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}`}
+                        className={`relative w-full text-left flex gap-4 group ${isRemedial ? 'pl-6' : ''} ${isLocked ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}`}
                         >
                             {/* Node Icon */}
                             <div className={`relative z-10 flex-shrink-0 w-8 h-8 rounded-full border-2 flex items-center justify-center transition-all ${
@@ -224,7 +323,7 @@ const PathView: React.FC<PathViewProps> = ({ path, onBack, onCompleteStep }) =>
                                     {step.title}
                                 </h3>
                                 <div className="text-xs text-gray-400 dark:text-gray-500 mt-1 font-mono">
-                                    {isCompleted ? 'COMPLETED' : isActive ? 'IN PROGRESS' : 'LOCKED'}
+                                    {isRemedial && !isCompleted ? (step.optional ? 'OPTIONAL PRACTICE' : 'PRACTICE') : isCompleted ? 'COMPLETED' : isActive ? 'IN PROGRESS' : 'LOCKED'}
                                 </div>
                             </div>
                         </button>
@@ -239,9 +338,44 @@ const PathView: React.FC<PathViewProps> = ({ path, onBack, onCompleteStep }) =>
         {selectedStep && (
           <div className="max-w-3xl mx-auto space-y-8 pb-20">
             <div className="space-y-4">
-                <div className="inline-block px-3 py-1 rounded-full bg-primary/10 border border-primary/20 text-xs font-mono text-primary font-bold">
-                    MODULE {path.steps.findIndex(s => s.id === selectedStep.id) + 1}
+                <div className="flex items-center justify-between gap-4">
+                    <div className="inline-block px-3 py-1 rounded-full bg-primary/10 border border-primary/20 text-xs font-mono text-primary font-bold">
+                        MODULE {path.steps.findIndex(s => s.id === selectedStep.id) + 1} • {selectedStep.xpReward} XP
+                    </div>
+                    <button
+                        onClick={() => setShowRevise(!showRevise)}
+                        className="text-sm text-gray-500 hover:text-primary transition-colors flex items-center gap-1"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 20h9"></path><path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"></path></svg>
+                        Adjust Step
+                    </button>
                 </div>
+
+                {/* Step Revision Panel */}
+                {showRevise && (
+                    <div className="bg-gray-50 dark:bg-dark-surface rounded-2xl border border-gray-200 dark:border-white/10 p-4 space-y-3 animate-fade-in">
+                        <textarea
+                            value={revisionNote}
+                            onChange={e => setRevisionNote(e.target.value)}
+                            placeholder="Optional: what's wrong with this step? e.g. my version doesn't have this feature"
+                            rows={2}
+                            className="w-full text-sm bg-white dark:bg-black/20 border border-gray-200 dark:border-white/10 rounded-lg p-2 text-gray-700 dark:text-gray-300 focus:outline-none focus:border-primary"
+                        />
+                        <div className="flex flex-wrap gap-2">
+                            {REVISION_ACTIONS.map(({ action, label, description }) => (
+                                <button
+                                    key={action}
+                                    onClick={() => handleRevise(action)}
+                                    disabled={!!revising || !canReviseStep(selectedStep, action)}
+                                    title={canReviseStep(selectedStep, action) ? description : 'Completed steps can only have steps inserted after them'}
+                                    className="px-3 py-1.5 rounded-lg text-sm font-medium border border-gray-200 dark:border-white/10 text-gray-700 dark:text-gray-300 hover:border-primary hover:text-primary transition-colors disabled:opacity-40 disabled:hover:border-gray-200 disabled:hover:text-gray-700"
+                                >
+                                    {revising === action ? 'Working...' : label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
                 <h1 className="text-4xl font-bold text-gray-900 dark:text-white">{selectedStep.title}</h1>
                 <p className="text-xl text-gray-600 dark:text-gray-300 leading-relaxed">{selectedStep.description}</p>
             </div>
@@ -262,27 +396,81 @@ const PathView: React.FC<PathViewProps> = ({ path, onBack, onCompleteStep }) =>
                     
                     {showHint && (
                         <div className="p-6 bg-white dark:bg-dark-surface/50">
-                            <ol className="list-decimal pl-5 space-y-3 text-gray-700 dark:text-gray-300">
-                                {selectedStep.detailedSteps.map((step, idx) => (
-                                    <li key={idx} className="pl-2">
-                                        {step}
-                                    </li>
-                                ))}
+                            <ol className="space-y-3 text-gray-700 dark:text-gray-300">
+                                {selectedStep.detailedSteps.map((step, idx) => {
+                                    const done = !!selectedStep.doneDetailedSteps?.includes(idx);
+                                    return (
+                                        <li key={idx}>
+                                            <label className="flex items-start gap-3 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={done}
+                                                    onChange={() => onToggleMiniStep(selectedStep.id, idx, !done)}
+                                                    className="mt-1 accent-primary"
+                                                />
+                                                <span className={done ? 'line-through text-gray-400' : ''}>{idx + 1}. {step}</span>
+                                            </label>
+                                        </li>
+                                    );
+                                })}
                             </ol>
                         </div>
                     )}
                 </div>
             )}
 
+            {/* Images saved from the Copilot */}
+            {selectedStep.attachments && selectedStep.attachments.length > 0 && (
+                <div className="bg-gray-50 dark:bg-dark-surface rounded-2xl border border-gray-100 dark:border-white/5 p-6 shadow-sm">
+                    <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wider mb-4">Saved References</h3>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                        {selectedStep.attachments.map(attachment => (
+                            <figure key={attachment.id} className="group relative">
+                                <img src={attachment.imageUrl} alt={attachment.caption} className="w-full aspect-square object-cover rounded-lg border border-gray-200 dark:border-white/10" />
+                                <button
+                                    onClick={() => confirm('Remove this image from the step?') && onRemoveAttachment(selectedStep.id, attachment.id)}
+                                    title="Remove"
+                                    className="absolute top-2 right-2 w-6 h-6 rounded-full bg-black/60 text-white text-sm leading-none opacity-0 group-hover:opacity-100 transition-opacity"
+                                >
+                                    ×
+                                </button>
+                                {attachment.caption && <figcaption className="text-xs text-gray-500 mt-1 line-clamp-3">{attachment.caption}</figcaption>}
+                            </figure>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             <div className="bg-gray-50 dark:bg-dark-surface rounded-2xl border border-gray-100 dark:border-white/5 p-6 shadow-sm">
-                <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wider mb-4">Success Criteria</h3>
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wider">Success Criteria</h3>
+                    {latestReview?.score !== undefined && (
+                        <span className="text-xs font-mono text-gray-400">Last review: {latestReview.score}/100</span>
+                    )}
+                </div>
                 <ul className="space-y-3">
-                    {selectedStep.criteria.map((c, i) => (
-                        <li key={i} className="flex items-start gap-3 text-gray-700 dark:text-gray-300">
-                            <div className="mt-1.5 w-1.5 h-1.5 rounded-full bg-primary flex-shrink-0"></div>
-                            <span>{c}</span>
-                        </li>
-                    ))}
+                    {selectedStep.criteria.map((c, i) => {
+                        const result = criteriaResults[i];
+                        return (
+                            <li key={i} className="flex items-start gap-3 text-gray-700 dark:text-gray-300">
+                                {result ? (
+                                    <span className={`mt-0.5 w-5 h-5 rounded-full flex-shrink-0 flex items-center justify-center text-xs font-bold ${VERDICT_STYLES[result.verdict].className}`} title={VERDICT_STYLES[result.verdict].label}>
+                                        {VERDICT_STYLES[result.verdict].icon}
+                                    </span>
+                                ) : (
+                                    <div className="mt-1.5 w-1.5 h-1.5 rounded-full bg-primary flex-shrink-0"></div>
+                                )}
+                                <div className="flex-1">
+                                    <span>{c}</span>
+                                    {result && (
+                                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                                            <span className="font-mono">{result.score}/100</span> • {result.comment}
+                                        </p>
+                                    )}
+                                </div>
+                            </li>
+                        );
+                    })}
                 </ul>
             </div>
 
@@ -301,6 +489,7 @@ const PathView: React.FC<PathViewProps> = ({ path, onBack, onCompleteStep }) =>
                             <h4 className="font-bold text-green-600 dark:text-green-400 text-lg mb-2 flex items-center gap-2">
                                 <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
                                 Excellent Work!
+                                {feedback.score !== undefined && <span className="ml-auto text-sm font-mono font-normal">{feedback.score}/100</span>}
                             </h4>
                             <p className="text-gray-700 dark:text-gray-300">{feedback.text}</p>
                         </div>
@@ -313,41 +502,53 @@ const PathView: React.FC<PathViewProps> = ({ path, onBack, onCompleteStep }) =>
                             <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" /></svg>
                         </button>
                     </div>
+                ) : pendingReview ? (
+                    // State: Uploaded, waiting for the review service
+                    <PendingReviewCard review={pendingReview} onRetry={onRetryReview} onDiscard={onDiscardReview} showTitle={false} />
                 ) : (
                     // State: Needs submission or failed
                     <>
                         <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Ready to Submit?</h3>
-                        <p className="text-gray-500 dark:text-gray-400 mb-6">Upload a screenshot or render of your work. The AI will review it against the criteria above.</p>
+                        <p className="text-gray-500 dark:text-gray-400 mb-6">Upload screenshots or renders of your work and label each view, or attach the model or DXF drawing file itself. The AI will review them together against the criteria above.</p>
                         
-                        <div className="flex justify-center">
-                             <label className={`cursor-pointer bg-primary hover:bg-primaryDark text-white font-bold py-3 px-6 rounded-xl shadow-lg shadow-primary/20 transition-all flex items-center gap-2 ${uploading ? 'opacity-50 pointer-events-none' : ''}`}>
-                                {uploading ? (
-                                    <>
-                                        <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24" fill="none"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                                        Analyzing Work...
-                                    </>
-                                ) : (
-                                    <>
-                                        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="17 8 12 3 7 8"></polyline><line x1="12" y1="3" x2="12" y2="15"></line></svg>
-                                        Upload Image
-                                    </>
-                                )}
-                                <input type="file" className="hidden" accept="image/*" onChange={handleFileUpload} disabled={uploading} />
-                             </label>
-                        </div>
+                        <SubmissionPicker
+                            key={selectedStep.id}
+                            requiredViews={selectedStep.requiredViews}
+                            requiresModel={selectedStep.requiresModel}
+                            requiresDrawing={selectedStep.requiresDrawing}
+                            uploading={uploading}
+                            onSubmit={handleSubmit}
+                        />
 
                         {feedback && !feedback.passed && (
                             <div className="mt-6 p-4 rounded-xl text-left bg-red-500/10 border border-red-500/30">
                                 <h4 className="font-bold text-red-500 mb-1 flex items-center gap-2">
                                     <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
                                     Revision Needed
+                                    {feedback.score !== undefined && <span className="ml-auto text-xs font-mono font-normal">{feedback.score}/100</span>}
                                 </h4>
                                 <p className="text-gray-600 dark:text-gray-300 text-sm whitespace-pre-wrap">{feedback.text}</p>
                             </div>
                         )}
+
+                        {remediation && (
+                            <div className="mt-4 p-4 rounded-xl text-left bg-primary/10 border border-primary/30 text-sm text-gray-700 dark:text-gray-300">
+                                {remediation === 'preparing'
+                                    ? 'Preparing practice steps for the criteria you keep missing...'
+                                    : 'Practice steps were added before this module. Work through them, then try this one again.'}
+                            </div>
+                        )}
+
+                        {!!selectedStep.failedReviews?.length && !remediation && (
+                            <p className="mt-4 text-xs font-mono text-gray-400">
+                                {selectedStep.failedReviews.length} failed review{selectedStep.failedReviews.length === 1 ? '' : 's'} on this module
+                            </p>
+                        )}
                     </>
                 )}
             </div>
+
+            <SubmissionTimeline history={stepHistory} />
           </div>
         )}
       </div>
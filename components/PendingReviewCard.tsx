@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { PendingReview } from '../types';
+
+interface PendingReviewCardProps {
+  review: PendingReview;
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+  showTitle?: boolean;
+}
+
+const KIND_LABELS: Record<PendingReview['kind'], string> = {
+  step: 'Path step',
+  challenge: 'Timed challenge',
+  milestone: 'Event milestone',
+};
+
+const formatWait = (seconds: number) =>
+  seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${(seconds % 60).toString().padStart(2, '0')}s`;
+
+/**
+ * A submission awaiting review after the evaluation service failed, with its retry countdown.
+ * Once automatic retries stop it says why and lets the user retry or discard it.
+ */
+const PendingReviewCard: React.FC<PendingReviewCardProps> = ({ review, onRetry, onDiscard, showTitle = true }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (review.failedAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [review.failedAt]);
+
+  const secondsLeft = Math.max(0, Math.ceil((review.nextAttemptAt - now) / 1000));
+  const tries = `${review.attempts} ${review.attempts === 1 ? 'try' : 'tries'}`;
+
+  if (review.failedAt) {
+    return (
+      <div className="flex items-start gap-3 p-4 rounded-xl text-left bg-red-500/10 border border-red-500/30">
+          <svg className="w-5 h-5 mt-0.5 flex-shrink-0 text-red-600 dark:text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z" /></svg>
+          <div className="flex-1 min-w-0">
+              <div className="font-bold text-sm text-red-700 dark:text-red-400">
+                  Could not be reviewed{showTitle && <span className="font-normal text-gray-600 dark:text-gray-300">: {review.title}</span>}
+              </div>
+              <p className="text-xs text-gray-600 dark:text-gray-300 mt-1">
+                  {showTitle && `${KIND_LABELS[review.kind]} • `}Automatic retries have stopped{review.lastError ? `: ${review.lastError}` : ''}.
+                  Retry once more, or discard the upload. Nothing has been recorded or rewarded for it.
+              </p>
+              <p className="text-xs font-mono text-gray-400 mt-1">{tries}</p>
+          </div>
+          <div className="flex flex-col gap-1.5 flex-shrink-0">
+              <button
+                  onClick={() => onRetry(review.id)}
+                  className="text-xs font-bold px-3 py-1.5 rounded-lg bg-red-500/20 text-red-700 dark:text-red-300 hover:bg-red-500/30"
+              >
+                  Retry
+              </button>
+              <button
+                  onClick={() => confirm('Discard this upload without a review?') && onDiscard(review.id)}
+                  className="text-xs px-3 py-1.5 rounded-lg text-gray-500 hover:text-gray-900 dark:hover:text-white"
+              >
+                  Discard
+              </button>
+          </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-start gap-3 p-4 rounded-xl text-left bg-yellow-500/10 border border-yellow-500/30">
+        <svg className="w-5 h-5 mt-0.5 flex-shrink-0 text-yellow-600 dark:text-yellow-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+        <div className="flex-1 min-w-0">
+            <div className="font-bold text-sm text-yellow-700 dark:text-yellow-400">
+                Awaiting review{showTitle && <span className="font-normal text-gray-600 dark:text-gray-300">: {review.title}</span>}
+            </div>
+            <p className="text-xs text-gray-600 dark:text-gray-300 mt-1">
+                {showTitle && `${KIND_LABELS[review.kind]} • `}The review service couldn't be reached, so your upload{review.kind === 'challenge' ? ' and time are' : ' is'} saved.
+                It will be graded automatically; rewards are given only once a real verdict arrives.
+            </p>
+            <p className="text-xs font-mono text-gray-400 mt-1">
+                {tries} • {secondsLeft > 0 ? `next in ${formatWait(secondsLeft)}` : 'retrying...'}
+            </p>
+        </div>
+        {secondsLeft > 0 && (
+            <button
+                onClick={() => onRetry(review.id)}
+                className="text-xs font-bold px-3 py-1.5 rounded-lg bg-yellow-500/20 text-yellow-700 dark:text-yellow-300 hover:bg-yellow-500/30 flex-shrink-0"
+            >
+                Retry Now
+            </button>
+        )}
+    </div>
+  );
+};
+
+export default PendingReviewCard;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { UserProfile } from '../types';
+
+interface ProfileSwitcherProps {
+  profiles: UserProfile[];
+  activeId: string;
+  onSwitch: (profileId: string) => void;
+  onAdd: () => void;
+}
+
+/**
+ * Sidebar menu for the profiles sharing this machine. Each profile has its own paths, XP and
+ * challenge history; the leaderboard ranks them against each other.
+ */
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, activeId, onSwitch, onAdd }) => {
+  const [open, setOpen] = useState(false);
+  const active = profiles.find(p => p.id === activeId);
+
+  const choose = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  return (
+    <div className="relative mb-4">
+        <button
+            onClick={() => setOpen(!open)}
+            title={active ? `Profile: ${active.name}` : 'Profiles'}
+            className="w-10 h-10 rounded-full bg-secondary/20 text-secondary dark:text-white font-bold hover:ring-2 hover:ring-secondary/50 transition-all"
+        >
+            {active?.name.charAt(0).toUpperCase() || '?'}
+        </button>
+
+        {open && (
+            <>
+                <div className="fixed inset-0 z-40" onClick={() => setOpen(false)}></div>
+                <div className="absolute left-full bottom-0 ml-3 z-50 w-56 bg-white dark:bg-dark-surface border border-gray-200 dark:border-white/10 rounded-xl shadow-2xl p-2">
+                    <div className="px-2 py-1 text-[10px] font-bold text-gray-500 uppercase tracking-wider">Profiles</div>
+                    {profiles.map(profile => (
+                        <button
+                            key={profile.id}
+                            onClick={() => choose(() => onSwitch(profile.id))}
+                            className={`w-full flex items-center gap-2 px-2 py-2 rounded-lg text-left text-sm ${profile.id === activeId ? 'bg-primary/10 text-primary' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-white/5'}`}
+                        >
+                            <span className="w-6 h-6 flex-shrink-0 rounded-full bg-secondary/20 text-secondary dark:text-white text-xs font-bold flex items-center justify-center">{profile.name.charAt(0).toUpperCase()}</span>
+                            <span className="min-w-0">
+                                <span className="block truncate font-medium">{profile.name}</span>
+                                <span className="block truncate text-[10px] text-gray-500">{profile.tool} • {profile.skillLevel}</span>
+                            </span>
+                        </button>
+                    ))}
+                    <button
+                        onClick={() => choose(onAdd)}
+                        className="w-full mt-1 px-2 py-2 rounded-lg text-left text-sm text-gray-500 hover:text-primary hover:bg-primary/10 border-t border-gray-100 dark:border-white/5"
+                    >
+                        + Add profile
+                    </button>
+                </div>
+            </>
+        )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
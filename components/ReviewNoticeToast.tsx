@@ -0,0 +1,41 @@
+import React, { useEffect } from 'react';
+
+export interface ReviewNotice {
+  id: string;
+  title: string;
+  passed: boolean;
+  message: string;
+}
+
+interface ReviewNoticeToastProps {
+  notice: ReviewNotice;
+  onDismiss: () => void;
+}
+
+const AUTO_DISMISS_MS = 8000;
+
+// Tells the user a queued submission finally got its verdict
+const ReviewNoticeToast: React.FC<ReviewNoticeToastProps> = ({ notice, onDismiss }) => {
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, AUTO_DISMISS_MS);
+    return () => clearTimeout(timeout);
+  }, [notice.id]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[110] animate-fade-in w-[90vw] max-w-md">
+        <button
+            onClick={onDismiss}
+            className={`w-full flex items-start gap-4 bg-white dark:bg-dark-surface border rounded-2xl px-5 py-4 shadow-2xl text-left ${notice.passed ? 'border-green-500/50 shadow-green-500/10' : 'border-red-500/50 shadow-red-500/10'}`}
+        >
+            <div className={`w-10 h-10 flex-shrink-0 rounded-full text-white flex items-center justify-center font-bold text-lg ${notice.passed ? 'bg-green-500' : 'bg-red-500'}`}>{notice.passed ? '✓' : '✕'}</div>
+            <div className="min-w-0">
+                <div className={`text-xs font-bold uppercase tracking-wider ${notice.passed ? 'text-green-600 dark:text-green-400' : 'text-red-500'}`}>Review Finished • {notice.passed ? 'Passed' : 'Not Passed'}</div>
+                <div className="font-bold text-gray-900 dark:text-white truncate">{notice.title}</div>
+                <div className="text-sm text-gray-500 dark:text-gray-400 line-clamp-2">{notice.message}</div>
+            </div>
+        </button>
+    </div>
+  );
+};
+
+export default ReviewNoticeToast;
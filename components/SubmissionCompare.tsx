@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { StepSubmission, SubmissionView } from '../types';
+import { SUBMISSION_VIEWS } from '../constants';
+import { compareSubmissions } from '../services/submissionService';
+
+interface SubmissionCompareProps {
+  history: StepSubmission[]; // One step's submissions, oldest first
+  initial: [StepSubmission, StepSubmission];
+  onClose: () => void;
+}
+
+const VERDICT_LABELS = {
+  improved: { label: 'Now passing', className: 'text-green-600 dark:text-green-400' },
+  regressed: { label: 'No longer passing', className: 'text-red-500' },
+  unchanged: { label: 'Same verdict', className: 'text-gray-500' },
+};
+
+const formatGap = (seconds: number) => {
+  if (seconds < 3600) return `${Math.max(1, Math.round(seconds / 60))} min`;
+  if (seconds < 86400) return `${Math.round(seconds / 3600)} h`;
+  return `${Math.round(seconds / 86400)} d`;
+};
+
+const SubmissionCompare: React.FC<SubmissionCompareProps> = ({ history, initial, onClose }) => {
+  const [leftId, setLeftId] = useState(initial[0].id);
+  const [rightId, setRightId] = useState(initial[1].id);
+  const [view, setView] = useState<SubmissionView | null>(null);
+
+  const left = history.find(s => s.id === leftId) || initial[0];
+  const right = history.find(s => s.id === rightId) || initial[1];
+  const { before, after, secondsBetween, verdict, criteriaChanged, views } = compareSubmissions(left, right);
+  // Both sides show the same view so angles line up; falls back to the first view either attempt has
+  const activeView = view && views.includes(view) ? view : views[0];
+
+  const imageFor = (submission: StepSubmission) => submission.images.find(i => i.view === activeView)?.dataUrl;
+
+  const renderSide = (submission: StepSubmission, selectedId: string, onSelect: (id: string) => void) => (
+    <div className="flex-1 min-w-0 flex flex-col gap-3">
+        <select
+            value={selectedId}
+            onChange={e => onSelect(e.target.value)}
+            className="w-full bg-gray-50 dark:bg-black/30 border border-gray-200 dark:border-white/10 rounded-lg px-3 py-2 text-sm text-gray-900 dark:text-white"
+        >
+            {history.map((s, i) => (
+                <option key={s.id} value={s.id}>
+                    Attempt {i + 1} - {s.passed ? 'Passed' : 'Revision Needed'} - {new Date(s.submittedAt).toLocaleString()}
+                </option>
+            ))}
+        </select>
+        <div className="bg-black rounded-xl aspect-square flex items-center justify-center overflow-hidden">
+            {imageFor(submission) ? (
+                <img src={imageFor(submission)} alt={activeView ? SUBMISSION_VIEWS[activeView].label : 'Submission'} className="w-full h-full object-contain" />
+            ) : (
+                <span className="text-gray-600 text-sm">{activeView && !submission.images.some(i => i.view === activeView) ? `No ${SUBMISSION_VIEWS[activeView].label.toLowerCase()} image in this attempt` : 'No image'}</span>
+            )}
+        </div>
+        <div className={`p-3 rounded-xl text-sm border ${submission.passed ? 'bg-green-500/10 border-green-500/30' : 'bg-red-500/10 border-red-500/30'}`}>
+            <div className={`font-bold mb-1 flex justify-between ${submission.passed ? 'text-green-600 dark:text-green-400' : 'text-red-500'}`}>
+                {submission.passed ? 'Passed' : 'Revision Needed'}
+                {submission.score !== undefined && <span className="font-mono font-normal">{submission.score}/100</span>}
+            </div>
+            <p className="text-gray-600 dark:text-gray-300 whitespace-pre-wrap">{submission.feedback}</p>
+            {submission.criteriaResults && submission.criteriaResults.length > 0 && (
+                <ul className="mt-3 space-y-1 text-xs">
+                    {submission.criteriaResults.map((r, i) => (
+                        <li key={i} className="flex gap-2 text-gray-600 dark:text-gray-300">
+                            <span className={`font-mono w-12 flex-shrink-0 ${r.verdict === 'met' ? 'text-green-600 dark:text-green-400' : r.verdict === 'partial' ? 'text-yellow-600 dark:text-yellow-400' : 'text-red-500'}`}>{r.score}</span>
+                            <span>{r.criterion}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="bg-white dark:bg-surface border border-gray-200 dark:border-white/10 rounded-2xl w-full max-w-6xl max-h-[90vh] overflow-y-auto relative p-6 shadow-2xl transition-colors duration-300">
+        <div className="flex items-start justify-between gap-4 mb-4">
+            <div>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Compare Attempts</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {before.id === after.id ? 'Same attempt on both sides' : (
+                        <>
+                            {formatGap(secondsBetween)} apart • <span className={`font-semibold ${VERDICT_LABELS[verdict].className}`}>{VERDICT_LABELS[verdict].label}</span>
+                            {criteriaChanged && ' • The step was revised between these attempts'}
+                        </>
+                    )}
+                </p>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-gray-200 dark:hover:bg-white/5 rounded-lg text-gray-500 dark:text-gray-400" aria-label="Close">
+                <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+            </button>
+        </div>
+
+        {views.length > 1 && (
+            <div className="flex flex-wrap gap-2 mb-4">
+                {views.map(v => (
+                    <button
+                        key={v}
+                        onClick={() => setView(v)}
+                        className={`text-xs font-bold px-3 py-1.5 rounded-lg transition-colors ${v === activeView ? 'bg-primary text-white' : 'bg-gray-100 dark:bg-white/5 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-white/10'}`}
+                    >
+                        {SUBMISSION_VIEWS[v].label}
+                    </button>
+                ))}
+            </div>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-6">
+            {renderSide(left, leftId, setLeftId)}
+            {renderSide(right, rightId, setRightId)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubmissionCompare;
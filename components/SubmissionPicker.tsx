@@ -0,0 +1,272 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { LabelledImage, SubmissionView, ModelSummary, DrawingSummary } from '../types';
+import { SUBMISSION_VIEWS, MAX_SUBMISSION_IMAGES } from '../constants';
+import { missingViews } from '../services/submissionService';
+import { MODEL_ACCEPT, modelFormat, analyzeModelFile, MeshParseError } from '../services/meshService';
+import { DRAWING_ACCEPT, isDrawingFile, analyzeDrawingFile, mixedDimensionLayers, svgDataUrl, DrawingParseError } from '../services/drawingService';
+
+interface SubmissionPickerProps {
+  requiredViews?: SubmissionView[];
+  requiresModel?: boolean;
+  requiresDrawing?: boolean;
+  uploading: boolean;
+  onSubmit: (images: LabelledImage[], models: ModelSummary[], drawings: DrawingSummary[]) => void;
+}
+
+interface StagedImage extends LabelledImage {
+  previewUrl: string;
+}
+
+interface StagedDrawing {
+  summary: DrawingSummary;
+  svg: string;
+}
+
+const VIEW_IDS = Object.keys(SUBMISSION_VIEWS) as SubmissionView[];
+
+// Suggest the first required view not yet covered, so the common case needs no relabelling
+const suggestView = (requiredViews: SubmissionView[], staged: LabelledImage[]): SubmissionView =>
+  missingViews(requiredViews, staged)[0] || 'perspective';
+
+// Label, value, and whether the value points at a problem
+const modelFacts = ({ stats }: ModelSummary): [string, string, boolean][] => [
+  ['Triangles', stats.triangleCount.toLocaleString(), false],
+  ['Vertices', stats.vertexCount.toLocaleString(), false],
+  ['Quads / N-gons', `${stats.quadCount} / ${stats.ngonCount}`, stats.ngonCount > 0],
+  ['Size', `${stats.dimensions.join(' × ')}${stats.unit ? ` ${stats.unit}${stats.unitAssumed ? ' (assumed)' : ''}` : ''}`, false],
+  ['Open edges', String(stats.boundaryEdges), stats.boundaryEdges > 0],
+  ['Non-manifold edges', String(stats.nonManifoldEdges), stats.nonManifoldEdges > 0],
+  ['Degenerate faces', String(stats.degenerateFaces), stats.degenerateFaces > 0],
+  ['Watertight', stats.watertight ? 'Yes' : 'No', !stats.watertight],
+];
+
+const drawingFacts = (summary: DrawingSummary): [string, string, boolean][] => {
+  const mixed = mixedDimensionLayers(summary);
+  return [
+    ['Units', summary.units || 'Not set', !summary.units],
+    ['Size', `${summary.extents.width} × ${summary.extents.height}`, false],
+    ['Layers', summary.layers.map(l => l.name).join(', '), false],
+    ['Dimensions', String(summary.dimensions.length), summary.dimensions.length === 0],
+    ['Dimension layers', mixed.length ? `Mixed with geometry on ${mixed.join(', ')}` : 'Separate', mixed.length > 0],
+  ];
+};
+
+/**
+ * Collects the labelled images, model files and DXF drawings for one step submission. Model and
+ * drawing files are read and rendered in the browser; their previews join the images. Submitting
+ * is only possible once every view (and the model or drawing, if the step needs one) is covered.
+ */
+const SubmissionPicker: React.FC<SubmissionPickerProps> = ({ requiredViews = [], requiresModel = false, requiresDrawing = false, uploading, onSubmit }) => {
+  const [staged, setStaged] = useState<StagedImage[]>([]);
+  const [models, setModels] = useState<ModelSummary[]>([]);
+  const [drawings, setDrawings] = useState<StagedDrawing[]>([]);
+  const [analyzing, setAnalyzing] = useState(0);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const stagedRef = useRef(staged);
+  stagedRef.current = staged;
+
+  // Previews are object URLs; release whatever is still staged when the picker goes away
+  useEffect(() => () => stagedRef.current.forEach(image => URL.revokeObjectURL(image.previewUrl)), []);
+
+  const handleAdd = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    const imageFiles = files.filter(file => !modelFormat(file) && !isDrawingFile(file));
+    files.filter(file => modelFormat(file)).forEach(addModel);
+    files.filter(isDrawingFile).forEach(addDrawing);
+
+    const next = [...staged];
+    for (const file of imageFiles.slice(0, MAX_SUBMISSION_IMAGES - staged.length)) {
+      next.push({ file, view: suggestView(requiredViews, next), previewUrl: URL.createObjectURL(file) });
+    }
+    setStaged(next);
+  };
+
+  const addModel = async (file: File) => {
+    setFileError(null);
+    setAnalyzing(n => n + 1);
+    try {
+      const { summary, previews } = await analyzeModelFile(file);
+      const rendered = previews.map(preview => ({ ...preview, previewUrl: URL.createObjectURL(preview.file) }));
+      setModels(prev => [...prev.filter(m => m.fileName !== summary.fileName), summary]);
+      setStaged(prev => [...prev.filter(image => image.source !== file.name), ...rendered]);
+    } catch (err) {
+      console.error("Couldn't read model file:", err);
+      setFileError(err instanceof MeshParseError ? err.message : `Couldn't read ${file.name}.`);
+    } finally {
+      setAnalyzing(n => n - 1);
+    }
+  };
+
+  const addDrawing = async (file: File) => {
+    setFileError(null);
+    setAnalyzing(n => n + 1);
+    try {
+      const { summary, svg, preview } = await analyzeDrawingFile(file);
+      const rendered = { ...preview, previewUrl: URL.createObjectURL(preview.file) };
+      setDrawings(prev => [...prev.filter(d => d.summary.fileName !== summary.fileName), { summary, svg }]);
+      setStaged(prev => [...prev.filter(image => image.source !== file.name), rendered]);
+    } catch (err) {
+      console.error("Couldn't read drawing file:", err);
+      setFileError(err instanceof DrawingParseError ? err.message : `Couldn't read ${file.name}.`);
+    } finally {
+      setAnalyzing(n => n - 1);
+    }
+  };
+
+  // Drops a model or drawing together with the previews rendered from it
+  const removeSource = (fileName: string) => {
+    staged.filter(image => image.source === fileName).forEach(image => URL.revokeObjectURL(image.previewUrl));
+    setStaged(prev => prev.filter(image => image.source !== fileName));
+    setModels(prev => prev.filter(m => m.fileName !== fileName));
+    setDrawings(prev => prev.filter(d => d.summary.fileName !== fileName));
+  };
+
+  const setView = (index: number, view: SubmissionView) =>
+    setStaged(prev => prev.map((image, i) => i === index ? { ...image, view } : image));
+
+  const remove = (index: number) => {
+    URL.revokeObjectURL(staged[index].previewUrl);
+    setStaged(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const missing = missingViews(requiredViews, staged);
+  const modelMissing = requiresModel && models.length === 0;
+  const drawingMissing = requiresDrawing && drawings.length === 0;
+  const canSubmit = staged.length > 0 && missing.length === 0 && !modelMissing && !drawingMissing && !uploading && analyzing === 0;
+
+  return (
+    <div className="space-y-4">
+        {requiredViews.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-2">
+                <span className="text-xs text-gray-500 dark:text-gray-400 self-center">Required views:</span>
+                {requiredViews.map(view => (
+                    <span
+                        key={view}
+                        title={SUBMISSION_VIEWS[view].hint}
+                        className={`text-xs font-bold px-2 py-1 rounded-full border ${missing.includes(view) ? 'border-gray-300 dark:border-white/20 text-gray-500' : 'border-green-500/40 bg-green-500/10 text-green-600 dark:text-green-400'}`}
+                    >
+                        {missing.includes(view) ? '' : '✓ '}{SUBMISSION_VIEWS[view].label}
+                    </span>
+                ))}
+            </div>
+        )}
+
+        {requiresModel && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">This step is checked against measured geometry: attach the model file (OBJ, STL, glTF or GLB).</p>
+        )}
+        {requiresDrawing && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">This step checks layers, dimensions and units: attach the drawing as a DXF file.</p>
+        )}
+
+        {models.map(model => (
+            <div key={model.fileName} className="relative text-left p-4 rounded-xl border border-primary/30 bg-primary/5">
+                <button
+                    onClick={() => removeSource(model.fileName)}
+                    disabled={uploading}
+                    className="absolute top-2 right-2 w-6 h-6 rounded-full bg-black/10 dark:bg-white/10 text-xs hover:bg-red-500 hover:text-white"
+                    aria-label={`Remove ${model.fileName}`}
+                >
+                    ✕
+                </button>
+                <div className="font-semibold text-sm text-gray-900 dark:text-white mb-2">{model.fileName}</div>
+                <dl className="grid grid-cols-2 sm:grid-cols-4 gap-x-4 gap-y-1 text-xs">
+                    {modelFacts(model).map(([label, value, warn]) => (
+                        <div key={label}>
+                            <dt className="text-gray-400">{label}</dt>
+                            <dd className={`font-mono ${warn ? 'text-red-500' : 'text-gray-700 dark:text-gray-200'}`}>{value}</dd>
+                        </div>
+                    ))}
+                </dl>
+            </div>
+        ))}
+
+        {drawings.map(({ summary, svg }) => (
+            <div key={summary.fileName} className="relative text-left p-4 rounded-xl border border-primary/30 bg-primary/5">
+                <button
+                    onClick={() => removeSource(summary.fileName)}
+                    disabled={uploading}
+                    className="absolute top-2 right-2 w-6 h-6 rounded-full bg-black/10 dark:bg-white/10 text-xs hover:bg-red-500 hover:text-white"
+                    aria-label={`Remove ${summary.fileName}`}
+                >
+                    ✕
+                </button>
+                <div className="font-semibold text-sm text-gray-900 dark:text-white mb-2">{summary.fileName}</div>
+                <img src={svgDataUrl(svg)} alt={`Drawing ${summary.fileName}`} className="w-full max-h-80 object-contain rounded-lg bg-white mb-3" />
+                <dl className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-1 text-xs">
+                    {drawingFacts(summary).map(([label, value, warn]) => (
+                        <div key={label}>
+                            <dt className="text-gray-400">{label}</dt>
+                            <dd className={`font-mono break-words ${warn ? 'text-red-500' : 'text-gray-700 dark:text-gray-200'}`}>{value}</dd>
+                        </div>
+                    ))}
+                </dl>
+            </div>
+        ))}
+
+        {staged.length > 0 && (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-left">
+                {staged.map((image, index) => (
+                    <div key={image.previewUrl} className="relative rounded-xl overflow-hidden border border-gray-200 dark:border-white/10 bg-white dark:bg-dark-surface">
+                        <img src={image.previewUrl} alt={SUBMISSION_VIEWS[image.view].label} className="w-full h-28 object-cover bg-black" />
+                        <button
+                            onClick={() => remove(index)}
+                            disabled={uploading}
+                            className="absolute top-1 right-1 w-6 h-6 rounded-full bg-black/60 text-white text-xs hover:bg-red-500"
+                            aria-label="Remove image"
+                        >
+                            ✕
+                        </button>
+                        <select
+                            value={image.view}
+                            onChange={e => setView(index, e.target.value as SubmissionView)}
+                            disabled={uploading}
+                            className="w-full bg-transparent px-2 py-1.5 text-xs text-gray-900 dark:text-white border-t border-gray-200 dark:border-white/10"
+                        >
+                            {VIEW_IDS.map(view => (
+                                <option key={view} value={view}>{SUBMISSION_VIEWS[view].label}</option>
+                            ))}
+                        </select>
+                    </div>
+                ))}
+            </div>
+        )}
+
+        <div className="flex flex-wrap justify-center gap-3">
+            {staged.length < MAX_SUBMISSION_IMAGES && (
+                <label className={`cursor-pointer bg-white dark:bg-white/5 border border-gray-200 dark:border-white/10 hover:border-primary text-gray-700 dark:text-gray-200 font-bold py-3 px-6 rounded-xl transition-all flex items-center gap-2 ${uploading ? 'opacity-50 pointer-events-none' : ''}`}>
+                    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="17 8 12 3 7 8"></polyline><line x1="12" y1="3" x2="12" y2="15"></line></svg>
+                    {staged.length ? 'Add More Files' : 'Add Images, Model or Drawing'}
+                    <input type="file" className="hidden" accept={`image/*,${MODEL_ACCEPT},${DRAWING_ACCEPT}`} multiple onChange={handleAdd} disabled={uploading} />
+                </label>
+            )}
+            {staged.length > 0 && (
+                <button
+                    onClick={() => onSubmit(staged.map(({ previewUrl, ...image }) => image), models, drawings.map(d => d.summary))}
+                    disabled={!canSubmit}
+                    className="bg-primary hover:bg-primaryDark text-white font-bold py-3 px-6 rounded-xl shadow-lg shadow-primary/20 transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {uploading ? (
+                        <>
+                            <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24" fill="none"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+                            Analyzing Work...
+                        </>
+                    ) : `Submit ${staged.length} Image${staged.length === 1 ? '' : 's'}`}
+                </button>
+            )}
+        </div>
+
+        {analyzing > 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 animate-pulse">Reading and rendering files...</p>
+        )}
+        {fileError && <p className="text-xs text-red-500">{fileError}</p>}
+        {(missing.length > 0 || modelMissing || drawingMissing) && staged.length > 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+                Still needed: {[...missing.map(view => SUBMISSION_VIEWS[view].label), ...(modelMissing ? ['a model file (OBJ, STL, glTF or GLB)'] : []), ...(drawingMissing ? ['a DXF drawing'] : [])].join(', ')}
+            </p>
+        )}
+    </div>
+  );
+};
+
+export default SubmissionPicker;
@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { StepSubmission } from '../types';
+import { SUBMISSION_VIEWS } from '../constants';
+import { defaultComparison } from '../services/submissionService';
+import SubmissionCompare from './SubmissionCompare';
+
+interface SubmissionTimelineProps {
+  history: StepSubmission[]; // One step's submissions, oldest first
+}
+
+const formatDate = (at: number) =>
+  new Date(at).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const SubmissionTimeline: React.FC<SubmissionTimelineProps> = ({ history }) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparing, setComparing] = useState<[StepSubmission, StepSubmission] | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const stepId = history[0]?.stepId;
+  useEffect(() => {
+      setSelected([]);
+      setComparing(null);
+      setExpanded(null);
+  }, [stepId]);
+
+  if (history.length === 0) return null;
+
+  // Keeps at most two picks; a third replaces the older pick
+  const toggle = (id: string) =>
+      setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id].slice(-2));
+
+  const openCompare = () => {
+      const picked = history.filter(s => selected.includes(s.id));
+      const pair = picked.length === 2 ? [picked[0], picked[1]] as [StepSubmission, StepSubmission] : defaultComparison(history);
+      if (pair) setComparing(pair);
+  };
+
+  return (
+    <div className="mt-8 text-left">
+        <div className="flex items-center justify-between mb-3">
+            <h4 className="text-sm font-bold text-gray-500 uppercase tracking-wider">Submission History</h4>
+            {history.length >= 2 && (
+                <button
+                    onClick={openCompare}
+                    className="text-xs font-bold px-3 py-1.5 rounded-lg bg-primary/10 text-primary hover:bg-primary/20 transition-colors"
+                >
+                    {selected.length === 2 ? 'Compare Selected' : 'Compare Latest Two'}
+                </button>
+            )}
+        </div>
+        {history.length >= 2 && (
+            <p className="text-xs text-gray-400 mb-3">Tick two attempts to compare them side by side.</p>
+        )}
+
+        <ol className="relative border-l-2 border-gray-200 dark:border-white/10 ml-3 space-y-4">
+            {[...history].reverse().map(submission => {
+                const attemptNumber = history.indexOf(submission) + 1;
+                const isExpanded = expanded === submission.id;
+                return (
+                    <li key={submission.id} className="ml-6">
+                        <span className={`absolute -left-[9px] w-4 h-4 rounded-full border-2 border-white dark:border-dark-background ${submission.passed ? 'bg-green-500' : 'bg-red-500'}`}></span>
+                        <div className="flex gap-4 p-3 rounded-xl border border-gray-100 dark:border-white/5 bg-gray-50 dark:bg-white/5">
+                            {history.length >= 2 && (
+                                <input
+                                    type="checkbox"
+                                    checked={selected.includes(submission.id)}
+                                    onChange={() => toggle(submission.id)}
+                                    className="mt-1 accent-primary"
+                                    aria-label={`Select attempt ${attemptNumber} for comparison`}
+                                />
+                            )}
+                            {submission.images[0]?.dataUrl ? (
+                                <div className="relative w-20 h-20 flex-shrink-0">
+                                    <img src={submission.images[0].dataUrl} alt={`Attempt ${attemptNumber}`} className="w-20 h-20 object-cover rounded-lg bg-gray-200 dark:bg-white/10" />
+                                    {submission.images.length > 1 && (
+                                        <span className="absolute bottom-1 right-1 text-[10px] font-bold px-1.5 rounded bg-black/70 text-white">+{submission.images.length - 1}</span>
+                                    )}
+                                </div>
+                            ) : (
+                                <div className="w-20 h-20 rounded-lg flex-shrink-0 bg-gray-200 dark:bg-white/10 flex items-center justify-center text-xs text-gray-400">No image</div>
+                            )}
+                            <div className="flex-1 min-w-0">
+                                <div className="flex items-center gap-2 flex-wrap">
+                                    <span className="font-semibold text-sm text-gray-900 dark:text-white">Attempt {attemptNumber}</span>
+                                    <span className={`text-xs font-bold px-2 py-0.5 rounded ${submission.passed ? 'bg-green-500/10 text-green-600 dark:text-green-400' : 'bg-red-500/10 text-red-500'}`}>
+                                        {submission.passed ? 'Passed' : 'Revision Needed'}
+                                    </span>
+                                    {submission.score !== undefined && <span className="text-xs font-mono text-gray-500">{submission.score}/100</span>}
+                                    <span className="text-xs text-gray-400 font-mono">{formatDate(submission.submittedAt)}</span>
+                                </div>
+                                {submission.images.length > 1 && (
+                                    <div className="text-xs text-gray-400 mt-0.5">{submission.images.map(image => SUBMISSION_VIEWS[image.view].label).join(' • ')}</div>
+                                )}
+                                {submission.models?.map(model => (
+                                    <div key={model.fileName} className="text-xs text-gray-400 mt-0.5 font-mono">
+                                        {model.fileName}: {model.stats.triangleCount.toLocaleString()} tris • {model.stats.watertight ? 'watertight' : 'not watertight'}
+                                    </div>
+                                ))}
+                                {submission.drawings?.map(drawing => (
+                                    <div key={drawing.fileName} className="text-xs text-gray-400 mt-0.5 font-mono">
+                                        {drawing.fileName}: {drawing.layers.length} layers • {drawing.dimensions.length} dimensions • {drawing.units || 'no units'}
+                                    </div>
+                                ))}
+                                <p className={`text-sm text-gray-600 dark:text-gray-300 mt-1 whitespace-pre-wrap ${isExpanded ? '' : 'line-clamp-2'}`}>{submission.feedback}</p>
+                                <button
+                                    onClick={() => setExpanded(isExpanded ? null : submission.id)}
+                                    className="text-xs text-primary mt-1 hover:underline"
+                                >
+                                    {isExpanded ? 'Show less' : 'Show full feedback'}
+                                </button>
+                            </div>
+                        </div>
+                    </li>
+                );
+            })}
+        </ol>
+
+        {comparing && (
+            <SubmissionCompare
+                history={history}
+                initial={comparing}
+                onClose={() => setComparing(null)}
+            />
+        )}
+    </div>
+  );
+};
+
+export default SubmissionTimeline;
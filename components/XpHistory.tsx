@@ -0,0 +1,49 @@
+import React from 'react';
+import { XpEntry, XpSource } from '../types';
+
+interface XpHistoryProps {
+  ledger: XpEntry[];
+  limit?: number;
+}
+
+const SOURCE_STYLES: Record<XpSource, { label: string; className: string }> = {
+  step: { label: 'Module', className: 'bg-primary/10 text-primary' },
+  challenge: { label: 'Challenge', className: 'bg-accent/20 text-yellow-600 dark:text-yellow-400' },
+  bonus: { label: 'Bonus', className: 'bg-green-500/10 text-green-600 dark:text-green-400' },
+  penalty: { label: 'Penalty', className: 'bg-red-500/10 text-red-500' },
+};
+
+const formatWhen = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+const XpHistory: React.FC<XpHistoryProps> = ({ ledger, limit = 6 }) => {
+  const recent = [...ledger].sort((a, b) => b.at - a.at).slice(0, limit);
+
+  if (recent.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No XP earned yet. Complete a module or challenge to get started.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100 dark:divide-white/5">
+        {recent.map(entry => (
+            <li key={entry.id} className="flex items-center gap-3 py-2">
+                <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded ${SOURCE_STYLES[entry.source].className}`}>
+                    {SOURCE_STYLES[entry.source].label}
+                </span>
+                <span className="flex-1 text-sm text-gray-700 dark:text-gray-300 truncate" title={entry.reason}>{entry.reason}</span>
+                <span className="text-xs text-gray-400 font-mono">{formatWhen(entry.at)}</span>
+                <span className={`w-16 text-right font-mono font-bold text-sm ${entry.amount < 0 ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>
+                    {entry.amount > 0 ? '+' : ''}{entry.amount}
+                </span>
+            </li>
+        ))}
+    </ul>
+  );
+};
+
+export default XpHistory;
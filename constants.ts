@@ -1,3 +1,5 @@
+import { SubmissionView } from './types';
+
 // Models
 export const MODEL_FAST = 'gemini-2.5-flash';
 export const MODEL_REASONING = 'gemini-3-pro-preview';
@@ -7,12 +9,112 @@ export const MODEL_IMAGE_GEN = 'gemini-2.5-flash-image'; // Nano Banana
 export const MAX_THINKING_BUDGET = 32768; // Max for Pro
 export const FLASH_THINKING_BUDGET = 0; // Disable thinking for fast tasks
 
+// Streaks
+export const STREAK_FREEZE_INTERVAL = 7; // Earn a freeze for every 7 consecutive active days
+export const MAX_STREAK_FREEZES = 2;
+
+// Step submissions: labelled views a reviewer can ask for, and how many images one submission may hold
+export const SUBMISSION_VIEWS: Record<SubmissionView, { label: string; hint: string }> = {
+  front: { label: 'Front', hint: 'Orthographic front view' },
+  side: { label: 'Side', hint: 'Orthographic side view' },
+  top: { label: 'Top', hint: 'Orthographic top view' },
+  perspective: { label: 'Perspective', hint: 'Three-quarter perspective view' },
+  wireframe: { label: 'Wireframe', hint: 'Wireframe or topology overlay' },
+  render: { label: 'Final Render', hint: 'Lit, shaded final render' },
+  detail: { label: 'Detail', hint: 'Close-up of a specific area' },
+  drawing: { label: 'Drawing', hint: '2D CAD drawing sheet' },
+};
+export const MAX_SUBMISSION_IMAGES = 6;
+
+// Step reviews: a submission passes when the mean criterion score reaches passScore
+// and no more than maxUnmet criteria are judged unmet
+export const REVIEW_RUBRIC = {
+  passScore: 70,
+  maxUnmet: 0,
+};
+
+// Daily challenge
+export const DAILY_CHALLENGE_REROLLS = 1; // Per day, only before the challenge is started
+
+// Adaptive teaching: after this many failed reviews on a step, practice steps are generated before it
+export const REMEDIAL_STEPS = {
+  afterFailures: 3,
+  maxSteps: 3,
+  xpShare: 0.25, // Each practice step is worth this share of the failing step's XP
+};
+
+// Timed challenge scoring (see scoringService). A finish after the bronze cutoff earns nothing.
+export const CHALLENGE_SCORING = {
+  xpPerScorePoint: 10,
+  tierMultipliers: { GOLD: 1.5, SILVER: 1.2, BRONZE: 1.0, FAIL: 0 },
+  timeBonusPerMinute: 5, // For each full minute left before the bronze cutoff
+  hintPenaltySeconds: 120,
+  hintPenaltyXp: 50,
+};
+
+// Challenge grading: the model's score is blended with a local image comparison (see similarityService).
+// A submission passes when the model passes it and the blended score reaches passScore.
+export const IMAGE_SIMILARITY = {
+  size: 128, // Images are compared on a size x size square
+  histogramBins: 4, // Per RGB channel
+  weights: { silhouette: 0.3, edges: 0.25, color: 0.2, structure: 0.25 },
+  aiWeight: 0.6,
+  passScore: 60,
+};
+
+// Pending reviews: evaluations that failed are retried after baseDelaySeconds, doubling up to maxDelaySeconds
+export const REVIEW_RETRY = {
+  baseDelaySeconds: 30,
+  maxDelaySeconds: 30 * 60,
+  maxAttempts: 8, // About an hour of automatic retries before the user is asked what to do
+};
+
+// Copilot system context: total size, and caps for the parts that can grow long
+export const CHAT_CONTEXT_LIMITS = {
+  maxChars: 4000,
+  maxItemChars: 300, // Each criterion, mini-step or criterion comment
+  maxDetailedSteps: 12,
+  maxFeedbackChars: 1200,
+};
+
+// Copilot answer rendering: answers longer than collapseAfterChars fold their headed sections,
+// and code blocks over collapseCodeLines start folded
+export const CHAT_MARKDOWN_LIMITS = {
+  collapseAfterChars: 1500,
+  collapseCodeLines: 25,
+};
+
+// Pausing timed challenges. Time beyond maxPauseSeconds in a single pause counts as play time again.
+export const CHALLENGE_PAUSE_RULES = {
+  ranked: { maxPauses: 0, maxPauseSeconds: 0 },
+  practice: { maxPauses: 3, maxPauseSeconds: 15 * 60 },
+};
+
+// Multi-session challenge events. XP is assigned locally so rewards stay consistent whatever the model returns.
+export const EVENT_FORMATS = {
+  weekly: { label: 'Weekly', milestones: 3, xpPerMilestone: 300, completionBonus: 600 },
+  monthly: { label: 'Monthly', milestones: 4, xpPerMilestone: 600, completionBonus: 2000 },
+  seasonal: { label: 'Seasonal', milestones: 5, xpPerMilestone: 1000, completionBonus: 5000 },
+};
+
+// Extra XP for a high average milestone score, as a share of the event's completion bonus
+export const EVENT_SCORE_BONUSES = [
+  { minScore: 95, share: 1.0 },
+  { minScore: 85, share: 0.5 },
+  { minScore: 75, share: 0.25 },
+];
+
+// Leveling: total XP needed to reach level n is LEVEL_CURVE.base * (n - 1) ^ LEVEL_CURVE.exponent
+export const LEVEL_CURVE = { base: 500, exponent: 1.5 };
+
 // Prompts
 export const SYSTEM_INSTRUCTION_MENTOR = `You are Artifex, an expert AI mentor for CAD, 3D Modeling, and Digital Art. 
 Your goal is to help users master tools like Blender, Maya, AutoCAD, SolidWorks, and ZBrush.
 You are encouraging, precise, and technical when needed.
 When guiding a user, assume they want to learn industry-standard workflows.
-Always keep answers concise unless asked for a deep dive.`;
+Always keep answers concise unless asked for a deep dive.
+Format answers in Markdown. Put scripts in fenced code blocks tagged with their language (python for Blender Python, autolisp for AutoLISP).
+Write keyboard shortcuts as <kbd>Ctrl</kbd>+<kbd>R</kbd>. Use tables for comparisons and ## headings to split long answers into sections.`;
 
 export const SYSTEM_INSTRUCTION_REVIEWER = `You are a strict but constructive art and engineering critic. 
 You analyze images of user submissions against specific criteria.
@@ -0,0 +1,117 @@
+import { ActivityLog, ActivityKind, StreakSummary } from "../types";
+import { STREAK_FREEZE_INTERVAL, MAX_STREAK_FREEZES } from "../constants";
+
+export const EMPTY_ACTIVITY_LOG: ActivityLog = { entries: [], freezeTokens: 0, frozenDays: [] };
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// --- Calendar helpers (local time, so "a day" matches the user's wall clock) ---
+
+export const toDayKey = (date: Date): string => {
+  const y = date.getFullYear();
+  const m = (date.getMonth() + 1).toString().padStart(2, '0');
+  const d = date.getDate().toString().padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+export const fromDayKey = (key: string): Date => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const addDays = (key: string, days: number): string => {
+  const date = fromDayKey(key);
+  date.setDate(date.getDate() + days);
+  return toDayKey(date);
+};
+
+// Rounded so DST transitions (23h / 25h days) still count as one day
+const daysBetween = (from: string, to: string) =>
+  Math.round((fromDayKey(to).getTime() - fromDayKey(from).getTime()) / MS_PER_DAY);
+
+// --- Streaks ---
+
+/**
+ * Spends freeze tokens on the days missed since the last covered day, up to yesterday.
+ * If the gap is larger than the available tokens the streak is broken and tokens are kept.
+ */
+export const applyStreakFreezes = (log: ActivityLog, now: Date = new Date()): ActivityLog => {
+  const today = toDayKey(now);
+  const covered = [...log.entries.map(e => e.day), ...log.frozenDays].filter(d => d < today).sort();
+  const lastCovered = covered[covered.length - 1];
+  if (!lastCovered) return log;
+
+  const missed = daysBetween(lastCovered, today) - 1;
+  if (missed <= 0 || missed > log.freezeTokens) return log;
+
+  const newlyFrozen = Array.from({ length: missed }, (_, i) => addDays(lastCovered, i + 1));
+  return {
+    ...log,
+    freezeTokens: log.freezeTokens - missed,
+    frozenDays: [...log.frozenDays, ...newlyFrozen],
+  };
+};
+
+/**
+ * Frozen days bridge a streak but don't lengthen it; only active days are counted.
+ * A streak is still "current" if the last active day was yesterday.
+ */
+export const computeStreak = (log: ActivityLog, now: Date = new Date()): StreakSummary => {
+  const today = toDayKey(now);
+  const activeDays = new Set(log.entries.map(e => e.day));
+  const frozenDays = new Set(log.frozenDays);
+  const isCovered = (day: string) => activeDays.has(day) || frozenDays.has(day);
+
+  let current = 0;
+  let cursor = isCovered(today) ? today : addDays(today, -1);
+  while (isCovered(cursor)) {
+    if (activeDays.has(cursor)) current++;
+    cursor = addDays(cursor, -1);
+  }
+
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+  for (const day of [...new Set([...activeDays, ...frozenDays])].sort()) {
+    if (previous && daysBetween(previous, day) !== 1) run = 0;
+    if (activeDays.has(day)) run++;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+
+  return {
+    current,
+    longest: Math.max(longest, current),
+    activeToday: activeDays.has(today),
+    freezeTokens: log.freezeTokens,
+  };
+};
+
+/**
+ * Appends a qualifying action for today. The first action of a day that completes
+ * another STREAK_FREEZE_INTERVAL days earns a freeze token.
+ */
+export const recordActivity = (log: ActivityLog, kind: ActivityKind, now: Date = new Date()): ActivityLog => {
+  const withFreezes = applyStreakFreezes(log, now);
+  const wasActiveToday = computeStreak(withFreezes, now).activeToday;
+
+  const updated: ActivityLog = {
+    ...withFreezes,
+    entries: [...withFreezes.entries, { day: toDayKey(now), kind, at: now.getTime() }],
+  };
+
+  if (!wasActiveToday) {
+    const { current } = computeStreak(updated, now);
+    if (current > 0 && current % STREAK_FREEZE_INTERVAL === 0 && updated.freezeTokens < MAX_STREAK_FREEZES) {
+      updated.freezeTokens += 1;
+    }
+  }
+
+  return updated;
+};
+
+export const countActivityByDay = (log: ActivityLog): Map<string, number> => {
+  const counts = new Map<string, number>();
+  log.entries.forEach(e => counts.set(e.day, (counts.get(e.day) || 0) + 1));
+  return counts;
+};
@@ -0,0 +1,78 @@
+import { Validator } from "./schema";
+import { LearningPath, GeneratedStep, StepRevisionRequest, RemedialStepsRequest, Challenge, ChallengeMilestone, EventKind, ReviewResult, ReviewRequest, ChallengeEvaluation, VisualizeRequest, VisualizeResult, ReferenceImage } from "../types";
+
+export interface ChatInput {
+  text: string;
+  imageDataUrl?: string; // Optional pasted image (full data URL)
+}
+
+// An earlier turn, replayed when a saved conversation is reopened
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+  imageDataUrl?: string;
+}
+
+// Something the model may ask the app to do; arguments are described and checked by `parameters`
+export interface ChatActionDefinition {
+  name: string;
+  description: string;
+  parameters: Validator<Record<string, unknown>>;
+}
+
+export interface ChatActionCall {
+  id?: string; // Echoed back with the result when the vendor uses call ids
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ChatActionResult {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export type ChatEvent =
+  | { kind: 'text'; text: string }
+  | { kind: 'action'; call: ChatActionCall };
+
+export interface ChatSessionOptions {
+  history?: ChatTurn[];
+  systemContext?: string; // The user's current work, added to the mentor instructions (see chatContextService)
+  actions?: ChatActionDefinition[]; // App actions the model may call (see copilotActionService)
+}
+
+/**
+ * A stateful conversation. Each call continues the same thread and streams the model's reply
+ * back as text chunks and action calls. Calls are answered with `sendActionResults`, which
+ * streams the rest of the reply.
+ */
+export interface ChatSession {
+  sendMessageStream: (input: ChatInput) => AsyncIterable<ChatEvent>;
+  sendActionResults: (results: ChatActionResult[]) => AsyncIterable<ChatEvent>;
+}
+
+/**
+ * Everything the app needs from a model vendor.
+ * Components never talk to an SDK directly; they go through the active provider (see aiService).
+ */
+export interface AIProvider {
+  name: string;
+  generateLearningPath: (domain: string, tool: string, goal: string, level: string) => Promise<LearningPath>;
+  reviseStep: (request: StepRevisionRequest) => Promise<GeneratedStep[]>;
+  generateRemedialSteps: (request: RemedialStepsRequest) => Promise<GeneratedStep[]>;
+  // Graders reject when no real verdict could be reached; callers queue the submission (see reviewQueueService)
+  reviewSubmission: (request: ReviewRequest) => Promise<ReviewResult>;
+  generateDailyChallenge: (domain: string, tool: string, skillLevel: string) => Promise<Challenge>;
+  generateEventChallenge: (kind: EventKind, domain: string, tool: string, skillLevel: string) => Promise<Challenge>;
+  // Judged against the reference image, or against the description alone when it is a placeholder.
+  // An event milestone other than the last is judged against its own brief instead.
+  evaluateChallengeSubmission: (challenge: Challenge, userImageFile: File, milestone?: ChallengeMilestone) => Promise<ChallengeEvaluation>;
+  editImage: (base64Image: string, prompt: string) => Promise<string>;
+  generateHint: (tool: string, challenge: Challenge) => Promise<string>;
+  // Always resolves; a labelled placeholder, flagged as such, if generation isn't available
+  generateReferenceImage: (imagePrompt: string, title: string) => Promise<ReferenceImage>;
+  // Explanatory image for a concept; rejects when no image could be generated
+  visualizeConcept: (request: VisualizeRequest) => Promise<VisualizeResult>;
+  createChatSession: (options?: ChatSessionOptions) => ChatSession;
+}
@@ -0,0 +1,55 @@
+import { AIProvider } from "./aiProvider";
+import { geminiProvider } from "./geminiService";
+import { fakeProvider } from "./fakeProvider";
+
+/**
+ * Picks the backend from AI_PROVIDER ('gemini' | 'fake').
+ * Without an explicit choice we fall back to the offline provider when no API key is configured.
+ */
+const resolveProvider = (): AIProvider => {
+  const configured = process.env.AI_PROVIDER;
+  if (configured === 'fake') return fakeProvider;
+  if (configured === 'gemini') return geminiProvider;
+
+  if (!process.env.API_KEY) {
+    console.warn("No API_KEY configured, using the offline AI provider.");
+    return fakeProvider;
+  }
+  return geminiProvider;
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) activeProvider = resolveProvider();
+  return activeProvider;
+};
+
+// Swap the backend at runtime (e.g. tests or an offline demo toggle)
+export const setAIProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
+
+// Entry points used by components. They resolve the provider on every call so a swap takes effect immediately.
+
+export const generateLearningPath: AIProvider['generateLearningPath'] = (...args) => getAIProvider().generateLearningPath(...args);
+
+export const reviseStep: AIProvider['reviseStep'] = (...args) => getAIProvider().reviseStep(...args);
+
+export const generateRemedialSteps: AIProvider['generateRemedialSteps'] = (...args) => getAIProvider().generateRemedialSteps(...args);
+
+export const reviewSubmission: AIProvider['reviewSubmission'] = (...args) => getAIProvider().reviewSubmission(...args);
+
+export const generateDailyChallenge: AIProvider['generateDailyChallenge'] = (...args) => getAIProvider().generateDailyChallenge(...args);
+
+export const generateEventChallenge: AIProvider['generateEventChallenge'] = (...args) => getAIProvider().generateEventChallenge(...args);
+
+export const evaluateChallengeSubmission: AIProvider['evaluateChallengeSubmission'] = (...args) => getAIProvider().evaluateChallengeSubmission(...args);
+
+export const editImage: AIProvider['editImage'] = (...args) => getAIProvider().editImage(...args);
+
+export const generateHint: AIProvider['generateHint'] = (...args) => getAIProvider().generateHint(...args);
+export const generateReferenceImage: AIProvider['generateReferenceImage'] = (...args) => getAIProvider().generateReferenceImage(...args);
+export const visualizeConcept: AIProvider['visualizeConcept'] = (...args) => getAIProvider().visualizeConcept(...args);
+
+export const createChatSession: AIProvider['createChatSession'] = (...args) => getAIProvider().createChatSession(...args);
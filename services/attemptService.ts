@@ -0,0 +1,143 @@
+import { Challenge, ChallengeAttempt, ChallengeAttemptReport, ChallengeTier, UserProfile } from "../types";
+
+export const TIERS: ChallengeTier[] = ['GOLD', 'SILVER', 'BRONZE', 'FAIL'];
+
+const THUMBNAIL_SIZE = 160;
+
+// Tier for a session that has run `totalSeconds` (elapsed plus penalties)
+export const tierForTime = (challenge: Challenge, totalSeconds: number): ChallengeTier => {
+  const minutes = totalSeconds / 60;
+  if (minutes <= challenge.goldTime) return 'GOLD';
+  if (minutes <= challenge.silverTime) return 'SILVER';
+  if (minutes <= challenge.bronzeTime) return 'BRONZE';
+  return 'FAIL';
+};
+
+export const attemptSeconds = (attempt: Pick<ChallengeAttempt, 'elapsedSeconds' | 'penaltySeconds'>) =>
+  attempt.elapsedSeconds + attempt.penaltySeconds;
+
+/**
+ * Downscales a submitted image to a small JPEG data URL so history stays light in IndexedDB.
+ * Resolves to undefined when the file can't be decoded.
+ */
+export const createThumbnail = async (file: Blob, size: number = THUMBNAIL_SIZE): Promise<string | undefined> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, size / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (error) {
+    console.warn("Could not create submission thumbnail:", error);
+    return undefined;
+  }
+};
+
+export const createAttempt = async (
+  user: UserProfile,
+  challenge: Challenge,
+  report: ChallengeAttemptReport,
+  xpEarned: number,
+  now: number = Date.now()
+): Promise<ChallengeAttempt> => ({
+  id: `attempt-${now}-${Math.random().toString(36).slice(2, 8)}`,
+  profileId: user.id,
+  profileName: user.name,
+  challenge,
+  outcome: report.outcome,
+  ranked: report.ranked,
+  startedAt: report.startedAt,
+  finishedAt: now,
+  elapsedSeconds: report.elapsedSeconds,
+  penaltySeconds: report.penaltySeconds,
+  hintsUsed: report.hintsUsed,
+  tier: report.tier,
+  score: report.evaluation?.score,
+  feedback: report.evaluation?.feedback,
+  thumbnailDataUrl: report.submission ? await createThumbnail(report.submission) : undefined,
+  xpEarned,
+});
+
+export interface ThemeBest {
+  theme: string;
+  attempts: number;
+  bestScore: number | null;
+  bestScoreAttempt: ChallengeAttempt | null;
+  fastestSeconds: number | null; // Fastest completed run, penalties included
+}
+
+/**
+ * Personal bests grouped by challenge theme. Only completed attempts count towards bests,
+ * but every attempt counts towards the total.
+ */
+export const personalBestsByTheme = (attempts: ChallengeAttempt[]): ThemeBest[] => {
+  const byTheme = new Map<string, ThemeBest>();
+
+  for (const attempt of attempts) {
+    const theme = attempt.challenge.theme;
+    const best = byTheme.get(theme) || { theme, attempts: 0, bestScore: null, bestScoreAttempt: null, fastestSeconds: null };
+    best.attempts++;
+
+    if (attempt.outcome === 'completed') {
+      if (attempt.score !== undefined && (best.bestScore === null || attempt.score > best.bestScore)) {
+        best.bestScore = attempt.score;
+        best.bestScoreAttempt = attempt;
+      }
+      const seconds = attemptSeconds(attempt);
+      if (best.fastestSeconds === null || seconds < best.fastestSeconds) best.fastestSeconds = seconds;
+    }
+    byTheme.set(theme, best);
+  }
+
+  return [...byTheme.values()].sort((a, b) => (b.bestScore ?? -1) - (a.bestScore ?? -1));
+};
+
+// How many completed attempts finished in each tier
+export const tierDistribution = (attempts: ChallengeAttempt[]): Record<ChallengeTier, number> => {
+  const counts: Record<ChallengeTier, number> = { GOLD: 0, SILVER: 0, BRONZE: 0, FAIL: 0 };
+  attempts.filter(a => a.outcome === 'completed').forEach(a => { counts[a.tier]++; });
+  return counts;
+};
+
+export interface LeaderboardRow {
+  profileId: string;
+  profileName: string;
+  medals: Record<ChallengeTier, number>;
+  completed: number;
+  bestScore: number | null;
+  fastestSeconds: number | null;
+}
+
+/**
+ * Ranks every profile that has attempts on this machine, medal-table style:
+ * golds first, then silvers, then bronzes, then best score. Practice runs are left out.
+ */
+export const buildLeaderboard = (attempts: ChallengeAttempt[]): LeaderboardRow[] => {
+  const byProfile = new Map<string, ChallengeAttempt[]>();
+  attempts.filter(a => a.ranked !== false).forEach(a => byProfile.set(a.profileId, [...(byProfile.get(a.profileId) || []), a]));
+
+  const rows = [...byProfile.entries()].map(([profileId, list]): LeaderboardRow => {
+    const completed = list.filter(a => a.outcome === 'completed');
+    const scores = completed.map(a => a.score).filter((s): s is number => s !== undefined);
+    const times = completed.map(attemptSeconds);
+    return {
+      profileId,
+      // Latest name, in case the profile was renamed
+      profileName: list.reduce((latest, a) => a.finishedAt > latest.finishedAt ? a : latest).profileName,
+      medals: tierDistribution(list),
+      completed: completed.length,
+      bestScore: scores.length ? Math.max(...scores) : null,
+      fastestSeconds: times.length ? Math.min(...times) : null,
+    };
+  });
+
+  return rows.sort((a, b) =>
+    b.medals.GOLD - a.medals.GOLD ||
+    b.medals.SILVER - a.medals.SILVER ||
+    b.medals.BRONZE - a.medals.BRONZE ||
+    (b.bestScore ?? -1) - (a.bestScore ?? -1)
+  );
+};
@@ -0,0 +1,78 @@
+import { Challenge, ChallengeSession, ChallengeEvaluation } from "../types";
+import { CHALLENGE_PAUSE_RULES, CHALLENGE_SCORING } from "../constants";
+
+export type PauseRules = typeof CHALLENGE_PAUSE_RULES.ranked;
+
+export const startSession = (challenge: Challenge, ranked: boolean, now: number = Date.now()): ChallengeSession => ({
+  challenge,
+  ranked,
+  startedAt: now,
+  pauses: [],
+  penaltySeconds: 0,
+  hints: [],
+});
+
+export const pauseRulesFor = (session: ChallengeSession, rules = CHALLENGE_PAUSE_RULES): PauseRules =>
+  session.ranked ? rules.ranked : rules.practice;
+
+const currentPause = (session: ChallengeSession) => {
+  const last = session.pauses[session.pauses.length - 1];
+  return last && last.until === null ? last : null;
+};
+
+export const isPaused = (session: ChallengeSession) => currentPause(session) !== null;
+
+export const canPause = (session: ChallengeSession, rules: PauseRules = pauseRulesFor(session)) =>
+  !isPaused(session) && session.pauses.length < rules.maxPauses;
+
+// Only the allowed part of each pause stops the clock
+const pausedMs = (session: ChallengeSession, now: number, rules: PauseRules) =>
+  session.pauses.reduce((sum, p) => sum + Math.min((p.until ?? now) - p.at, rules.maxPauseSeconds * 1000), 0);
+
+/**
+ * Play time in whole seconds, derived from timestamps rather than counted ticks
+ * so throttled timers and reloads don't lose time.
+ */
+export const elapsedSeconds = (session: ChallengeSession, now: number = Date.now(), rules: PauseRules = pauseRulesFor(session)) =>
+  Math.max(0, Math.floor((now - session.startedAt - pausedMs(session, now, rules)) / 1000));
+
+// Seconds left in the ongoing pause before the clock starts again on its own
+export const pauseSecondsLeft = (session: ChallengeSession, now: number = Date.now(), rules: PauseRules = pauseRulesFor(session)) => {
+  const pause = currentPause(session);
+  return pause ? Math.max(0, Math.ceil((pause.at + rules.maxPauseSeconds * 1000 - now) / 1000)) : 0;
+};
+
+export const pauseSession = (session: ChallengeSession, now: number = Date.now()): ChallengeSession =>
+  canPause(session) ? { ...session, pauses: [...session.pauses, { at: now, until: null }] } : session;
+
+/**
+ * Ends the ongoing pause. A pause that ran past its limit is closed at the limit,
+ * matching how elapsedSeconds already counted it.
+ */
+export const resumeSession = (session: ChallengeSession, now: number = Date.now(), rules: PauseRules = pauseRulesFor(session)): ChallengeSession => {
+  const pause = currentPause(session);
+  if (!pause) return session;
+  const until = Math.min(now, pause.at + rules.maxPauseSeconds * 1000);
+  return { ...session, pauses: [...session.pauses.slice(0, -1), { ...pause, until }] };
+};
+
+// The time penalty is applied when the hint is requested, before the text arrives
+export const addHintPenalty = (session: ChallengeSession, seconds: number = CHALLENGE_SCORING.hintPenaltySeconds): ChallengeSession => ({
+  ...session,
+  penaltySeconds: session.penaltySeconds + seconds,
+});
+
+export const addHint = (session: ChallengeSession, hint: string): ChallengeSession => ({
+  ...session,
+  hints: [...session.hints, hint],
+});
+
+export const recordSubmission = (
+  session: ChallengeSession,
+  evaluation: ChallengeEvaluation,
+  file: File,
+  clock: { elapsedSeconds: number; penaltySeconds: number; hintsUsed: number }
+): ChallengeSession => ({
+  ...session,
+  submission: { evaluation, file, ...clock },
+});
@@ -0,0 +1,110 @@
+import { UserProfile, LearningPath, Step, StepSubmission, Domain, SkillLevel, CriterionResult } from "../types";
+import { CHAT_CONTEXT_LIMITS } from "../constants";
+import { submissionsForStep } from "./submissionService";
+
+/**
+ * What the Copilot knows about the user's current work. Sent once per chat session as system
+ * context, and the session is rebuilt (keeping its history) whenever this changes.
+ */
+export interface CopilotContext {
+  tool: string;
+  domain?: Domain;
+  skillLevel?: SkillLevel;
+  pathId?: string;
+  pathTitle?: string;
+  otherPathTitles?: string[]; // So the Copilot can open steps elsewhere
+  stepId?: string;
+  stepTitle?: string;
+  stepDescription?: string;
+  criteria?: string[];
+  detailedSteps?: string[];
+  doneDetailedSteps?: number[];
+  lastReview?: {
+    passed: boolean;
+    score?: number;
+    feedback: string;
+    submittedAt: number;
+    openCriteria: CriterionResult[]; // Criteria judged partial or unmet
+  };
+}
+
+export const buildCopilotContext = (
+  user: UserProfile | null,
+  paths: LearningPath[],
+  path: LearningPath | null,
+  step: Step | undefined,
+  submissions: StepSubmission[]
+): CopilotContext => {
+  const latest = path && step ? submissionsForStep(submissions, path.id, step.id).pop() : undefined;
+  return {
+    tool: user?.tool || 'General',
+    domain: user?.domain,
+    skillLevel: user?.skillLevel,
+    pathId: path?.id,
+    pathTitle: path?.title,
+    otherPathTitles: paths.filter(p => p.id !== path?.id).map(p => p.title),
+    stepId: step?.id,
+    stepTitle: step?.title,
+    stepDescription: step?.description,
+    criteria: step?.criteria,
+    detailedSteps: step?.detailedSteps,
+    doneDetailedSteps: step?.doneDetailedSteps,
+    lastReview: latest && {
+      passed: latest.passed,
+      score: latest.score,
+      feedback: latest.feedback,
+      submittedAt: latest.submittedAt,
+      openCriteria: (latest.criteriaResults || []).filter(c => c.verdict !== 'met'),
+    },
+  };
+};
+
+const clip = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+const list = (items: string[], max: number) => items.map((item, i) => `${i + 1}. ${clip(item, max)}`).join('\n');
+
+/**
+ * Renders the context as system instructions within CHAT_CONTEXT_LIMITS. When the whole picture
+ * doesn't fit, the least useful parts are dropped first: the mini-steps, then the per-criterion
+ * comments, then the criteria themselves.
+ */
+export const formatCopilotContext = (context: CopilotContext, limits = CHAT_CONTEXT_LIMITS): string => {
+  const { tool, domain, skillLevel, pathTitle, otherPathTitles = [], stepTitle, stepDescription, criteria = [], detailedSteps = [], doneDetailedSteps = [], lastReview } = context;
+  const learner = [
+    `Tool: ${tool}`,
+    domain && `Domain: ${domain}`,
+    skillLevel && `Skill level: ${skillLevel}`,
+    pathTitle && `Learning path: ${pathTitle}`,
+    otherPathTitles.length && `Other learning paths: ${otherPathTitles.map(t => clip(t, limits.maxItemChars)).join('; ')}`,
+  ].filter(Boolean).join('\n');
+
+  // Most important first; later sections are dropped to fit
+  const sections: string[] = [`[LEARNER]\n${learner}`];
+  if (stepTitle) {
+    sections.push(`[CURRENT MODULE]\n${stepTitle}\n${clip(stepDescription || '', limits.maxItemChars * 2)}`);
+  }
+  if (lastReview) {
+    const verdict = `${lastReview.passed ? 'Passed' : 'Revision needed'}${lastReview.score !== undefined ? ` (${lastReview.score}/100)` : ''}`;
+    sections.push(`[LAST REVIEW] ${verdict}, ${new Date(lastReview.submittedAt).toLocaleString()}\n${clip(lastReview.feedback, limits.maxFeedbackChars)}`);
+  }
+  if (criteria.length) sections.push(`[SUCCESS CRITERIA]\n${list(criteria, limits.maxItemChars)}`);
+  if (lastReview?.openCriteria.length) {
+    sections.push(`[CRITERIA NOT YET MET]\n${lastReview.openCriteria.map(c => `- ${clip(c.criterion, limits.maxItemChars)} (${c.verdict}, ${c.score}/100): ${clip(c.comment, limits.maxItemChars)}`).join('\n')}`);
+  }
+  if (detailedSteps.length) {
+    const shown = detailedSteps.slice(0, limits.maxDetailedSteps).map((text, i) => doneDetailedSteps.includes(i) ? `(done) ${text}` : text);
+    const more = detailedSteps.length - shown.length;
+    sections.push(`[MINI-STEPS]\n${list(shown, limits.maxItemChars)}${more > 0 ? `\n(${more} more)` : ''}`);
+  }
+
+  const header = `The user is working on the following. Use it to ground your answers; when they ask about "the review" or "the feedback", they mean the last review below.`;
+  const footer = `Give specific advice for ${tool}.`;
+  const render = (parts: string[]) => [header, ...parts, footer].join('\n\n');
+
+  let text = render(sections);
+  while (text.length > limits.maxChars && sections.length > 1) {
+    sections.pop();
+    text = render(sections);
+  }
+  return clip(text, limits.maxChars);
+};
@@ -0,0 +1,141 @@
+import { ChatThread, ChatMessage } from "../types";
+import { ChatTurn } from "./aiProvider";
+import { findVersion } from "./imageEditService";
+
+// What a new thread is attached to; taken from the Copilot context when it is started
+export interface ChatScope {
+  tool: string;
+  pathId?: string;
+  stepId?: string;
+  scopeLabel: string;
+}
+
+export interface ThreadSearchHit {
+  thread: ChatThread;
+  message: ChatMessage;
+  snippet: string;
+}
+
+const TITLE_LENGTH = 60;
+const SNIPPET_RADIUS = 60;
+
+export const GREETING = "Hi! I'm Artifex. I see what you're working on. How can I help you with this step?";
+
+export const createThread = (scope: ChatScope, now: number = Date.now()): ChatThread => ({
+  id: `thread-${now}-${Math.random().toString(36).slice(2, 8)}`,
+  title: 'New conversation',
+  ...scope,
+  createdAt: now,
+  updatedAt: now,
+  messages: [{ id: 'init', role: 'model', text: GREETING, timestamp: now, offThread: true }],
+});
+
+// Only threads with a question in them are worth keeping
+export const hasQuestions = (thread: ChatThread) => thread.messages.some(m => m.role === 'user');
+
+/**
+ * Replaces the thread's messages; the first question becomes the title.
+ */
+export const updateThreadMessages = (thread: ChatThread, messages: ChatMessage[], now: number = Date.now()): ChatThread => {
+  const firstQuestion = messages.find(m => m.role === 'user' && m.text.trim());
+  const title = firstQuestion
+    ? firstQuestion.text.trim().replace(/\s+/g, ' ')
+    : messages.some(m => m.role === 'user') ? 'Image question' : thread.title;
+  return {
+    ...thread,
+    title: title.length > TITLE_LENGTH ? `${title.slice(0, TITLE_LENGTH - 1)}…` : title,
+    messages,
+    updatedAt: now,
+  };
+};
+
+// Threads for the given context: the step's own first, then the rest of the path, then general ones
+export const threadsForScope = (threads: ChatThread[], pathId?: string, stepId?: string) => {
+  const rank = (t: ChatThread) => (stepId && t.stepId === stepId ? 0 : pathId && t.pathId === pathId ? 1 : !t.pathId ? 2 : 3);
+  return [...threads].sort((a, b) => rank(a) - rank(b) || b.updatedAt - a.updatedAt);
+};
+
+// Most recent thread started from exactly this step (or path, or general context)
+export const latestThreadFor = (threads: ChatThread[], pathId?: string, stepId?: string) =>
+  threads
+    .filter(t => t.pathId === pathId && t.stepId === stepId)
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+
+const snippetAround = (text: string, index: number, length: number) => {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * Full-text search over every saved message. A message matches when it contains all the query's
+ * words (case-insensitive); results are newest first, at most one per message.
+ */
+export const searchThreads = (threads: ChatThread[], query: string): ThreadSearchHit[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!terms.length) return [];
+
+  const hits: ThreadSearchHit[] = [];
+  for (const thread of threads) {
+    for (const message of thread.messages) {
+      if (message.id === 'init') continue;
+      const haystack = message.text.toLowerCase();
+      if (!terms.every(term => haystack.includes(term))) continue;
+      hits.push({ thread, message, snippet: snippetAround(message.text, haystack.indexOf(terms[0]), terms[0].length) });
+    }
+  }
+  return hits.sort((a, b) => b.message.timestamp - a.message.timestamp);
+};
+
+/**
+ * The conversation as the model saw it, for restoring a reopened thread. Image edits and error
+ * notices never reached the chat session, and the history has to open with a user turn.
+ */
+export const historyForThread = (thread: ChatThread): ChatTurn[] => {
+  const turns: ChatTurn[] = thread.messages
+    .filter(m => !m.offThread && (m.text || m.imageUrl))
+    .map(m => ({ role: m.role, text: m.text, imageDataUrl: m.role === 'user' ? m.imageUrl : undefined }));
+  const start = turns.findIndex(t => t.role === 'user');
+  return start === -1 ? [] : turns.slice(start);
+};
+
+/**
+ * Image edits reference a version in the thread's edit sessions rather than holding the image.
+ * A follow-up edit request points at the version it starts from, which is already shown above
+ * it, so user turns only show the pasted original.
+ */
+export const messageImage = (thread: ChatThread, message: ChatMessage): string | undefined => {
+  if (message.imageUrl) return message.imageUrl;
+  const found = findVersion(thread.editSessions, message.imageVersion);
+  return found && (message.role === 'model' || !found.version.parentId) ? found.version.imageUrl : undefined;
+};
+
+const formatDate = (at: number) => new Date(at).toLocaleString();
+
+export const threadToMarkdown = (thread: ChatThread): string => {
+  const lines = [
+    `# ${thread.title}`,
+    '',
+    `- Tool: ${thread.tool}`,
+    `- Context: ${thread.scopeLabel}`,
+    `- Started: ${formatDate(thread.createdAt)}`,
+    `- Last message: ${formatDate(thread.updatedAt)}`,
+  ];
+  for (const message of thread.messages) {
+    if (message.id === 'init') continue;
+    if (message.action) {
+      lines.push('', `> **Action** (${message.action.status}): ${message.action.summary}`);
+      if (message.imageUrl) lines.push('', `![${message.action.summary}](${message.imageUrl})`);
+      if (message.text) lines.push('', message.text);
+      continue;
+    }
+    lines.push('', `## ${message.role === 'user' ? 'You' : 'Artifex'} (${formatDate(message.timestamp)})`, '');
+    const imageUrl = messageImage(thread, message);
+    if (imageUrl) lines.push(`![${message.role === 'user' ? 'Attached image' : 'Generated image'}](${imageUrl})`, '');
+    if (message.text) lines.push(message.text);
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+export const threadFileName = (thread: ChatThread) =>
+  `${thread.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'conversation'}.md`;
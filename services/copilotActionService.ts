@@ -0,0 +1,129 @@
+import * as s from "./schema";
+import { LearningPath, Step, ChatActionStatus } from "../types";
+import { ChatActionCall, ChatActionDefinition } from "./aiProvider";
+
+/**
+ * App actions the Copilot can call. Each is declared to the model with its parameter schema;
+ * the same schema checks the arguments that come back. Actions that change saved state are
+ * only run after the user confirms them in the chat.
+ */
+
+const stepRef = s.optional(s.string('Step title, step id, or its 1-based position in the path. Omit for the current step.'));
+const pathRef = s.optional(s.string('Learning path title or id. Omit for the current path.'));
+
+const openStepParams = s.object({ path: pathRef, step: stepRef });
+const showStepHintParams = s.object({ path: pathRef, step: stepRef });
+const newDailyChallengeParams = s.object({});
+const generateReferenceImageParams = s.object({
+  subject: s.string('What the image should show, described for an image model'),
+  title: s.optional(s.string('Short caption for the image')),
+});
+const visualizeConceptParams = s.object({
+  description: s.string('The idea to explain visually: what the diagram should show and what it should make clear'),
+});
+const completeMiniStepParams = s.object({
+  path: pathRef,
+  step: stepRef,
+  miniStep: s.number({ min: 1, integer: true, description: '1-based number of the mini-step in the step-by-step guide' }),
+  done: s.withDefault(s.boolean('False to untick a mini-step'), true),
+});
+
+export const COPILOT_ACTIONS = {
+  open_step: {
+    description: 'Open a step of one of the user\'s learning paths in the app.',
+    parameters: openStepParams,
+    changesState: false,
+  },
+  show_step_hint: {
+    description: 'Open a step and expand its step-by-step guide. Returns the mini-steps and which are done.',
+    parameters: showStepHintParams,
+    changesState: false,
+  },
+  new_daily_challenge: {
+    description: 'Generate today\'s daily challenge, or replace it with a new one if it exists and hasn\'t been started (uses a reroll). Opens the challenge preview.',
+    parameters: newDailyChallengeParams,
+    changesState: true,
+  },
+  generate_reference_image: {
+    description: 'Generate a reference image (concept, pose, lighting or shape study) and show it in the chat.',
+    parameters: generateReferenceImageParams,
+    changesState: false,
+  },
+  visualize_concept: {
+    description: 'Draw an explanatory diagram or annotated sketch and show it in the chat. Use it on your own initiative when a picture would explain something better than words: topology and edge flow, proportions, lighting setups, node graphs, before/after comparisons.',
+    parameters: visualizeConceptParams,
+    changesState: false,
+  },
+  complete_mini_step: {
+    description: 'Tick off (or untick) a mini-step in a step\'s step-by-step guide.',
+    parameters: completeMiniStepParams,
+    changesState: true,
+  },
+};
+
+export type CopilotActionName = keyof typeof COPILOT_ACTIONS;
+
+export type CopilotAction = {
+  [N in CopilotActionName]: { name: N; args: s.Infer<typeof COPILOT_ACTIONS[N]['parameters']> }
+}[CopilotActionName];
+
+// What running an action produced: shown as a card in the chat and sent back to the model
+export interface CopilotActionOutcome {
+  status: Exclude<ChatActionStatus, 'awaiting'>;
+  summary: string;
+  response: { ok: boolean; message: string } & Record<string, unknown>;
+  imageUrl?: string;
+  caption?: string; // Explanation shown under a generated diagram
+}
+
+export const copilotActionDefinitions = (): ChatActionDefinition[] =>
+  (Object.keys(COPILOT_ACTIONS) as CopilotActionName[]).map(name => ({
+    name,
+    description: COPILOT_ACTIONS[name].description,
+    parameters: COPILOT_ACTIONS[name].parameters,
+  }));
+
+const isActionName = (name: string): name is CopilotActionName => Object.prototype.hasOwnProperty.call(COPILOT_ACTIONS, name);
+
+export const parseCopilotAction = (call: ChatActionCall): CopilotAction | { error: string } => {
+  if (!isActionName(call.name)) return { error: `Unknown action "${call.name}"` };
+  const { value, issues } = s.validate(COPILOT_ACTIONS[call.name].parameters, call.args);
+  if (issues.length) return { error: `Invalid arguments: ${s.formatIssues(issues)}` };
+  return { name: call.name, args: value } as CopilotAction;
+};
+
+export const actionFailed = (summary: string, message: string): CopilotActionOutcome =>
+  ({ status: 'failed', summary, response: { ok: false, message } });
+
+export const actionDeclined = (summary: string): CopilotActionOutcome =>
+  ({ status: 'declined', summary, response: { ok: false, message: 'The user declined this action.' } });
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+// Exact id or title first, then a title containing the reference
+const findByRef = <T extends { id: string; title: string }>(items: T[], ref: string): T | undefined => {
+  const wanted = normalize(ref);
+  return items.find(item => item.id === ref || normalize(item.title) === wanted)
+    || items.find(item => normalize(item.title).includes(wanted));
+};
+
+/**
+ * Resolves the path and step a model refers to. Missing references fall back to the current
+ * path and its active step.
+ */
+export const resolveStep = (
+  paths: LearningPath[],
+  currentPath: LearningPath | null,
+  pathRef?: string,
+  ref?: string
+): { path: LearningPath; step: Step } | { error: string } => {
+  const path = pathRef ? findByRef(paths, pathRef) : currentPath;
+  if (!path) return { error: pathRef ? `No learning path matches "${pathRef}"` : 'No learning path is open' };
+
+  const position = ref && /^\d+$/.test(ref.trim()) ? parseInt(ref, 10) : null;
+  const step = position !== null
+    ? path.steps[position - 1]
+    : ref ? findByRef(path.steps, ref) : path.steps.find(st => st.status === 'active') || path.steps[0];
+  if (!step) return { error: `No step in "${path.title}" matches "${ref}"` };
+  return { path, step };
+};
@@ -0,0 +1,40 @@
+import { DailyChallengeRecord, ChallengeStatus, UserProfile } from "../types";
+import { DAILY_CHALLENGE_REROLLS } from "../constants";
+import { generateDailyChallenge } from "./aiService";
+import { toDayKey, addDays, fromDayKey } from "./activityService";
+
+const STATUS_ORDER: ChallengeStatus[] = ['new', 'attempted', 'completed'];
+
+export const isCurrentDaily = (record: DailyChallengeRecord | null, now: Date = new Date()): record is DailyChallengeRecord =>
+  !!record && record.day === toDayKey(now);
+
+export const remainingRerolls = (record: DailyChallengeRecord) =>
+  Math.max(0, DAILY_CHALLENGE_REROLLS - record.rerollsUsed);
+
+// Rerolling is only allowed before the challenge has been started
+export const canReroll = (record: DailyChallengeRecord) =>
+  record.status === 'new' && remainingRerolls(record) > 0;
+
+/**
+ * Generates today's challenge (text + reference image). Pass the current record when rerolling
+ * so the reroll count carries over.
+ */
+export const createDailyChallenge = async (user: UserProfile, previous?: DailyChallengeRecord, now: Date = new Date()): Promise<DailyChallengeRecord> => {
+  const day = toDayKey(now);
+  const generated = await generateDailyChallenge(user.domain, user.tool, user.skillLevel);
+  const startsAt = fromDayKey(day).getTime();
+  const expiresAt = fromDayKey(addDays(day, 1)).getTime();
+
+  return {
+    day,
+    challenge: { ...generated, kind: 'daily', startsAt, endsAt: expiresAt },
+    generatedAt: now.getTime(),
+    expiresAt,
+    status: 'new',
+    rerollsUsed: previous && previous.day === day ? previous.rerollsUsed + 1 : 0,
+  };
+};
+
+// Status only moves forward (a completed challenge stays completed)
+export const advanceDailyStatus = (record: DailyChallengeRecord, status: ChallengeStatus): DailyChallengeRecord =>
+  STATUS_ORDER.indexOf(status) > STATUS_ORDER.indexOf(record.status) ? { ...record, status } : record;
@@ -0,0 +1,456 @@
+import { DrawingSummary, DrawingLayer, DrawingDimension, DimensionKind, LabelledImage } from "../types";
+
+/**
+ * In-browser reading of ASCII DXF drawings. Extracts layers, entities, dimension annotations
+ * and units for the reviewer, and renders the drawing to SVG (and a PNG for the model).
+ */
+
+export class DrawingParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DrawingParseError';
+  }
+}
+
+export const DRAWING_ACCEPT = '.dxf';
+
+export const isDrawingFile = (file: File) => /\.dxf$/i.test(file.name);
+
+// $INSUNITS values
+const INSUNITS: Record<number, string> = {
+  1: 'in', 2: 'ft', 3: 'mi', 4: 'mm', 5: 'cm', 6: 'm', 7: 'km', 8: 'µin', 9: 'mil', 10: 'yd', 13: 'µm', 14: 'dm',
+};
+
+// Low three bits of the DIMENSION type flag
+const DIMENSION_KINDS: DimensionKind[] = ['linear', 'aligned', 'angular', 'diameter', 'radius', 'angular', 'ordinate'];
+
+// The first AutoCAD Color Index entries; everything else draws in the default ink
+const ACI_COLORS: Record<number, string> = { 1: '#dc2626', 2: '#ca8a04', 3: '#16a34a', 4: '#0891b2', 5: '#2563eb', 6: '#c026d3', 8: '#6b7280', 9: '#9ca3af' };
+const DEFAULT_INK = '#111827';
+
+// Entity types that may share a layer with dimensions
+const ANNOTATION_TYPES = new Set(['DIMENSION', 'TEXT', 'MTEXT', 'LEADER', 'MULTILEADER', 'TOLERANCE']);
+
+const RASTER_SIZE = 1024;
+const MAX_PROMPT_DIMENSIONS = 60;
+const MAX_PROMPT_TEXTS = 30;
+const MAX_INSERT_DEPTH = 8;
+
+// --- Group codes ---
+
+type Group = [number, string];
+
+interface Entity {
+  type: string;
+  layer: string;
+  groups: Group[];
+  vertices?: Entity[]; // POLYLINE children
+}
+
+const readGroups = (text: string): Group[] => {
+  const lines = text.split(/\r?\n/);
+  const groups: Group[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i].trim(), 10);
+    if (Number.isNaN(code)) throw new DrawingParseError(`Unreadable group code on line ${i + 1}; only ASCII DXF is supported`);
+    groups.push([code, lines[i + 1].trim()]);
+  }
+  return groups;
+};
+
+const value = (entity: Entity, code: number) => entity.groups.find(([c]) => c === code)?.[1];
+const num = (entity: Entity, code: number, fallback = 0) => {
+  const n = parseFloat(value(entity, code) ?? '');
+  return Number.isFinite(n) ? n : fallback;
+};
+const all = (entity: Entity, code: number) => entity.groups.filter(([c]) => c === code).map(([, v]) => v);
+
+// Splits a run of groups into entities, folding POLYLINE vertices into their parent
+const readEntities = (groups: Group[]): Entity[] => {
+  const entities: Entity[] = [];
+  let current: Entity | null = null;
+  let polyline: Entity | null = null;
+
+  for (const [code, val] of groups) {
+    if (code === 0) {
+      if (val === 'VERTEX' && polyline) {
+        current = { type: val, layer: polyline.layer, groups: [] };
+        polyline.vertices!.push(current);
+        continue;
+      }
+      if (val === 'SEQEND') {
+        polyline = null;
+        current = null;
+        continue;
+      }
+      current = { type: val, layer: '0', groups: [] };
+      entities.push(current);
+      polyline = val === 'POLYLINE' ? Object.assign(current, { vertices: [] }) : null;
+      continue;
+    }
+    if (!current) continue;
+    if (code === 8) current.layer = val;
+    current.groups.push([code, val]);
+  }
+  return entities;
+};
+
+interface ParsedDrawing {
+  header: Record<string, Group[]>;
+  layers: Entity[];
+  blocks: Map<string, { base: [number, number]; entities: Entity[] }>;
+  entities: Entity[];
+}
+
+const parseDxf = (text: string): ParsedDrawing => {
+  const groups = readGroups(text);
+  const drawing: ParsedDrawing = { header: {}, layers: [], blocks: new Map(), entities: [] };
+  let sawSection = false;
+
+  for (let i = 0; i < groups.length; i++) {
+    if (groups[i][0] !== 0 || groups[i][1] !== 'SECTION') continue;
+    sawSection = true;
+    const name = groups[i + 1]?.[1];
+    let end = i + 2;
+    while (end < groups.length && !(groups[end][0] === 0 && groups[end][1] === 'ENDSEC')) end++;
+    const body = groups.slice(i + 2, end);
+
+    if (name === 'HEADER') {
+      let variable = '';
+      for (const group of body) {
+        if (group[0] === 9) drawing.header[variable = group[1]] = [];
+        else if (variable) drawing.header[variable].push(group);
+      }
+    } else if (name === 'TABLES') {
+      drawing.layers = readEntities(body).filter(e => e.type === 'LAYER');
+    } else if (name === 'BLOCKS') {
+      let block: { name: string; base: [number, number]; entities: Entity[] } | null = null;
+      for (const entity of readEntities(body)) {
+        if (entity.type === 'BLOCK') {
+          block = { name: value(entity, 2) || '', base: [num(entity, 10), num(entity, 20)], entities: [] };
+          drawing.blocks.set(block.name, block);
+        } else if (entity.type === 'ENDBLK') {
+          block = null;
+        } else if (block) {
+          block.entities.push(entity);
+        }
+      }
+    } else if (name === 'ENTITIES') {
+      drawing.entities = readEntities(body);
+    }
+    i = end;
+  }
+
+  if (!sawSection) throw new DrawingParseError('Not a DXF file (no sections found)');
+  return drawing;
+};
+
+// --- Geometry ---
+
+type Point = [number, number];
+
+type Primitive =
+  | { kind: 'polyline'; layer: string; points: Point[]; closed: boolean }
+  | { kind: 'circle'; layer: string; center: Point; radius: number }
+  | { kind: 'text'; layer: string; at: Point; height: number; rotation: number; text: string };
+
+// Maps block-local coordinates into the drawing: scale, rotate, then move to the insertion point
+interface Transform {
+  apply: (p: Point) => Point;
+  scale: number;
+  rotation: number; // Degrees
+}
+
+const IDENTITY: Transform = { apply: p => p, scale: 1, rotation: 0 };
+
+const compose = (outer: Transform, base: Point, insert: Point, sx: number, sy: number, rotation: number): Transform => {
+  const r = rotation * Math.PI / 180;
+  return {
+    apply: ([x, y]) => {
+      const lx = (x - base[0]) * sx;
+      const ly = (y - base[1]) * sy;
+      return outer.apply([insert[0] + lx * Math.cos(r) - ly * Math.sin(r), insert[1] + lx * Math.sin(r) + ly * Math.cos(r)]);
+    },
+    scale: outer.scale * Math.abs(sx),
+    rotation: outer.rotation + rotation,
+  };
+};
+
+const arcPoints = (center: Point, radius: number, start: number, end: number, transform: Transform): Point[] => {
+  let sweep = end - start;
+  if (sweep <= 0) sweep += 360; // DXF arcs run counter-clockwise from start to end
+  const steps = Math.max(8, Math.ceil(sweep / 6));
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const a = (start + sweep * i / steps) * Math.PI / 180;
+    return transform.apply([center[0] + radius * Math.cos(a), center[1] + radius * Math.sin(a)]);
+  });
+};
+
+// Drops MTEXT formatting codes such as \P (paragraph) and {\fArial;...}
+const plainText = (text: string) =>
+  text.replace(/\\P/g, ' ').replace(/\\[A-Za-z][^;\\{}]*;/g, '').replace(/[{}]/g, '').replace(/\\/g, '').trim();
+
+const toPrimitives = (entities: Entity[], drawing: ParsedDrawing, transform: Transform, depth: number, out: Primitive[], inheritedLayer?: string) => {
+  for (const entity of entities) {
+    // Block contents on layer 0 take the layer of the insert that places them
+    const layer = entity.layer === '0' && inheritedLayer ? inheritedLayer : entity.layer;
+    const p = (xCode: number): Point => transform.apply([num(entity, xCode), num(entity, xCode + 10)]);
+
+    switch (entity.type) {
+      case 'LINE':
+        out.push({ kind: 'polyline', layer, points: [p(10), p(11)], closed: false });
+        break;
+      case 'CIRCLE':
+        out.push({ kind: 'circle', layer, center: p(10), radius: num(entity, 40) * transform.scale });
+        break;
+      case 'ARC':
+        out.push({ kind: 'polyline', layer, closed: false, points: arcPoints([num(entity, 10), num(entity, 20)], num(entity, 40), num(entity, 50), num(entity, 51), transform) });
+        break;
+      case 'LWPOLYLINE': {
+        const xs = all(entity, 10).map(Number);
+        const ys = all(entity, 20).map(Number);
+        out.push({ kind: 'polyline', layer, closed: (num(entity, 70) & 1) === 1, points: xs.map((x, i) => transform.apply([x, ys[i] ?? 0])) });
+        break;
+      }
+      case 'POLYLINE':
+        out.push({ kind: 'polyline', layer, closed: (num(entity, 70) & 1) === 1, points: (entity.vertices || []).map(v => transform.apply([num(v, 10), num(v, 20)])) });
+        break;
+      case 'ELLIPSE': {
+        const center: Point = [num(entity, 10), num(entity, 20)];
+        const major: Point = [num(entity, 11), num(entity, 21)];
+        const ratio = num(entity, 40, 1);
+        const start = num(entity, 41, 0);
+        let end = num(entity, 42, Math.PI * 2);
+        if (end <= start) end += Math.PI * 2;
+        const steps = 48;
+        out.push({
+          kind: 'polyline', layer, closed: false,
+          points: Array.from({ length: steps + 1 }, (_, i) => {
+            const t = start + (end - start) * i / steps;
+            return transform.apply([
+              center[0] + major[0] * Math.cos(t) - major[1] * ratio * Math.sin(t),
+              center[1] + major[1] * Math.cos(t) + major[0] * ratio * Math.sin(t),
+            ]);
+          }),
+        });
+        break;
+      }
+      case 'SPLINE': {
+        // Fit points when present, otherwise the control polygon: close enough for a review preview
+        const fit = all(entity, 11).length ? [11, 21] : [10, 20];
+        const xs = all(entity, fit[0]).map(Number);
+        const ys = all(entity, fit[1]).map(Number);
+        out.push({ kind: 'polyline', layer, closed: false, points: xs.map((x, i) => transform.apply([x, ys[i] ?? 0])) });
+        break;
+      }
+      case 'POINT':
+        out.push({ kind: 'circle', layer, center: p(10), radius: 0 });
+        break;
+      case 'TEXT':
+      case 'MTEXT': {
+        const text = plainText([...all(entity, 3), value(entity, 1) || ''].join(''));
+        if (text) out.push({ kind: 'text', layer, at: p(10), height: num(entity, 40, 2.5) * transform.scale, rotation: num(entity, 50) + transform.rotation, text });
+        break;
+      }
+      case 'INSERT':
+      case 'DIMENSION': {
+        const block = drawing.blocks.get(value(entity, 2) || '');
+        if (block && depth < MAX_INSERT_DEPTH) {
+          const nested = entity.type === 'INSERT'
+            ? compose(transform, block.base, [num(entity, 10), num(entity, 20)], num(entity, 41, 1), num(entity, 42, 1), num(entity, 50))
+            : transform; // Dimension blocks are already in drawing coordinates
+          toPrimitives(block.entities, drawing, nested, depth + 1, out, layer);
+        } else if (entity.type === 'DIMENSION') {
+          const label = dimensionLabel(entity);
+          if (label) out.push({ kind: 'text', layer, at: p(11), height: 2.5 * transform.scale, rotation: transform.rotation, text: label });
+        }
+        break;
+      }
+    }
+  }
+};
+
+const dimensionMeasurement = (entity: Entity) =>
+  value(entity, 42) !== undefined ? Math.round(num(entity, 42) * 1000) / 1000 : null;
+
+// The label text when it was overridden; "<>" inside an override stands for the measured value
+const dimensionOverride = (entity: Entity) => {
+  const override = value(entity, 1);
+  if (!override || override === '<>') return null;
+  const measurement = dimensionMeasurement(entity);
+  return plainText(override.replace('<>', measurement !== null ? String(measurement) : ''));
+};
+
+const dimensionLabel = (entity: Entity) => {
+  const measurement = dimensionMeasurement(entity);
+  return dimensionOverride(entity) ?? (measurement !== null ? String(measurement) : '');
+};
+
+// --- Summary ---
+
+const headerInt = (drawing: ParsedDrawing, variable: string) => {
+  const group = drawing.header[variable]?.find(([code]) => code === 70);
+  return group ? parseInt(group[1], 10) : null;
+};
+
+const summarize = (fileName: string, drawing: ParsedDrawing, bounds: { width: number; height: number }): DrawingSummary => {
+  const layers = new Map<string, DrawingLayer>();
+  for (const table of drawing.layers) {
+    const name = value(table, 2) || '0';
+    const color = num(table, 62, 7);
+    layers.set(name, { name, color: Math.abs(color), visible: color >= 0, frozen: (num(table, 70) & 1) === 1, entityCounts: {} });
+  }
+
+  const dimensions: DrawingDimension[] = [];
+  const texts: string[] = [];
+  const entityCounts: Record<string, number> = {};
+
+  for (const entity of drawing.entities) {
+    entityCounts[entity.type] = (entityCounts[entity.type] || 0) + 1;
+    // Layers used without a table entry still count
+    const layer = layers.get(entity.layer) || { name: entity.layer, color: 7, visible: true, frozen: false, entityCounts: {} };
+    layer.entityCounts[entity.type] = (layer.entityCounts[entity.type] || 0) + 1;
+    layers.set(entity.layer, layer);
+
+    if (entity.type === 'DIMENSION') {
+      dimensions.push({
+        layer: entity.layer,
+        kind: DIMENSION_KINDS[num(entity, 70) & 7] || 'linear',
+        measurement: dimensionMeasurement(entity),
+        text: dimensionOverride(entity),
+        style: value(entity, 3) || null,
+      });
+    } else if ((entity.type === 'TEXT' || entity.type === 'MTEXT') && texts.length < MAX_PROMPT_TEXTS) {
+      const text = plainText([...all(entity, 3), value(entity, 1) || ''].join(''));
+      if (text) texts.push(text);
+    }
+  }
+
+  const insUnits = headerInt(drawing, '$INSUNITS');
+  const measurement = headerInt(drawing, '$MEASUREMENT');
+
+  return {
+    fileName,
+    units: insUnits !== null ? INSUNITS[insUnits] || null : null,
+    measurement: measurement === 1 ? 'metric' : measurement === 0 ? 'imperial' : null,
+    layers: [...layers.values()].sort((a, b) => a.name.localeCompare(b.name)),
+    entityCounts,
+    dimensions,
+    texts,
+    extents: { width: Math.round(bounds.width * 1000) / 1000, height: Math.round(bounds.height * 1000) / 1000 },
+  };
+};
+
+// Layers where dimensions sit alongside geometry; drafting convention keeps them on their own layer
+export const mixedDimensionLayers = (summary: DrawingSummary) =>
+  summary.layers
+    .filter(l => l.entityCounts.DIMENSION && Object.keys(l.entityCounts).some(type => !ANNOTATION_TYPES.has(type)))
+    .map(l => l.name);
+
+// Plain-text summary for prompts
+export const describeDrawing = (summary: DrawingSummary) => {
+  const lines = [
+    `Units ($INSUNITS): ${summary.units || 'not set'}${summary.measurement ? ` (${summary.measurement} measurement system)` : ''}`,
+    `Drawing extents: ${summary.extents.width} x ${summary.extents.height}${summary.units ? ` ${summary.units}` : ''}`,
+    `Entities: ${Object.entries(summary.entityCounts).map(([type, n]) => `${n} ${type}`).join(', ') || 'none'}`,
+    'Layers (entities on each):',
+    ...summary.layers.map(l =>
+      `- ${l.name}${l.visible ? '' : ' (off)'}${l.frozen ? ' (frozen)' : ''}: ${Object.entries(l.entityCounts).map(([type, n]) => `${n} ${type}`).join(', ') || 'empty'}`),
+    `Dimensions (${summary.dimensions.length}):`,
+    ...summary.dimensions.slice(0, MAX_PROMPT_DIMENSIONS).map(d =>
+      `- ${d.kind} on layer ${d.layer}: ${d.measurement ?? '?'}${d.text ? ` (shown as "${d.text}")` : ''}${d.style ? `, style ${d.style}` : ''}`),
+  ];
+  if (summary.dimensions.length > MAX_PROMPT_DIMENSIONS) lines.push(`- ...and ${summary.dimensions.length - MAX_PROMPT_DIMENSIONS} more`);
+  if (summary.texts.length) lines.push(`Text notes: ${summary.texts.map(t => `"${t}"`).join('; ')}`);
+  return lines.join('\n');
+};
+
+// --- Rendering ---
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+
+const boundsOf = (primitives: Primitive[]) => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  const include = ([x, y]: Point, pad = 0) => {
+    minX = Math.min(minX, x - pad); maxX = Math.max(maxX, x + pad);
+    minY = Math.min(minY, y - pad); maxY = Math.max(maxY, y + pad);
+  };
+  for (const p of primitives) {
+    if (p.kind === 'polyline') p.points.forEach(point => include(point));
+    else if (p.kind === 'circle') include(p.center, p.radius);
+    else include(p.at, p.height);
+  }
+  return Number.isFinite(minX) ? { minX, minY, width: maxX - minX, height: maxY - minY } : { minX: 0, minY: 0, width: 0, height: 0 };
+};
+
+/**
+ * Renders to a standalone SVG on a white sheet. DXF's Y axis points up, so Y is negated
+ * per coordinate rather than with a flipping transform, which keeps text upright.
+ */
+const toSvg = (primitives: Primitive[], layers: Map<string, DrawingLayer>, bounds: ReturnType<typeof boundsOf>) => {
+  const margin = Math.max(bounds.width, bounds.height) * 0.05 || 1;
+  const viewBox = [bounds.minX - margin, -(bounds.minY + bounds.height) - margin, bounds.width + margin * 2, bounds.height + margin * 2];
+  const stroke = (layer: string) => ACI_COLORS[layers.get(layer)?.color ?? 7] || DEFAULT_INK;
+  const fmt = (n: number) => Math.round(n * 1000) / 1000;
+
+  const shapes = primitives
+    .filter(p => layers.get(p.layer)?.visible !== false && !layers.get(p.layer)?.frozen)
+    .map(p => {
+      if (p.kind === 'polyline') {
+        const points = p.points.map(([x, y]) => `${fmt(x)},${fmt(-y)}`).join(' ');
+        return `<${p.closed ? 'polygon' : 'polyline'} points="${points}" fill="none" stroke="${stroke(p.layer)}" vector-effect="non-scaling-stroke"/>`;
+      }
+      if (p.kind === 'circle') {
+        return p.radius > 0
+          ? `<circle cx="${fmt(p.center[0])}" cy="${fmt(-p.center[1])}" r="${fmt(p.radius)}" fill="none" stroke="${stroke(p.layer)}" vector-effect="non-scaling-stroke"/>`
+          : `<circle cx="${fmt(p.center[0])}" cy="${fmt(-p.center[1])}" r="${fmt(margin * 0.05)}" fill="${stroke(p.layer)}"/>`;
+      }
+      return `<text x="${fmt(p.at[0])}" y="${fmt(-p.at[1])}" font-size="${fmt(p.height)}" font-family="sans-serif" fill="${stroke(p.layer)}" transform="rotate(${fmt(-p.rotation)} ${fmt(p.at[0])} ${fmt(-p.at[1])})">${escapeXml(p.text)}</text>`;
+    });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox.map(fmt).join(' ')}" stroke-width="1">`
+    + `<rect x="${fmt(viewBox[0])}" y="${fmt(viewBox[1])}" width="${fmt(viewBox[2])}" height="${fmt(viewBox[3])}" fill="#ffffff"/>`
+    + shapes.join('') + '</svg>';
+};
+
+export const svgDataUrl = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+// Models take raster images, so the SVG is drawn onto a canvas for the review
+const rasterize = (svg: string, aspect: number, size: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = aspect >= 1 ? size : Math.max(1, Math.round(size * aspect));
+      canvas.height = aspect >= 1 ? Math.max(1, Math.round(size / aspect)) : size;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error('Canvas is not available'));
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode drawing')), 'image/png');
+    };
+    image.onerror = () => reject(new Error('Could not render drawing'));
+    image.src = svgDataUrl(svg);
+  });
+
+/**
+ * Reads a DXF file and returns its structured summary, the SVG rendering for display and a
+ * PNG of it labelled for submission alongside ordinary images.
+ */
+export const analyzeDrawingFile = async (file: File): Promise<{ summary: DrawingSummary; svg: string; preview: LabelledImage }> => {
+  const drawing = parseDxf(await file.text());
+  const primitives: Primitive[] = [];
+  toPrimitives(drawing.entities, drawing, IDENTITY, 0, primitives);
+  if (primitives.length === 0) throw new DrawingParseError(`${file.name} has no drawable entities`);
+
+  const bounds = boundsOf(primitives);
+  const summary = summarize(file.name, drawing, bounds);
+  const layers = new Map(summary.layers.map(l => [l.name, l]));
+  const svg = toSvg(primitives, layers, bounds);
+  const png = await rasterize(svg, (bounds.width || 1) / (bounds.height || 1), RASTER_SIZE);
+
+  return {
+    summary,
+    svg,
+    preview: { view: 'drawing', file: new File([png], file.name.replace(/\.dxf$/i, '.png'), { type: 'image/png' }), source: file.name },
+  };
+};
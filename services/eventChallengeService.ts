@@ -0,0 +1,124 @@
+import { ChallengeEventRecord, ChallengeEvaluation, EventKind, MilestoneResult, UserProfile, Challenge } from "../types";
+import { generateEventChallenge } from "./aiService";
+import { toDayKey, addDays, fromDayKey } from "./activityService";
+
+export const EVENT_KINDS: EventKind[] = ['weekly', 'monthly', 'seasonal'];
+
+const SEASONS = ['winter', 'spring', 'summer', 'autumn'];
+
+export interface EventPeriod {
+  key: string;
+  label: string;
+  startsAt: number;
+  endsAt: number;
+}
+
+/**
+ * The window an event of `kind` runs in, in local time:
+ * weeks start on Monday, months on the 1st, and seasons are meteorological (Dec-Feb is winter).
+ */
+export const getEventPeriod = (kind: EventKind, now: Date = new Date()): EventPeriod => {
+  if (kind === 'weekly') {
+    const today = toDayKey(now);
+    const monday = addDays(today, -((now.getDay() + 6) % 7));
+    const start = fromDayKey(monday);
+    return {
+      key: `weekly:${monday}`,
+      label: `Week of ${start.toLocaleDateString([], { month: 'short', day: 'numeric' })}`,
+      startsAt: start.getTime(),
+      endsAt: fromDayKey(addDays(monday, 7)).getTime(),
+    };
+  }
+
+  if (kind === 'monthly') {
+    const start = new Date(now.getFullYear(), now.getMonth(), 1);
+    return {
+      key: `monthly:${toDayKey(start).slice(0, 7)}`,
+      label: start.toLocaleDateString([], { month: 'long', year: 'numeric' }),
+      startsAt: start.getTime(),
+      endsAt: new Date(now.getFullYear(), now.getMonth() + 1, 1).getTime(),
+    };
+  }
+
+  // December belongs to the following year's winter
+  const seasonIndex = Math.floor(((now.getMonth() + 1) % 12) / 3);
+  const startMonth = seasonIndex * 3 - 1; // -1 = December of the previous year
+  const year = now.getMonth() === 11 ? now.getFullYear() + 1 : now.getFullYear();
+  const start = new Date(year, startMonth, 1);
+  const season = SEASONS[seasonIndex];
+  return {
+    key: `seasonal:${year}-${season}`,
+    label: `${season.charAt(0).toUpperCase()}${season.slice(1)} ${year}`,
+    startsAt: start.getTime(),
+    endsAt: new Date(year, startMonth + 3, 1).getTime(),
+  };
+};
+
+export const isCurrentEvent = (record: ChallengeEventRecord | undefined, now: Date = new Date()): record is ChallengeEventRecord =>
+  !!record && record.period === getEventPeriod(record.kind, now).key;
+
+export const createEventChallenge = async (kind: EventKind, user: UserProfile, now: Date = new Date()): Promise<ChallengeEventRecord> => {
+  const period = getEventPeriod(kind, now);
+  const challenge = await generateEventChallenge(kind, user.domain, user.tool, user.skillLevel);
+
+  return {
+    kind,
+    period: period.key,
+    challenge: { ...challenge, kind, startsAt: period.startsAt, endsAt: period.endsAt },
+    status: 'new',
+    sessions: 0,
+    milestoneResults: {},
+  };
+};
+
+// Called each time the user opens the event to work on it
+export const startEventSession = (record: ChallengeEventRecord): ChallengeEventRecord => ({
+  ...record,
+  status: record.status === 'new' ? 'attempted' : record.status,
+  sessions: record.sessions + 1,
+});
+
+// Only the last milestone is the finished piece the reference shows; earlier ones are judged as their own deliverable
+export const isFinalMilestone = (challenge: Challenge, milestoneId: string) => {
+  const milestones = challenge.milestones || [];
+  return milestones[milestones.length - 1]?.id === milestoneId;
+};
+
+export const completedMilestoneCount = (record: ChallengeEventRecord) =>
+  (record.challenge.milestones || []).filter(m => record.milestoneResults[m.id]).length;
+
+/**
+ * Completion bonus plus the highest score bonus reached by the average milestone score.
+ */
+export const computeEventBonus = (challenge: Challenge, results: Record<string, MilestoneResult>) => {
+  const scores = (challenge.milestones || []).map(m => results[m.id]?.score ?? 0);
+  const averageScore = scores.length ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : 0;
+  const scoreBonus = [...(challenge.rewards?.scoreBonuses || [])]
+    .sort((a, b) => b.minScore - a.minScore)
+    .find(b => averageScore >= b.minScore)?.xp || 0;
+
+  return { averageScore, completionBonus: challenge.rewards?.completionBonus || 0, scoreBonus };
+};
+
+/**
+ * Records a passed milestone. The event is completed once every milestone has a result.
+ * Returns `justCompleted` so the caller can pay out the completion bonus exactly once.
+ */
+export const recordMilestone = (
+  record: ChallengeEventRecord,
+  milestoneId: string,
+  evaluation: ChallengeEvaluation,
+  now: number = Date.now()
+): { record: ChallengeEventRecord; justCompleted: boolean } => {
+  const milestoneResults = {
+    ...record.milestoneResults,
+    [milestoneId]: { score: evaluation.score, feedback: evaluation.feedback, completedAt: now },
+  };
+  const allDone = (record.challenge.milestones || []).every(m => milestoneResults[m.id]);
+  const justCompleted = allDone && record.status !== 'completed';
+
+  return {
+    record: { ...record, milestoneResults, status: allDone ? 'completed' : record.status },
+    justCompleted,
+  };
+};
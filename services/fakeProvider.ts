@@ -0,0 +1,367 @@
+import { LearningPath, GeneratedStep, StepRevisionRequest, RemedialStepsRequest, Challenge, ChallengeMilestone, EventKind, ReviewResult, ReviewRequest, ChallengeEvaluation, VisualizeRequest, VisualizeResult, ReferenceImage } from "../types";
+import { EVENT_FORMATS, EVENT_SCORE_BONUSES, REMEDIAL_STEPS, SUBMISSION_VIEWS } from "../constants";
+import { AIProvider, ChatSession, ChatInput, ChatSessionOptions, ChatActionResult, ChatEvent } from "./aiProvider";
+import { applyRubric } from "./rubricService";
+import { mixedDimensionLayers } from "./drawingService";
+
+// Simulated network latency so loading states are visible in demos
+const FAKE_LATENCY_MS = 400;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Small stable hash so the same input always produces the same output
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+// --- Fixtures ---
+
+const PATH_STEP_FIXTURES: (Omit<GeneratedStep, 'id'> & { detailedSteps: string[] })[] = [
+  {
+    title: 'Interface & Navigation',
+    description: 'Get comfortable moving around the viewport and finding the core panels of {tool}.',
+    criteria: ['Viewport is set up with the default layout', 'Screenshot shows the object properties panel'],
+    detailedSteps: ['Open {tool} with a new project', 'Orbit, pan and zoom around the default scene', 'Locate the properties panel', 'Take a screenshot of your workspace'],
+    xpReward: 100,
+  },
+  {
+    title: 'Blocking Out Primary Forms',
+    description: 'Use simple primitives to block out the main silhouette of your project: {goal}.',
+    criteria: ['Main proportions are readable', 'Only primitive shapes are used'],
+    detailedSteps: ['Collect two or three reference images', 'Add primitives for the largest shapes', 'Scale and position them to match the reference', 'Check the silhouette from front and side'],
+    xpReward: 150,
+    requiredViews: ['front', 'side'],
+  },
+  {
+    title: 'Refining Details',
+    description: 'Add secondary forms and clean up the structure so the model holds up at close range.',
+    criteria: ['Secondary forms are added', 'No overlapping or stray geometry'],
+    detailedSteps: ['Pick the most visible area to refine first', 'Add secondary shapes', 'Remove stray or duplicate elements', 'Compare against your reference'],
+    xpReward: 200,
+    requiredViews: ['perspective', 'wireframe'],
+  },
+  {
+    title: 'Presentation Render',
+    description: 'Light and frame your work to present the finished {goal}.',
+    criteria: ['Subject is clearly lit', 'Camera framing focuses on the subject'],
+    detailedSteps: ['Add a key light and a fill light', 'Frame the camera on your subject', 'Render or capture the final image'],
+    xpReward: 250,
+    requiredViews: ['render'],
+  },
+];
+
+const CHALLENGE_FIXTURES = [
+  { title: 'Low Poly Lighthouse', theme: 'Coastal', description: 'Model a stylised lighthouse on a rocky base using as few faces as possible.', color: '#20BEFF' },
+  { title: 'Desk Lamp', theme: 'Industrial Design', description: 'Recreate an articulated desk lamp with a weighted base and a conical shade.', color: '#a855f7' },
+  { title: 'Mushroom Cottage', theme: 'Fantasy', description: 'Build a small cottage shaped like a mushroom, with a round door and chimney.', color: '#10b981' },
+];
+
+const EVENT_FIXTURES: Record<EventKind, { title: string; theme: string; description: string; color: string }> = {
+  weekly: { title: 'Neon Nights', theme: 'Cyberpunk', description: 'Create a high-fidelity street-corner environment asset lit by neon signage.', color: '#ec4899' },
+  monthly: { title: 'Marathon Mech', theme: 'Hard Surface', description: 'Design and build a walking mech, from silhouette to a presentation render.', color: '#8b5cf6' },
+  seasonal: { title: 'Winter Jam', theme: 'Seasonal Scene', description: 'Build a cosy snowed-in cabin scene with props, lighting and atmosphere.', color: '#22c55e' },
+};
+
+const MILESTONE_FIXTURES = [
+  { title: 'Blockout', description: 'Block out the main forms and composition with primitives.' },
+  { title: 'Primary Detail', description: 'Refine the largest shapes and lock proportions.' },
+  { title: 'Secondary Detail', description: 'Add secondary forms, trims and supporting props.' },
+  { title: 'Materials & Lighting', description: 'Assign materials and set up the lighting.' },
+  { title: 'Final Presentation', description: 'Frame and render the finished piece.' },
+];
+
+const HINT_FIXTURES = [
+  'Start from a cylinder with 8 sides and extrude the top faces to keep the silhouette clean.',
+  'Use a mirror modifier early so you only model one half.',
+  'Block the largest shape first, then bevel the edges once proportions are locked.',
+];
+
+const CHAT_FIXTURE = "This is an offline demo response. Try breaking the task into small, testable steps and check your work from several angles before moving on.";
+
+const fillTemplate = (text: string, values: Record<string, string>) =>
+  text.replace(/\{(\w+)\}/g, (_, key) => values[key] ?? '');
+
+// Simple flat-colour SVG so challenge cards have a reference image without network access
+const placeholderImage = (label: string, color: string) => {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="600" height="600"><rect width="600" height="600" fill="${color}"/><circle cx="300" cy="270" r="140" fill="white" fill-opacity="0.25"/><text x="300" y="500" font-family="sans-serif" font-size="32" fill="white" text-anchor="middle">${label}</text></svg>`;
+  return `data:image/svg+xml;base64,${btoa(svg)}`;
+};
+
+// Uploads named like "outage" fail this many evaluations before succeeding, to demo the pending review queue
+const SIMULATED_OUTAGE_FAILURES = 2;
+const outageFailures = new Map<string, number>();
+
+const simulateOutage = (fileName: string) => {
+  if (!/outage/i.test(fileName)) return;
+  const failures = outageFailures.get(fileName) || 0;
+  if (failures >= SIMULATED_OUTAGE_FAILURES) return;
+  outageFailures.set(fileName, failures + 1);
+  throw new Error('Simulated review outage (offline provider)');
+};
+
+// --- Provider ---
+
+const generateLearningPath = async (domain: string, tool: string, goal: string, level: string): Promise<LearningPath> => {
+  await delay(FAKE_LATENCY_MS);
+  const values = { tool, goal, domain, level };
+
+  const steps = PATH_STEP_FIXTURES.map((s, index) => ({
+    id: `step-${index + 1}`,
+    title: s.title,
+    description: fillTemplate(s.description, values),
+    criteria: s.criteria,
+    detailedSteps: s.detailedSteps.map(d => fillTemplate(d, values)),
+    xpReward: s.xpReward,
+    requiredViews: s.requiredViews,
+    status: index === 0 ? 'active' as const : 'locked' as const,
+  }));
+
+  return {
+    id: Date.now().toString(),
+    title: `${tool} Foundations`,
+    description: `A ${level.toLowerCase()} ${domain} path towards: ${goal}`,
+    totalXp: steps.reduce((sum, s) => sum + s.xpReward, 0),
+    steps,
+  };
+};
+
+/**
+ * Rewrites the step text deterministically so each action's effect on the path is visible offline.
+ */
+const reviseStep = async ({ path, stepId, action, note }: StepRevisionRequest): Promise<GeneratedStep[]> => {
+  await delay(FAKE_LATENCY_MS);
+  const target = path.steps.find(s => s.id === stepId);
+  if (!target) throw new Error(`Step ${stepId} is not part of path ${path.id}`);
+  const { status, ...base } = target;
+  const noteText = note ? ` (Adjusted for: ${note})` : '';
+
+  switch (action) {
+    case 'split': {
+      const half = Math.ceil(base.criteria.length / 2);
+      return [
+        { ...base, id: '', title: `${base.title}: Part 1`, criteria: base.criteria.slice(0, half), xpReward: Math.round(base.xpReward / 2) },
+        { ...base, id: '', title: `${base.title}: Part 2`, criteria: base.criteria.slice(half).length ? base.criteria.slice(half) : base.criteria.slice(-1), xpReward: Math.round(base.xpReward / 2) },
+      ];
+    }
+    case 'easier':
+      return [{ ...base, title: `${base.title} (Guided)`, description: `A smaller version: ${base.description}${noteText}`, criteria: base.criteria.slice(0, 1), xpReward: Math.round(base.xpReward * 0.8) }];
+    case 'harder':
+      return [{ ...base, title: `${base.title} (Extended)`, description: `${base.description} Push it further with an extra constraint of your choice.${noteText}`, criteria: [...base.criteria, 'Includes one self-chosen extra constraint'], xpReward: Math.round(base.xpReward * 1.3) }];
+    case 'insert':
+      return [{ id: '', title: `Practice: ${base.title}`, description: `Repeat the techniques from "${base.title}" on a new, simple object before moving on.${noteText}`, criteria: ['Technique applied to a new object'], detailedSteps: ['Pick a simple everyday object', 'Apply the same workflow', 'Compare the result with your earlier work'], xpReward: Math.round(base.xpReward / 2) }];
+    case 'regenerate':
+    default:
+      return [{ ...base, title: `${base.title} (Alternate Approach)`, description: `Another route to the same goal: ${base.description}${noteText}` }];
+  }
+};
+
+// One practice step per criterion that keeps coming up, up to the configured maximum
+const generateRemedialSteps = async ({ path, stepId }: RemedialStepsRequest): Promise<GeneratedStep[]> => {
+  await delay(FAKE_LATENCY_MS);
+  const target = path.steps.find(s => s.id === stepId);
+  if (!target) throw new Error(`Step ${stepId} is not part of path ${path.id}`);
+
+  return target.criteria.slice(0, REMEDIAL_STEPS.maxSteps).map((criterion, i) => ({
+    id: '',
+    title: `Practice ${i + 1}: ${criterion}`,
+    description: `A short exercise on a simple object focused on one thing: ${criterion.toLowerCase()}.`,
+    criteria: [criterion],
+    detailedSteps: ['Start a new scratch file', `Work only on: ${criterion.toLowerCase()}`, 'Take a screenshot when it looks right'],
+    xpReward: 0,
+  }));
+};
+
+/**
+ * Meets every criterion unless a file name contains "fail" or "redo" (the first criterion is
+ * then unmet), a required view is missing (nothing can be judged), an uploaded model isn't
+ * watertight (criteria about watertight or manifold geometry are unmet), or an uploaded drawing
+ * mixes dimensions into geometry layers or isn't in millimetres (criteria about layers or mm are
+ * unmet), which makes the review branches easy to demo. Files named like "outage" fail the first
+ * reviews instead. The verdict itself comes from the shared rubric rules.
+ */
+const reviewSubmission = async ({ images, models = [], drawings = [], stepDescription, criteria, requiredViews = [] }: ReviewRequest): Promise<ReviewResult> => {
+  await delay(FAKE_LATENCY_MS);
+  images.forEach(image => simulateOutage(image.file.name));
+  const missing = requiredViews.filter(view => !images.some(image => image.view === view));
+  if (missing.length) {
+    const labels = missing.map(v => SUBMISSION_VIEWS[v].label).join(', ');
+    return applyRubric(criteria, {
+      criteria: criteria.map(criterion => ({ criterion, verdict: 'unmet' as const, score: 0, comment: `Can't be judged without: ${labels}.` })),
+      feedback: `Missing views: ${labels}. (Offline review)`,
+    });
+  }
+  const flagged = images.some(image => /fail|redo/i.test(image.file.name));
+  const leaky = models.find(model => !model.stats.watertight);
+  const mixed = drawings.find(drawing => mixedDimensionLayers(drawing).length > 0);
+  const notMetric = drawings.find(drawing => drawing.units !== 'mm');
+
+  return applyRubric(criteria, {
+    criteria: criteria.map((criterion, i) => {
+      if (flagged && i === 0) return { criterion, verdict: 'unmet' as const, score: 30, comment: 'This is not visible in the submission yet.' };
+      if (leaky && /watertight|manifold|print/i.test(criterion)) {
+        return { criterion, verdict: 'unmet' as const, score: 10, comment: `${leaky.fileName} has ${leaky.stats.boundaryEdges} open and ${leaky.stats.nonManifoldEdges} non-manifold edges.` };
+      }
+      if (mixed && /layer/i.test(criterion)) {
+        return { criterion, verdict: 'unmet' as const, score: 20, comment: `${mixed.fileName} puts dimensions on the same layer as geometry: ${mixedDimensionLayers(mixed).join(', ')}.` };
+      }
+      if (notMetric && /\bmm\b|millimet/i.test(criterion)) {
+        return { criterion, verdict: 'unmet' as const, score: 20, comment: `${notMetric.fileName} is drawn in ${notMetric.units || 'unset units'}, not mm.` };
+      }
+      return { criterion, verdict: 'met' as const, score: 90, comment: 'Clearly shown.' };
+    }),
+    feedback: flagged
+      ? `Not there yet. Re-check: ${criteria[0] || stepDescription}. (Offline review)`
+      : leaky
+        ? `Good progress, but ${leaky.fileName} isn't watertight yet. Close the open edges before exporting. (Offline review)`
+        : mixed || notMetric
+          ? `The geometry reads well, but check the drawing setup in ${(mixed || notMetric).fileName}. (Offline review)`
+          : `Nice work. All ${criteria.length} criteria look satisfied across ${images.length} image(s). (Offline review)`,
+  });
+};
+
+const generateDailyChallenge = async (domain: string, tool: string, skillLevel: string): Promise<Challenge> => {
+  await delay(FAKE_LATENCY_MS);
+  const fixture = CHALLENGE_FIXTURES[hashString(`${domain}|${tool}|${skillLevel}`) % CHALLENGE_FIXTURES.length];
+  const scale = skillLevel === 'Advanced' || skillLevel === 'Intermediate' ? 2 : 1;
+
+  return {
+    id: Date.now().toString(),
+    kind: 'daily',
+    title: fixture.title,
+    theme: fixture.theme,
+    description: fixture.description,
+    referenceImageUrl: placeholderImage(fixture.title, fixture.color),
+    goldTime: 10 * scale,
+    silverTime: 20 * scale,
+    bronzeTime: 30 * scale,
+  };
+};
+
+const generateEventChallenge = async (kind: EventKind, domain: string, tool: string, skillLevel: string): Promise<Challenge> => {
+  await delay(FAKE_LATENCY_MS);
+  const fixture = EVENT_FIXTURES[kind];
+  const format = EVENT_FORMATS[kind];
+
+  // The last fixture is always the final presentation
+  const middle = MILESTONE_FIXTURES.slice(0, -1).slice(0, format.milestones - 1);
+  const milestones = [...middle, MILESTONE_FIXTURES[MILESTONE_FIXTURES.length - 1]];
+
+  return {
+    id: Date.now().toString(),
+    kind,
+    title: fixture.title,
+    theme: fixture.theme,
+    description: fixture.description,
+    referenceImageUrl: placeholderImage(fixture.title, fixture.color),
+    goldTime: 0,
+    silverTime: 0,
+    bronzeTime: 0,
+    milestones: milestones.map((m, index) => ({ id: `milestone-${index + 1}`, ...m, xpReward: format.xpPerMilestone })),
+    rewards: {
+      completionBonus: format.completionBonus,
+      scoreBonuses: EVENT_SCORE_BONUSES.map(b => ({ minScore: b.minScore, xp: Math.round(format.completionBonus * b.share) })),
+    },
+  };
+};
+
+const evaluateChallengeSubmission = async (challenge: Challenge, userImageFile: File, milestone?: ChallengeMilestone): Promise<ChallengeEvaluation> => {
+  await delay(FAKE_LATENCY_MS);
+  simulateOutage(userImageFile.name);
+  const score = 60 + (hashString(`${userImageFile.name}|${milestone?.id ?? ''}|${userImageFile.size}`) % 40);
+
+  return {
+    passed: score >= 70,
+    score,
+    feedback: score >= 70 ? 'Shapes and composition match the reference well. (Offline evaluation)' : 'The main silhouette differs from the reference. (Offline evaluation)',
+  };
+};
+
+// Returns the input unchanged; there is no offline image model
+const editImage = async (base64Image: string, prompt: string): Promise<string> => {
+  await delay(FAKE_LATENCY_MS);
+  return base64Image;
+};
+
+const generateHint = async (tool: string, challenge: Challenge): Promise<string> => {
+  await delay(FAKE_LATENCY_MS);
+  return HINT_FIXTURES[hashString(challenge.title) % HINT_FIXTURES.length];
+};
+
+// Stands in for a generated image, like the fixture references, so it is not flagged as a placeholder
+const generateReferenceImage = async (imagePrompt: string, title: string): Promise<ReferenceImage> => {
+  await delay(FAKE_LATENCY_MS);
+  const colors = CHALLENGE_FIXTURES.map(f => f.color);
+  return { url: placeholderImage(title, colors[hashString(imagePrompt) % colors.length]), placeholder: false };
+};
+
+const visualizeConcept = async ({ prompt, tool }: VisualizeRequest): Promise<VisualizeResult> => {
+  await delay(FAKE_LATENCY_MS);
+  const colors = CHALLENGE_FIXTURES.map(f => f.color);
+  // Plain characters only: the label goes into the SVG markup and through btoa
+  const text = prompt.replace(/[^\w\s.,!?'-]/g, '').trim();
+  const label = text.length > 28 ? `${text.slice(0, 27)}...` : text;
+  return {
+    imageUrl: placeholderImage(label, colors[hashString(prompt) % colors.length]),
+    caption: `A simplified diagram of "${prompt}" as you would approach it in ${tool}.`,
+  };
+};
+
+// Keyword triggers standing in for the model's function calling
+const ACTION_TRIGGERS: { pattern: RegExp; name: string; args: (text: string, match: RegExpMatchArray) => Record<string, unknown> }[] = [
+  { pattern: /\bmark\b.*\bmini-?step (\d+)/i, name: 'complete_mini_step', args: (_, m) => ({ miniStep: Number(m[1]) }) },
+  { pattern: /\bhint\b|step-by-step guide/i, name: 'show_step_hint', args: () => ({}) },
+  { pattern: /\b(?:open|go to)\b.*\b(?:step|module) (\d+|"[^"]+")/i, name: 'open_step', args: (_, m) => ({ step: m[1].replace(/"/g, '') }) },
+  { pattern: /\b(?:new|another|next)\b.*\bdaily challenge\b/i, name: 'new_daily_challenge', args: () => ({}) },
+  { pattern: /\b(?:diagram|visuali[sz]e|illustrate)\b/i, name: 'visualize_concept', args: text => ({ description: text }) },
+  { pattern: /\breference (?:image|picture)\b/i, name: 'generate_reference_image', args: text => ({ subject: text, title: 'Reference' }) },
+];
+
+const createChatSession = ({ history = [], actions = [] }: ChatSessionOptions = {}): ChatSession => {
+  // Counts questions so a reopened thread visibly carries on from its saved history
+  let asked = history.filter(turn => turn.role === 'user').length;
+
+  async function* streamWords(text: string): AsyncIterable<ChatEvent> {
+    for (const word of text.split(' ')) {
+      await delay(30);
+      yield { kind: 'text', text: `${word} ` };
+    }
+  }
+
+  return {
+    sendMessageStream: async function* (input: ChatInput) {
+      asked += 1;
+      const trigger = ACTION_TRIGGERS.find(t => actions.some(a => a.name === t.name) && t.pattern.test(input.text));
+      if (trigger) {
+        await delay(FAKE_LATENCY_MS);
+        yield { kind: 'action', call: { id: `call-${asked}`, name: trigger.name, args: trigger.args(input.text, input.text.match(trigger.pattern)!) } };
+        return;
+      }
+      yield* streamWords(asked > 1 ? `(Question ${asked} in this thread.) ${CHAT_FIXTURE}` : CHAT_FIXTURE);
+    },
+    sendActionResults: async function* (results: ChatActionResult[]) {
+      const replies = results.map(({ response }) =>
+        response.ok ? `Done. ${response.message ?? ''}` : `That didn't happen: ${response.message ?? 'unknown error'}`);
+      yield* streamWords(replies.join(' '));
+    }
+  };
+};
+
+export const fakeProvider: AIProvider = {
+  name: 'fake',
+  generateLearningPath,
+  reviseStep,
+  generateRemedialSteps,
+  reviewSubmission,
+  generateDailyChallenge,
+  generateEventChallenge,
+  evaluateChallengeSubmission,
+  editImage,
+  generateHint,
+  generateReferenceImage,
+  visualizeConcept,
+  createChatSession,
+};
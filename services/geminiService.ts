@@ -1,13 +1,23 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { GoogleGenAI, Part, Content, GenerateContentConfig, GenerateContentResponse, FunctionDeclaration } from "@google/genai";
 import { 
   MODEL_FAST, 
   MODEL_REASONING, 
   MODEL_IMAGE_GEN, 
   MAX_THINKING_BUDGET,
+  REMEDIAL_STEPS,
   SYSTEM_INSTRUCTION_MENTOR,
-  SYSTEM_INSTRUCTION_REVIEWER
+  SYSTEM_INSTRUCTION_REVIEWER,
+  EVENT_FORMATS,
+  EVENT_SCORE_BONUSES,
+  SUBMISSION_VIEWS
 } from "../constants";
-import { LearningPath, Challenge } from "../types";
+import { LearningPath, GeneratedStep, StepRevisionRequest, RemedialStepsRequest, StepRevisionAction, Challenge, ChallengeMilestone, EventKind, ReviewResult, ReviewRequest, ChallengeEvaluation, VisualizeRequest, VisualizeResult, ReferenceImage } from "../types";
+import { AIProvider, ChatSession, ChatInput, ChatSessionOptions, ChatActionDefinition, ChatEvent } from "./aiProvider";
+import { applyRubric } from "./rubricService";
+import { describeMeshStats } from "./meshService";
+import { describeDrawing } from "./drawingService";
+import { Validator, ValidationIssue, SchemaValidationError, Infer, validate, formatIssues } from "./schema";
+import { learningPathSchema, stepListSchema, reviewRubricSchema, challengeDesignSchema, eventDesignSchema, challengeEvaluationSchema } from "./responseSchemas";
 
 // Initialize the client
 // Using a getter to ensure we grab the key if it's set later (though env is usually static)
@@ -34,179 +44,253 @@ const parseJSON = (text: string) => {
   }
 };
 
+// Extra round-trips allowed to ask the model to fix a response that failed validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Requests JSON constrained by `schema` (passed as `responseSchema`), validates and coerces the reply,
+ * and re-asks the model with the validation errors when the reply can't be repaired locally.
+ */
+const generateStructured = async <T>(options: {
+  label: string;
+  model: string;
+  parts: Part[];
+  schema: Validator<T>;
+  config?: GenerateContentConfig;
+}): Promise<T> => {
+  const ai = getAIClient();
+  const contents: Content[] = [{ role: 'user', parts: options.parts }];
+  let issues: ValidationIssue[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const response = await ai.models.generateContent({
+      model: options.model,
+      contents,
+      config: {
+        ...options.config,
+        responseMimeType: "application/json",
+        responseSchema: options.schema.toResponseSchema(),
+      }
+    });
+
+    const text = response.text || "";
+    try {
+      const result = validate(options.schema, parseJSON(text));
+      if (result.issues.length === 0) return result.value;
+      issues = result.issues;
+    } catch (e) {
+      issues = [{ path: '', message: 'is not valid JSON' }];
+    }
+
+    console.warn(`${options.label} response failed validation (attempt ${attempt + 1}):`, formatIssues(issues));
+    contents.push(
+      { role: 'model', parts: [{ text }] },
+      { role: 'user', parts: [{ text: `Your previous response did not match the required JSON schema: ${formatIssues(issues)}. Reply again with the complete, corrected JSON object only.` }] }
+    );
+  }
+
+  throw new SchemaValidationError(options.label, issues);
+};
+
+// Appended to every prompt that produces steps, so 3D work asks for the angles (or the model file) its criteria depend on
+const REQUIRED_VIEWS_GUIDANCE = `Fill "requiredViews" when the criteria can't be judged from one image (e.g. topology needs "wireframe",
+  proportions need "front" and "side"). Allowed views: ${Object.keys(SUBMISSION_VIEWS).join(', ')}. Leave it empty otherwise.
+  Set "requiresModel" when a criterion can only be verified from the model file itself, such as a polycount budget,
+  real-world dimensions or being watertight for 3D printing. Set "requiresDrawing" when a criterion is about a 2D CAD
+  drawing's layers, dimension annotations or units, which can only be checked from the DXF file.`;
+
 /**
  * Generates a personalized learning path using Gemini 3 Pro with high thinking budget
  * for complex curriculum design.
  */
-export const generateLearningPath = async (
+const generateLearningPath = async (
   domain: string,
   tool: string,
   goal: string,
   level: string
 ): Promise<LearningPath> => {
-  const ai = getAIClient();
-  
   const prompt = `Create a detailed learning path for a ${level} student in ${domain} using ${tool}.
   Their specific goal is: "${goal}".
   
   The path should move from basic concepts to an advanced project. 
-  Structure the response as a JSON object strictly matching this schema:
-  {
-    "title": "string (Creative name for the path)",
-    "description": "string (Short overview)",
-    "totalXp": number,
-    "steps": [
-      {
-        "id": "string (unique id)",
-        "title": "string",
-        "description": "string (detailed instructions)",
-        "criteria": ["string", "string"],
-        "detailedSteps": ["string (Step 1...)", "string (Step 2...)"],
-        "xpReward": number
-      }
-    ]
-  }
+  Give every step a unique "id".
   
   IMPORTANT: Populate "detailedSteps" with 3-5 granular, actionable mini-steps for the user to follow to achieve the main description. This is crucial for beginners.
+  ${REQUIRED_VIEWS_GUIDANCE}
   `;
 
   try {
-    const response = await ai.models.generateContent({
+    const pathData = await generateStructured({
+      label: 'Learning path',
       model: MODEL_REASONING,
-      contents: prompt,
+      parts: [{ text: prompt }],
+      schema: learningPathSchema,
       config: {
         thinkingConfig: { thinkingBudget: MAX_THINKING_BUDGET },
-        responseMimeType: "application/json",
       }
     });
 
-    const text = response.text || "{}";
-    const pathData = parseJSON(text);
-    
     // Enrich with local-only status fields
-    pathData.id = Date.now().toString(); // Ensure ID
-    pathData.steps = pathData.steps.map((s: any, index: number) => ({
-      ...s,
-      status: index === 0 ? 'active' : 'locked'
-    }));
-
-    return pathData as LearningPath;
+    return {
+      ...pathData,
+      id: Date.now().toString(),
+      steps: pathData.steps.map((s, index) => ({
+        ...s,
+        status: index === 0 ? 'active' as const : 'locked' as const
+      }))
+    };
   } catch (error) {
     console.error("Failed to generate path:", error);
     throw error;
   }
 };
 
+const REVISION_INSTRUCTIONS: Record<StepRevisionAction, string> = {
+  regenerate: 'Rewrite this step from scratch with a different approach to the same learning goal. Return exactly 1 step.',
+  split: 'Split this step into 2-4 smaller, sequential steps that together cover the same goal. Their xpReward values should add up to roughly the original.',
+  easier: 'Rewrite this step so it is noticeably easier: smaller scope, more guidance, fewer or simpler criteria. Return exactly 1 step with a slightly lower xpReward.',
+  harder: 'Rewrite this step so it is more demanding: larger scope or stricter criteria. Return exactly 1 step with a higher xpReward.',
+  insert: 'Write 1 new step that belongs directly after this step and bridges to the next one. Do not repeat content from the existing steps.',
+};
+
 /**
- * Reviews a user's uploaded work against the step criteria.
- * Uses Gemini 3 Pro (Multimodal) to analyze the image.
+ * Regenerates, splits, re-levels or inserts steps in an existing path.
+ * The whole path is sent as context so the new steps fit between their neighbours.
  */
-export const reviewSubmission = async (
-  imageFile: File,
-  stepDescription: string,
-  criteria: string[]
-): Promise<{ passed: boolean; feedback: string }> => {
-  const ai = getAIClient();
+const reviseStep = async ({ path, stepId, action, note, tool, skillLevel }: StepRevisionRequest): Promise<GeneratedStep[]> => {
+  const target = path.steps.find(s => s.id === stepId);
+  if (!target) throw new Error(`Step ${stepId} is not part of path ${path.id}`);
+
+  const outline = path.steps
+    .map((s, i) => `${i + 1}. ${s.title} (${s.xpReward} XP, ${s.status})${s.id === stepId ? '  <-- THIS STEP' : ''}`)
+    .join('\n');
+  const { status, ...targetStep } = target;
+
+  const prompt = `You are editing one step of an existing learning path for a ${skillLevel} student using ${tool}.
+  Path: "${path.title}" - ${path.description}
+  Current steps:
+  ${outline}
+
+  The step in question:
+  ${JSON.stringify(targetStep)}
+
+  Task: ${REVISION_INSTRUCTIONS[action]}
+  ${note ? `The student says: "${note}". Take this into account.` : ''}
+
+  Match the tone, level of detail and XP scale of the surrounding steps. Give each step 2-4 checkable criteria
+  and populate "detailedSteps" with 3-5 granular, actionable mini-steps.
+  ${REQUIRED_VIEWS_GUIDANCE}`;
+
+  try {
+    const revision = await generateStructured({
+      label: 'Step revision',
+      model: MODEL_REASONING,
+      parts: [{ text: prompt }],
+      schema: stepListSchema,
+    });
+    return revision.steps;
+  } catch (error) {
+    console.error("Failed to revise step:", error);
+    throw error;
+  }
+};
+
+/**
+ * Turns repeated review failures into short practice steps that target the recurring problems.
+ */
+const generateRemedialSteps = async ({ path, stepId, feedback, tool, skillLevel }: RemedialStepsRequest): Promise<GeneratedStep[]> => {
+  const target = path.steps.find(s => s.id === stepId);
+  if (!target) throw new Error(`Step ${stepId} is not part of path ${path.id}`);
+
+  const prompt = `A ${skillLevel} student using ${tool} has failed the review of this learning step ${feedback.length} times.
+  Step: "${target.title}" - ${target.description}
+  Criteria: ${target.criteria.join('; ')}
+
+  Reviewer feedback, oldest first:
+  ${feedback.map((f, i) => `${i + 1}. ${f}`).join('\n')}
+
+  Identify the underlying skill gaps behind the recurring problems and write 1-${REMEDIAL_STEPS.maxSteps} short practice steps
+  that build exactly those skills before the student retries the step. Each practice step should take 10-20 minutes,
+  be done on a simple separate exercise (not the main project), and have 1-3 checkable criteria.
+  Populate "detailedSteps" with 3-5 granular, actionable mini-steps.
+  ${REQUIRED_VIEWS_GUIDANCE}`;
+
+  try {
+    const result = await generateStructured({
+      label: 'Remedial steps',
+      model: MODEL_REASONING,
+      parts: [{ text: prompt }],
+      schema: stepListSchema,
+    });
+    return result.steps.slice(0, REMEDIAL_STEPS.maxSteps);
+  } catch (error) {
+    console.error("Failed to generate remedial steps:", error);
+    throw error;
+  }
+};
 
-  // Convert File to Base64
-  const base64Data = await fileToBase64(imageFile);
+/**
+ * Reviews a user's uploaded work against the step criteria.
+ * Uses Gemini 3 Pro (Multimodal). A submission may hold several labelled images; each one is
+ * preceded by its label so the reviewer can tell a wireframe from a render.
+ */
+const reviewSubmission = async ({ images, models = [], drawings = [], stepDescription, criteria, requiredViews = [] }: ReviewRequest): Promise<ReviewResult> => {
+  const imageParts: Part[] = [];
+  for (const [index, image] of images.entries()) {
+    const kind = image.view === 'drawing' ? 'drawing' : 'model';
+    const source = image.source ? `, rendered from the uploaded ${kind} ${image.source}` : '';
+    imageParts.push({ text: `Image ${index + 1}: ${SUBMISSION_VIEWS[image.view].label} (${SUBMISSION_VIEWS[image.view].hint}${source})` });
+    imageParts.push({ inlineData: { mimeType: image.file.type, data: await fileToBase64(image.file) } });
+  }
 
   const prompt = `
   Task: Review this user submission for a CAD/Art learning app.
   Context: The user was asked to: "${stepDescription}".
   Success Criteria:
   ${criteria.map(c => `- ${c}`).join('\n')}
+  ${requiredViews.length ? `This step requires these views: ${requiredViews.map(v => SUBMISSION_VIEWS[v].label).join(', ')}.` : ''}
+  ${models.map(model => `Measured from the uploaded model file "${model.fileName}" (exact values; trust them over what the images suggest):\n${describeMeshStats(model.stats)}`).join('\n\n')}
+  ${drawings.map(drawing => `Read from the uploaded DXF drawing "${drawing.fileName}" (exact values; trust them over what the images suggest):\n${describeDrawing(drawing)}`).join('\n\n')}
 
-  Analyze the attached image. Does it meet the criteria?
-  Start your response with valid JSON:
-  {
-    "passed": boolean,
-    "feedback": "string (constructive feedback, keep it encouraging but strict)"
-  }
+  Analyze the ${images.length} attached image(s) together, using each image's label to judge the criteria it is suited for
+  (e.g. topology from the wireframe, proportions from orthographic views). Judge polycount, dimensions, n-gons
+  and watertightness from the measured model data whenever it is provided. Judge layer use, dimension values and
+  units from the drawing data whenever it is provided.
+  Grade every criterion separately, in the order given: copy its text into "criterion", give a verdict
+  ("met", "partial" or "unmet"), a 0-100 score and a short comment. A criterion that needs a missing view is "unmet".
+  Then write overall "feedback" (constructive, encouraging but strict). Refer to images by their label.
   `;
 
   try {
-    const response = await ai.models.generateContent({
+    const rubric = await generateStructured({
+      label: 'Submission review',
       model: MODEL_REASONING, // Use Pro for image analysis reasoning
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: imageFile.type,
-              data: base64Data
-            }
-          },
-          { text: prompt }
-        ]
-      },
+      parts: [...imageParts, { text: prompt }],
+      schema: reviewRubricSchema,
       config: {
         systemInstruction: SYSTEM_INSTRUCTION_REVIEWER,
-        responseMimeType: "application/json"
       }
     });
-
-    const result = parseJSON(response.text || "{}");
-    return result;
+    return applyRubric(criteria, rubric);
   } catch (error) {
+    // No fallback verdict: callers queue the submission until a real review succeeds
     console.error("Submission review failed:", error);
-    return { passed: false, feedback: "AI Review service unavailable. Please try again." };
+    throw error;
   }
 };
 
 /**
- * Generates a Daily Challenge with a Reference Image using Gemini 2.5 Flash Image.
- * Scales complexity based on skill level.
+ * Generates a reference image with Gemini 2.5 Flash Image.
+ * Falls back to a placeholder URL, flagged as such, if generation fails or isn't permitted.
  */
-export const generateDailyChallenge = async (domain: string, tool: string, skillLevel: string): Promise<Challenge> => {
+const generateReferenceImage = async (imagePrompt: string, title: string): Promise<ReferenceImage> => {
   const ai = getAIClient();
-
-  // Step 1: Design the challenge (text)
-  const designPrompt = `Design a fun, daily challenge for a ${domain} user using ${tool}.
-  The user is at a ${skillLevel} level.
-  
-  Constraints:
-  - If Beginner: Focus on simple primitives, low poly, basic shapes.
-  - If Advanced: Focus on complex topology, intricate details, realistic lighting.
-  
-  Output JSON:
-  {
-    "title": "string",
-    "theme": "string",
-    "description": "string",
-    "imagePrompt": "string (a descriptive prompt to generate a reference image for this object)",
-    "goldTime": number (minutes, aggressive estimate),
-    "silverTime": number (minutes, average estimate),
-    "bronzeTime": number (minutes, relaxed estimate)
-  }`;
-
-  let design;
-  try {
-    const designResp = await ai.models.generateContent({
-        model: MODEL_FAST, // Flash is fine for brainstorming
-        contents: designPrompt,
-        config: { responseMimeType: "application/json" }
-    });
-    design = parseJSON(designResp.text || "{}");
-  } catch (e) {
-      console.error("Failed to generate challenge text", e);
-      // Fallback design
-      design = {
-          title: "Speed Modeling",
-          theme: "Abstract",
-          description: "Create a simple abstract shape that demonstrates flow.",
-          imagePrompt: "Abstract 3d shape floating in void, colorful",
-          goldTime: 10, silverTime: 20, bronzeTime: 30
-      };
-  }
-
-  // Step 2: Generate the Reference Image
   let imageUrl = "";
   try {
-    // Attempt image generation with Gemini 2.5 Flash Image
     const imageResp = await ai.models.generateContent({
       model: MODEL_IMAGE_GEN,
       contents: {
-        parts: [{ text: design.imagePrompt }]
+        parts: [{ text: imagePrompt }]
       },
       config: {
         imageConfig: {
@@ -227,15 +311,57 @@ export const generateDailyChallenge = async (domain: string, tool: string, skill
 
   } catch (e) {
     console.warn("Image generation failed or not permitted, using placeholder", e);
-    imageUrl = `https://placehold.co/600x600/20BEFF/ffffff?text=${encodeURIComponent(design.title)}`;
+    return { url: `https://placehold.co/600x600/20BEFF/ffffff?text=${encodeURIComponent(title)}`, placeholder: true };
   }
+  return { url: imageUrl, placeholder: false };
+};
+
+/**
+ * Generates a Daily Challenge with a Reference Image using Gemini 2.5 Flash Image.
+ * Scales complexity based on skill level.
+ */
+const generateDailyChallenge = async (domain: string, tool: string, skillLevel: string): Promise<Challenge> => {
+  // Step 1: Design the challenge (text)
+  const designPrompt = `Design a fun, daily challenge for a ${domain} user using ${tool}.
+  The user is at a ${skillLevel} level.
+  
+  Constraints:
+  - If Beginner: Focus on simple primitives, low poly, basic shapes.
+  - If Advanced: Focus on complex topology, intricate details, realistic lighting.
+  
+  Gold, silver and bronze times are in minutes: aggressive, average and relaxed estimates.`;
+
+  let design: Infer<typeof challengeDesignSchema>;
+  try {
+    design = await generateStructured({
+        label: 'Challenge design',
+        model: MODEL_FAST, // Flash is fine for brainstorming
+        parts: [{ text: designPrompt }],
+        schema: challengeDesignSchema
+    });
+  } catch (e) {
+      console.error("Failed to generate challenge text", e);
+      // Fallback design
+      design = {
+          title: "Speed Modeling",
+          theme: "Abstract",
+          description: "Create a simple abstract shape that demonstrates flow.",
+          imagePrompt: "Abstract 3d shape floating in void, colorful",
+          goldTime: 10, silverTime: 20, bronzeTime: 30
+      };
+  }
+
+  // Step 2: Generate the Reference Image
+  const reference = await generateReferenceImage(design.imagePrompt, design.title);
 
   return {
     id: Date.now().toString(),
+    kind: 'daily',
     title: design.title,
     theme: design.theme,
     description: design.description,
-    referenceImageUrl: imageUrl,
+    referenceImageUrl: reference.url,
+    referenceIsPlaceholder: reference.placeholder,
     goldTime: design.goldTime,
     silverTime: design.silverTime,
     bronzeTime: design.bronzeTime
@@ -243,57 +369,130 @@ export const generateDailyChallenge = async (domain: string, tool: string, skill
 };
 
 /**
- * Evaluates a challenge submission against the reference image.
+ * Generates a weekly, monthly or seasonal event: one larger project split into milestones
+ * that can be submitted across several sessions. XP comes from EVENT_FORMATS, not the model.
  */
-export const evaluateChallengeSubmission = async (
-  referenceImageUrl: string,
-  userImageFile: File
-): Promise<{ passed: boolean; score: number; feedback: string }> => {
-    const ai = getAIClient();
+const generateEventChallenge = async (kind: EventKind, domain: string, tool: string, skillLevel: string): Promise<Challenge> => {
+  const format = EVENT_FORMATS[kind];
+
+  const designPrompt = `Design a ${format.label.toLowerCase()} challenge event for a ${domain} user using ${tool}.
+  The user is at a ${skillLevel} level.
+
+  This is a larger project than a daily sprint, worked on over several sessions.
+  Split it into exactly ${format.milestones} milestones that build on each other
+  (e.g. blockout, refinement, detailing, final presentation), each with a clear deliverable image.
+  The image prompt should describe the finished piece.`;
+
+  const design = await generateStructured({
+    label: 'Event design',
+    model: MODEL_REASONING,
+    parts: [{ text: designPrompt }],
+    schema: eventDesignSchema(format.milestones)
+  });
+
+  const reference = await generateReferenceImage(design.imagePrompt, design.title);
+
+  return {
+    id: Date.now().toString(),
+    kind,
+    title: design.title,
+    theme: design.theme,
+    description: design.description,
+    referenceImageUrl: reference.url,
+    referenceIsPlaceholder: reference.placeholder,
+    // Events are untimed; tiers only apply to daily sprints
+    goldTime: 0,
+    silverTime: 0,
+    bronzeTime: 0,
+    milestones: design.milestones.map((m, index) => ({
+      id: `milestone-${index + 1}`,
+      title: m.title,
+      description: m.description,
+      xpReward: format.xpPerMilestone
+    })),
+    rewards: {
+      completionBonus: format.completionBonus,
+      scoreBonuses: EVENT_SCORE_BONUSES.map(b => ({ minScore: b.minScore, xp: Math.round(format.completionBonus * b.share) }))
+    }
+  };
+};
+
+// The reference as inline image data; remote references are fetched.
+// Null when it can't be read, in which case the submission is judged against the description.
+const referenceImagePart = async (referenceImageUrl: string): Promise<Part | null> => {
+  try {
+    const match = referenceImageUrl.match(/^data:([^;,]+);base64,(.*)$/);
+    if (match) return { inlineData: { mimeType: match[1], data: match[2] } };
+    const response = await fetch(referenceImageUrl);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const blob = await response.blob();
+    return { inlineData: { mimeType: blob.type || 'image/png', data: await fileToBase64(blob) } };
+  } catch (error) {
+    console.warn("Reference image unavailable for evaluation:", error);
+    return null;
+  }
+};
+
+/**
+ * Evaluates a challenge submission against the reference image. Event milestones are judged as
+ * their own deliverable; only the last one is compared with the reference of the finished piece.
+ * Placeholder references are never sent; the submission is then judged against the description only.
+ */
+const evaluateChallengeSubmission = async (
+  challenge: Challenge,
+  userImageFile: File,
+  milestone?: ChallengeMilestone
+): Promise<ChallengeEvaluation> => {
     const userBase64 = await fileToBase64(userImageFile);
-    
-    // We need to clean the reference URL if it's a data URL
-    const refData = referenceImageUrl.includes(',') ? referenceImageUrl.split(',')[1] : referenceImageUrl;
-    // Note: If referenceImageUrl is a URL (like placeholder.co), we can't easily pass it as inlineData without fetching. 
-    // For this specific app flow, the reference is usually generated base64. 
-    // If it's a placeholder URL, we assume simple text check or skip image comparison.
-    const isBase64Ref = referenceImageUrl.startsWith('data:');
-
-    const contents = [
+    const milestones = challenge.milestones || [];
+    const isInterim = !!milestone && milestones[milestones.length - 1]?.id !== milestone.id;
+    const reference = !isInterim && challenge.referenceImageUrl && !challenge.referenceIsPlaceholder
+        ? await referenceImagePart(challenge.referenceImageUrl)
+        : null;
+
+    const instructions: Part[] = isInterim ? [
+        { text: "The only image is the User Submission. It is one milestone of a multi-session project, not the finished piece." },
+        { text: `The project is "${challenge.title}": ${challenge.description}` },
+        { text: `This milestone is "${milestone!.title}": ${milestone!.description}` },
+        { text: "Does the user's work deliver what this milestone asks for with at least 85% accuracy or effort? Judge it as work in progress at this stage; do not expect detail or polish that later milestones add." },
+    ] : reference ? [
         { text: "Compare these two images. Image 1 is the Reference. Image 2 is the User Submission." },
         { text: "The user is trying to recreate the reference. Assess the similarity in shape, composition, and key details." },
         { text: "Does the user's work match the reference with at least 85% accuracy or effort? It does not need to be a pixel-perfect copy, but the subject matter must be the same." },
-        { text: "Return JSON: { \"passed\": boolean, \"score\": number (0-100), \"feedback\": \"string\" }" }
+    ] : [
+        { text: "There is no reference image for this challenge. The only image is the User Submission." },
+        { text: `The challenge is "${challenge.title}": ${challenge.description}` },
+        { text: "Does the user's work fulfil this description with at least 85% accuracy or effort? Judge the subject, composition and key details it asks for, and do not penalise choices the description leaves open." },
     ];
+    if (milestone && !isInterim) instructions.push({ text: `This is the final milestone, "${milestone.title}": ${milestone.description}` });
+    instructions.push({ text: "Return JSON with \"passed\", \"score\" (0-100) and \"feedback\"." });
 
-    const parts: any[] = [];
+    const parts: Part[] = [];
     
-    if (isBase64Ref) {
-        parts.push({ inlineData: { mimeType: 'image/png', data: refData } });
-    }
+    if (reference) parts.push(reference);
     
     parts.push({ inlineData: { mimeType: userImageFile.type, data: userBase64 } });
+    parts.push(...instructions);
     parts.push({ text: "Judge the submission." });
 
     try {
-        const response = await ai.models.generateContent({
+        return await generateStructured({
+            label: 'Challenge evaluation',
             model: MODEL_REASONING,
-            contents: { parts: parts },
-            config: { responseMimeType: "application/json" }
+            parts,
+            schema: challengeEvaluationSchema
         });
-        
-        return parseJSON(response.text || "{}");
     } catch (e) {
+        // No fallback verdict: callers queue the submission until a real evaluation succeeds
         console.error("Evaluation failed", e);
-        // Fallback for demo if API fails
-        return { passed: true, score: 85, feedback: "Good effort! (Auto-passed due to network)" };
+        throw e;
     }
 };
 
 /**
  * Edits an image based on a text prompt using Gemini 2.5 Flash Image.
  */
-export const editImage = async (base64Image: string, prompt: string): Promise<string> => {
+const editImage = async (base64Image: string, prompt: string): Promise<string> => {
     const ai = getAIClient();
     const data = base64Image.includes(',') ? base64Image.split(',')[1] : base64Image;
     
@@ -328,7 +527,40 @@ export const editImage = async (base64Image: string, prompt: string): Promise<st
     }
 }
 
-export const generateHint = async (tool: string, challenge: Challenge): Promise<string> => {
+/**
+ * Draws an explanatory image (diagram, annotated sketch, comparison) for a concept using
+ * Gemini 2.5 Flash Image, with the model's short caption. Unlike reference images there is
+ * no placeholder: a visualization that didn't render is an error the chat shows.
+ */
+const visualizeConcept = async ({ prompt, tool, stepTitle }: VisualizeRequest): Promise<VisualizeResult> => {
+  const ai = getAIClient();
+  const instruction = `Create a clear instructional illustration that explains the following to a learner using ${tool}${stepTitle ? ` (current lesson: "${stepTitle}")` : ''}:
+  "${prompt}"
+  Prefer a clean diagram, annotated sketch or side-by-side comparison over a finished artwork. Use short labels only where they help.
+  After the image, add one or two sentences explaining what it shows.`;
+
+  const response = await ai.models.generateContent({
+    model: MODEL_IMAGE_GEN,
+    contents: { parts: [{ text: instruction }] },
+    config: {
+      imageConfig: { aspectRatio: '1:1' }
+    }
+  });
+
+  let imageUrl = "";
+  const caption: string[] = [];
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData && !imageUrl) {
+      imageUrl = `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+    } else if (part.text && !part.thought) {
+      caption.push(part.text.trim());
+    }
+  }
+  if (!imageUrl) throw new Error("No image generated");
+  return { imageUrl, caption: caption.filter(Boolean).join(' ') };
+};
+
+const generateHint = async (tool: string, challenge: Challenge): Promise<string> => {
   const ai = getAIClient();
   const prompt = `Give a short, precise technical hint for a user using ${tool} to create: "${challenge.title}".
   Description: ${challenge.description}.
@@ -346,17 +578,59 @@ export const generateHint = async (tool: string, challenge: Challenge): Promise<
   }
 };
 
-export const createChatSession = () => {
+// Pasted images arrive as data URLs; the API wants the raw base64 payload
+const chatParts = ({ text, imageDataUrl }: ChatInput): Part[] => {
+  const parts: Part[] = [{ text }];
+  if (imageDataUrl) {
+    const [header, data] = imageDataUrl.split(',');
+    const mimeType = header.match(/data:(.*?);/)?.[1] || 'image/png';
+    parts.unshift({ inlineData: { mimeType, data } });
+  }
+  return parts;
+};
+
+// Parameterless actions are declared without a schema; an empty OBJECT is rejected
+const functionDeclaration = ({ name, description, parameters }: ChatActionDefinition): FunctionDeclaration => {
+  const schema = parameters.toResponseSchema();
+  return { name, description, parameters: Object.keys(schema.properties || {}).length ? schema : undefined };
+};
+
+// Splits streamed chunks into text and function calls; thought parts are not shown
+async function* chatEvents(stream: AsyncGenerator<GenerateContentResponse>): AsyncIterable<ChatEvent> {
+  for await (const chunk of stream) {
+    for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+      if (part.text && !part.thought) yield { kind: 'text', text: part.text };
+      if (part.functionCall?.name) {
+        const { id, name, args = {} } = part.functionCall;
+        yield { kind: 'action', call: { id, name, args } };
+      }
+    }
+  }
+}
+
+const createChatSession = ({ history = [], systemContext, actions = [] }: ChatSessionOptions = {}): ChatSession => {
   const ai = getAIClient();
-  return ai.chats.create({
+  const chat = ai.chats.create({
     model: MODEL_FAST,
     config: {
-      systemInstruction: SYSTEM_INSTRUCTION_MENTOR,
-    }
+      systemInstruction: systemContext ? `${SYSTEM_INSTRUCTION_MENTOR}\n\n${systemContext}` : SYSTEM_INSTRUCTION_MENTOR,
+      tools: actions.length ? [{ functionDeclarations: actions.map(functionDeclaration) }] : undefined,
+    },
+    history: history.map((turn): Content => ({ role: turn.role, parts: chatParts(turn) })),
   });
+
+  return {
+    sendMessageStream: async function* (input: ChatInput) {
+      yield* chatEvents(await chat.sendMessageStream({ message: chatParts(input) }));
+    },
+    sendActionResults: async function* (results) {
+      const parts: Part[] = results.map(({ id, name, response }) => ({ functionResponse: { id, name, response } }));
+      yield* chatEvents(await chat.sendMessageStream({ message: parts }));
+    }
+  };
 };
 
-const fileToBase64 = (file: File): Promise<string> => {
+const fileToBase64 = (file: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -367,4 +641,20 @@ const fileToBase64 = (file: File): Promise<string> => {
     };
     reader.onerror = error => reject(error);
   });
-};
\ No newline at end of file
+};
+
+export const geminiProvider: AIProvider = {
+  name: 'gemini',
+  generateLearningPath,
+  reviseStep,
+  generateRemedialSteps,
+  reviewSubmission,
+  generateDailyChallenge,
+  generateEventChallenge,
+  evaluateChallengeSubmission,
+  editImage,
+  generateHint,
+  generateReferenceImage,
+  visualizeConcept,
+  createChatSession,
+};
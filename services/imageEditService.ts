@@ -0,0 +1,64 @@
+import { ImageEditSession, ImageVersion, ImageVersionRef } from "../types";
+
+/**
+ * Copilot image edit sessions. A pasted image starts a session; every edit adds a version
+ * under the one it was made from, so going back and editing an older version branches the
+ * tree instead of losing the later edits.
+ */
+
+const versionId = (now: number) => `version-${now}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const startEditSession = (imageUrl: string, now: number = Date.now()): ImageEditSession => ({
+  id: `edit-${now}-${Math.random().toString(36).slice(2, 8)}`,
+  versions: [{ id: versionId(now), imageUrl, createdAt: now }],
+});
+
+export const addImageVersion = (
+  session: ImageEditSession,
+  parentId: string,
+  imageUrl: string,
+  prompt: string,
+  now: number = Date.now()
+): { session: ImageEditSession; version: ImageVersion } => {
+  const version: ImageVersion = { id: versionId(now), parentId, imageUrl, prompt, createdAt: now };
+  return { session: { ...session, versions: [...session.versions, version] }, version };
+};
+
+export const findVersion = (sessions: ImageEditSession[] = [], ref?: ImageVersionRef) => {
+  const session = ref && sessions.find(s => s.id === ref.sessionId);
+  const version = session?.versions.find(v => v.id === ref!.versionId);
+  return session && version ? { session, version } : undefined;
+};
+
+export const upsertEditSession = (sessions: ImageEditSession[] = [], session: ImageEditSession) =>
+  sessions.some(s => s.id === session.id) ? sessions.map(s => s.id === session.id ? session : s) : [...sessions, session];
+
+// "Original", then v1, v2... in the order the edits were made
+export const versionLabel = (session: ImageEditSession, id: string) => {
+  const index = session.versions.findIndex(v => v.id === id);
+  return index <= 0 ? 'Original' : `v${index}`;
+};
+
+// Undo steps back to the version an edit was made from; the undone edit stays in the tree
+export const undoTarget = (session: ImageEditSession, id: string) =>
+  session.versions.find(v => v.id === id)?.parentId;
+
+/**
+ * The tree flattened depth-first for display, children in creation order.
+ */
+export const versionTree = (session: ImageEditSession): { version: ImageVersion; depth: number }[] => {
+  const rows: { version: ImageVersion; depth: number }[] = [];
+  const visit = (parentId: string | undefined, depth: number) => {
+    for (const version of session.versions.filter(v => v.parentId === parentId)) {
+      rows.push({ version, depth });
+      visit(version.id, depth + 1);
+    }
+  };
+  visit(undefined, 0);
+  return rows;
+};
+
+export const versionFileName = (session: ImageEditSession, version: ImageVersion) => {
+  const extension = version.imageUrl.match(/^data:image\/(\w+)/)?.[1]?.replace('jpeg', 'jpg') || 'png';
+  return `artifex-edit-${versionLabel(session, version.id).toLowerCase()}.${extension}`;
+};
@@ -0,0 +1,135 @@
+import { marked, Token, Tokens } from "marked";
+import { CHAT_MARKDOWN_LIMITS } from "../constants";
+
+/**
+ * Copilot answers are lexed with marked and rendered as React elements (see MarkdownMessage),
+ * never as an HTML string. Raw HTML in an answer therefore shows up as text; the only tag given
+ * meaning is <kbd>, for keyboard shortcuts.
+ */
+
+export interface MarkdownSection {
+  heading: Tokens.Heading;
+  tokens: Token[];
+}
+
+export interface ParsedMarkdown {
+  intro: Token[]; // Everything before the first section heading
+  sections: MarkdownSection[];
+  collapsible: boolean; // Long answers fold their sections
+}
+
+/**
+ * Splits an answer at its top-level headings (the shallowest depth used). Answers over
+ * `collapseAfterChars` with at least two sections are marked collapsible.
+ */
+export const parseMarkdown = (text: string, limits = CHAT_MARKDOWN_LIMITS): ParsedMarkdown => {
+  const tokens = marked.lexer(text);
+  const depths = tokens.filter((t): t is Tokens.Heading => t.type === 'heading').map(t => t.depth);
+  const level = depths.length ? Math.min(...depths) : 0;
+
+  const intro: Token[] = [];
+  const sections: MarkdownSection[] = [];
+  for (const token of tokens) {
+    if (token.type === 'heading' && token.depth === level) sections.push({ heading: token as Tokens.Heading, tokens: [] });
+    else (sections.length ? sections[sections.length - 1].tokens : intro).push(token);
+  }
+  return { intro, sections, collapsible: sections.length > 1 && text.length > limits.collapseAfterChars };
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0' };
+
+// Text is rendered by React, which escapes it; entities the model wrote are decoded so they don't show literally
+export const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+
+// Only these can be followed or loaded from an answer. Remote images are never loaded on their
+// own: the request alone could carry data out in its URL, so they are offered as links instead.
+export const safeHref = (href: string) => /^(https?:|mailto:)/i.test(href.trim()) ? href.trim() : undefined;
+export const safeImageSrc = (src: string) => /^data:image\//i.test(src.trim()) ? src.trim() : undefined;
+
+const MODIFIER = '(?:ctrl|control|shift|alt|option|opt|cmd|command|super|win|meta|fn)';
+const KEY = '(?:f\\d{1,2}|tab|space|enter|return|esc|escape|delete|del|backspace|home|end|page ?up|page ?down|up|down|left|right|insert|[a-z0-9]|[`~\\-=\\[\\];\',./\\\\])';
+const SHORTCUT = new RegExp(`^(?:${MODIFIER}\\s*\\+\\s*)+${KEY}$`, 'i');
+
+/**
+ * The keys of an inline-code shortcut such as `Ctrl+Shift+R`, or null for ordinary code.
+ * Needs at least one modifier so single letters in code stay code.
+ */
+export const shortcutKeys = (text: string): string[] | null =>
+  SHORTCUT.test(text.trim()) ? text.split('+').map(key => key.trim()) : null;
+
+// --- Code highlighting ---
+
+export type CodeTokenKind = 'keyword' | 'builtin' | 'string' | 'comment' | 'number' | 'plain';
+
+export interface CodeToken {
+  kind: CodeTokenKind;
+  text: string;
+}
+
+// Tried in order at each position; identifiers are consumed whole so keywords never match mid-word
+type Grammar = [CodeTokenKind, RegExp][];
+
+const PYTHON: Grammar = [
+  ['comment', /#.*/y],
+  ['string', /[rbfu]{0,2}("""|''')[\s\S]*?(?:\1|$)/iy],
+  ['string', /[rbfu]{0,2}(["'])(?:\\.|(?!\1)[^\\\n])*\1?/iy],
+  ['number', /\d+(?:\.\d+)?(?:e[+-]?\d+)?\b/iy],
+  ['keyword', /(?:and|as|assert|async|await|break|class|continue|def|del|elif|else|except|finally|for|from|global|if|import|in|is|lambda|nonlocal|not|or|pass|raise|return|try|while|with|yield|True|False|None)\b/y],
+  ['builtin', /(?:bpy|bmesh|mathutils|self|print|len|range|enumerate|zip|list|dict|set|tuple|str|int|float|bool|isinstance|super|open)\b/y],
+  ['plain', /[A-Za-z_]\w*/y],
+];
+
+const AUTOLISP: Grammar = [
+  ['comment', /;\|[\s\S]*?(?:\|;|$)/y],
+  ['comment', /;.*/y],
+  ['string', /"(?:\\.|[^"\\])*"?/y],
+  ['number', /-?\d+(?:\.\d+)?(?![\w-])/y],
+  ['keyword', /(?:defun|defun-q|setq|if|cond|progn|while|repeat|foreach|lambda|and|or|not|quote|function|princ|nil|T)(?![\w:*-])/iy],
+  ['builtin', /(?:command|command-s|entget|entsel|entmod|entmake|entlast|entnext|ssget|ssname|sslength|getpoint|getdist|getstring|getreal|getint|getvar|setvar|assoc|cons|car|cdr|cadr|caddr|list|nth|append|mapcar|apply|strcat|itoa|atoi|rtos|atof|polar|distance|angle|alert|vl-[\w-]+|vla-[\w-]+|vlax-[\w-]+)(?![\w:*-])/iy],
+  ['plain', /[A-Za-z_*:][\w:*-]*/y],
+];
+
+const GRAMMARS: Record<string, Grammar> = {
+  python: PYTHON, py: PYTHON, bpy: PYTHON, blender: PYTHON,
+  autolisp: AUTOLISP, lisp: AUTOLISP, lsp: AUTOLISP,
+};
+
+/**
+ * Splits code into coloured runs for the languages in GRAMMARS; anything else comes back as a
+ * single plain run.
+ */
+export const highlightCode = (code: string, lang?: string): CodeToken[] => {
+  const grammar = lang && Object.prototype.hasOwnProperty.call(GRAMMARS, lang.toLowerCase()) ? GRAMMARS[lang.toLowerCase()] : null;
+  if (!grammar) return [{ kind: 'plain', text: code }];
+
+  const runs: CodeToken[] = [];
+  const push = (kind: CodeTokenKind, text: string) => {
+    const last = runs[runs.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else runs.push({ kind, text });
+  };
+
+  let index = 0;
+  while (index < code.length) {
+    let matched = false;
+    for (const [kind, pattern] of grammar) {
+      pattern.lastIndex = index;
+      const match = pattern.exec(code);
+      if (match && match[0]) {
+        push(kind, match[0]);
+        index += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) push('plain', code[index++]);
+  }
+  return runs;
+};
@@ -0,0 +1,508 @@
+import { MeshFormat, MeshStats, ModelSummary, LabelledImage } from "../types";
+
+/**
+ * In-browser reading of uploaded 3D models (OBJ, STL, glTF/GLB).
+ * Computes exact mesh statistics for the reviewer and renders preview images,
+ * so geometry criteria are checked against real data instead of a screenshot.
+ */
+
+export class MeshParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MeshParseError';
+  }
+}
+
+// Polygons as authored (OBJ keeps quads and n-gons); positions are x, y, z triples
+interface Mesh {
+  positions: number[];
+  faces: number[][];
+  upAxis: 'y' | 'z'; // STL files are conventionally Z-up, the others Y-up
+}
+
+export const MODEL_EXTENSIONS: Record<string, MeshFormat> = { obj: 'obj', stl: 'stl', gltf: 'gltf', glb: 'glb' };
+
+export const MODEL_ACCEPT = Object.keys(MODEL_EXTENSIONS).map(ext => `.${ext}`).join(',');
+
+// glTF specifies metres; STL stores no units, so millimetres are only the usual assumption
+const UNIT_CONVENTIONS: Record<MeshFormat, Pick<MeshStats, 'unit' | 'unitAssumed'>> = {
+  obj: { unit: null, unitAssumed: false },
+  stl: { unit: 'mm', unitAssumed: true },
+  gltf: { unit: 'm', unitAssumed: false },
+  glb: { unit: 'm', unitAssumed: false },
+};
+
+const PREVIEW_SIZE = 768;
+// Previews of very dense meshes draw a subset of faces; the statistics always use all of them
+const MAX_PREVIEW_FACES = 150000;
+
+export const modelFormat = (file: File): MeshFormat | null =>
+  MODEL_EXTENSIONS[file.name.split('.').pop()?.toLowerCase() || ''] || null;
+
+// --- OBJ ---
+
+const parseObj = (text: string): Mesh => {
+  const positions: number[] = [];
+  const faces: number[][] = [];
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('v ')) {
+      const [x, y, z] = line.slice(2).trim().split(/\s+/).map(Number);
+      positions.push(x, y, z);
+    } else if (line.startsWith('f ')) {
+      const vertexCount = positions.length / 3;
+      // "f 1/2/3 4//6 -1": only the position index matters; negative indices count back from the end
+      const face = line.slice(2).trim().split(/\s+/).map(token => {
+        const index = parseInt(token.split('/')[0], 10);
+        return index < 0 ? vertexCount + index : index - 1;
+      });
+      if (face.some(i => !Number.isInteger(i) || i < 0 || i >= vertexCount)) {
+        throw new MeshParseError(`OBJ face references a missing vertex: "${line}"`);
+      }
+      faces.push(face);
+    }
+  }
+
+  if (positions.some(n => !Number.isFinite(n))) throw new MeshParseError('OBJ file contains an unreadable vertex');
+  return { positions, faces, upAxis: 'y' };
+};
+
+// --- STL ---
+
+const parseStl = (buffer: ArrayBuffer): Mesh => {
+  const view = new DataView(buffer);
+  const positions: number[] = [];
+  const faces: number[][] = [];
+
+  // Binary STL: 80-byte header, triangle count, then 50 bytes per triangle
+  const binaryCount = buffer.byteLength >= 84 ? view.getUint32(80, true) : -1;
+  if (binaryCount >= 0 && buffer.byteLength === 84 + binaryCount * 50) {
+    for (let t = 0; t < binaryCount; t++) {
+      const offset = 84 + t * 50 + 12; // Skip the stored normal
+      for (let v = 0; v < 3; v++) {
+        positions.push(
+          view.getFloat32(offset + v * 12, true),
+          view.getFloat32(offset + v * 12 + 4, true),
+          view.getFloat32(offset + v * 12 + 8, true)
+        );
+      }
+      faces.push([t * 3, t * 3 + 1, t * 3 + 2]);
+    }
+    return { positions, faces, upAxis: 'z' };
+  }
+
+  const text = new TextDecoder().decode(buffer);
+  if (!/^\s*solid/.test(text)) throw new MeshParseError('Not a valid STL file');
+  const vertexPattern = /vertex\s+(\S+)\s+(\S+)\s+(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = vertexPattern.exec(text))) positions.push(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  if (positions.length % 9 !== 0 || positions.some(n => !Number.isFinite(n))) {
+    throw new MeshParseError('STL file has incomplete or unreadable facets');
+  }
+  for (let t = 0; t < positions.length / 9; t++) faces.push([t * 3, t * 3 + 1, t * 3 + 2]);
+  return { positions, faces, upAxis: 'z' };
+};
+
+// --- glTF / GLB ---
+
+type Mat4 = number[]; // Column-major, as glTF stores it
+
+const IDENTITY: Mat4 = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+const multiply = (a: Mat4, b: Mat4): Mat4 => {
+  const out = new Array(16).fill(0);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      for (let k = 0; k < 4; k++) out[col * 4 + row] += a[k * 4 + row] * b[col * 4 + k];
+    }
+  }
+  return out;
+};
+
+const fromTrs = (t: number[] = [0, 0, 0], r: number[] = [0, 0, 0, 1], s: number[] = [1, 1, 1]): Mat4 => {
+  const [x, y, z, w] = r;
+  return [
+    (1 - 2 * (y * y + z * z)) * s[0], 2 * (x * y + z * w) * s[0], 2 * (x * z - y * w) * s[0], 0,
+    2 * (x * y - z * w) * s[1], (1 - 2 * (x * x + z * z)) * s[1], 2 * (y * z + x * w) * s[1], 0,
+    2 * (x * z + y * w) * s[2], 2 * (y * z - x * w) * s[2], (1 - 2 * (x * x + y * y)) * s[2], 0,
+    t[0], t[1], t[2], 1,
+  ];
+};
+
+const COMPONENT_READERS: Record<number, { size: number; read: (view: DataView, offset: number) => number }> = {
+  5120: { size: 1, read: (v, o) => v.getInt8(o) },
+  5121: { size: 1, read: (v, o) => v.getUint8(o) },
+  5122: { size: 2, read: (v, o) => v.getInt16(o, true) },
+  5123: { size: 2, read: (v, o) => v.getUint16(o, true) },
+  5125: { size: 4, read: (v, o) => v.getUint32(o, true) },
+  5126: { size: 4, read: (v, o) => v.getFloat32(o, true) },
+};
+
+const TYPE_SIZES: Record<string, number> = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4 };
+
+const decodeDataUri = (uri: string): ArrayBuffer => {
+  const binary = atob(uri.slice(uri.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+// The parts of a glTF document the parser reads; every field is checked before use
+interface GltfDocument {
+  buffers?: { uri?: string }[];
+  bufferViews?: { buffer: number; byteOffset?: number; byteStride?: number }[];
+  accessors?: { bufferView?: number; byteOffset?: number; componentType: number; type: string; count: number; sparse?: unknown }[];
+  meshes?: { primitives?: { mode?: number; indices?: number; attributes?: { POSITION?: number } }[] }[];
+  nodes?: { mesh?: number; children?: number[]; matrix?: Mat4; translation?: number[]; rotation?: number[]; scale?: number[] }[];
+  scenes?: { nodes?: number[] }[];
+  scene?: number;
+}
+
+const asGltfDocument = (json: unknown): GltfDocument => {
+  const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+  const lists = ['buffers', 'bufferViews', 'accessors', 'meshes', 'nodes', 'scenes'];
+  if (!isObject(json) || lists.some(key => {
+    const value = (json as Record<string, unknown>)[key];
+    return value !== undefined && !(Array.isArray(value) && value.every(isObject));
+  })) {
+    throw new MeshParseError('File is not a glTF document');
+  }
+  return json as GltfDocument;
+};
+
+const parseGltfDocument = (json: unknown, binaryChunk: ArrayBuffer | null): Mesh => {
+  const gltf = asGltfDocument(json);
+  const buffers: ArrayBuffer[] = (gltf.buffers || []).map((buffer, i) => {
+    if (buffer.uri?.startsWith('data:')) return decodeDataUri(buffer.uri);
+    if (buffer.uri === undefined && i === 0 && binaryChunk) return binaryChunk;
+    throw new MeshParseError(`glTF references an external file (${buffer.uri}); export as .glb or with embedded buffers`);
+  });
+
+  const readAccessor = (index: number): number[] => {
+    const accessor = gltf.accessors?.[index];
+    if (!accessor || accessor.bufferView === undefined || accessor.sparse) {
+      throw new MeshParseError('glTF accessor is missing or uses an unsupported layout');
+    }
+    const bufferView = gltf.bufferViews?.[accessor.bufferView];
+    const component = COMPONENT_READERS[accessor.componentType];
+    const itemSize = TYPE_SIZES[accessor.type];
+    if (!component || !itemSize) throw new MeshParseError(`Unsupported glTF accessor type ${accessor.type}/${accessor.componentType}`);
+    if (!bufferView || !buffers[bufferView.buffer]) throw new MeshParseError('glTF accessor points to a missing buffer');
+
+    const view = new DataView(buffers[bufferView.buffer], (bufferView.byteOffset || 0) + (accessor.byteOffset || 0));
+    const stride = bufferView.byteStride || component.size * itemSize;
+    const values: number[] = [];
+    for (let i = 0; i < accessor.count; i++) {
+      for (let c = 0; c < itemSize; c++) values.push(component.read(view, i * stride + c * component.size));
+    }
+    return values;
+  };
+
+  const positions: number[] = [];
+  const faces: number[][] = [];
+
+  const addMesh = (meshIndex: number, world: Mat4) => {
+    for (const primitive of gltf.meshes?.[meshIndex]?.primitives || []) {
+      const mode = primitive.mode ?? 4;
+      if (primitive.attributes?.POSITION === undefined || ![4, 5, 6].includes(mode)) continue; // Points and lines have no faces
+
+      const local = readAccessor(primitive.attributes.POSITION);
+      const base = positions.length / 3;
+      for (let i = 0; i < local.length; i += 3) {
+        const [x, y, z] = [local[i], local[i + 1], local[i + 2]];
+        positions.push(
+          world[0] * x + world[4] * y + world[8] * z + world[12],
+          world[1] * x + world[5] * y + world[9] * z + world[13],
+          world[2] * x + world[6] * y + world[10] * z + world[14]
+        );
+      }
+
+      const indices = primitive.indices !== undefined ? readAccessor(primitive.indices) : Array.from({ length: local.length / 3 }, (_, i) => i);
+      if (mode === 4) {
+        for (let i = 0; i + 2 < indices.length; i += 3) faces.push([base + indices[i], base + indices[i + 1], base + indices[i + 2]]);
+      } else {
+        for (let i = 2; i < indices.length; i++) {
+          const face = mode === 6 ? [indices[0], indices[i - 1], indices[i]] : i % 2 ? [indices[i - 1], indices[i - 2], indices[i]] : [indices[i - 2], indices[i - 1], indices[i]];
+          faces.push(face.map(v => base + v));
+        }
+      }
+    }
+  };
+
+  const visit = (nodeIndex: number, parent: Mat4, depth: number) => {
+    const node = gltf.nodes?.[nodeIndex];
+    if (!node || depth > 64) return;
+    const world = multiply(parent, node.matrix || fromTrs(node.translation, node.rotation, node.scale));
+    if (node.mesh !== undefined) addMesh(node.mesh, world);
+    (node.children || []).forEach(child => visit(child, world, depth + 1));
+  };
+
+  const scene = gltf.scenes?.[gltf.scene ?? 0];
+  if (scene) (scene.nodes || []).forEach(nodeIndex => visit(nodeIndex, IDENTITY, 0));
+  else (gltf.meshes || []).forEach((_, i) => addMesh(i, IDENTITY));
+
+  return { positions, faces, upAxis: 'y' };
+};
+
+const parseGlb = (buffer: ArrayBuffer): Mesh => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 20 || view.getUint32(0, true) !== 0x46546c67) throw new MeshParseError('Not a valid GLB file');
+
+  let json: unknown = null;
+  let binary: ArrayBuffer | null = null;
+  for (let offset = 12; offset + 8 <= buffer.byteLength;) {
+    const length = view.getUint32(offset, true);
+    const type = view.getUint32(offset + 4, true);
+    const chunk = buffer.slice(offset + 8, offset + 8 + length);
+    if (type === 0x4e4f534a) json = JSON.parse(new TextDecoder().decode(chunk));
+    else if (type === 0x004e4942) binary = chunk;
+    offset += 8 + length;
+  }
+  if (!json) throw new MeshParseError('GLB file has no JSON chunk');
+  return parseGltfDocument(json, binary);
+};
+
+const parseMesh = async (file: File, format: MeshFormat): Promise<Mesh> => {
+  switch (format) {
+    case 'obj': return parseObj(await file.text());
+    case 'stl': return parseStl(await file.arrayBuffer());
+    case 'glb': return parseGlb(await file.arrayBuffer());
+    case 'gltf': {
+      let json: unknown;
+      try {
+        json = JSON.parse(await file.text());
+      } catch {
+        throw new MeshParseError('glTF file is not valid JSON');
+      }
+      return parseGltfDocument(json, null);
+    }
+  }
+};
+
+// --- Statistics ---
+
+const boundsOf = (positions: number[]) => {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], positions[i + axis]);
+      max[axis] = Math.max(max[axis], positions[i + axis]);
+    }
+  }
+  return { min, max };
+};
+
+/**
+ * Merges vertices at the same position. STL stores every triangle separately and glTF splits
+ * vertices along UV seams, so topology can only be judged on welded positions.
+ */
+const weld = (mesh: Mesh): Mesh => {
+  const { min, max } = boundsOf(mesh.positions);
+  const epsilon = Math.max(Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]) * 1e-6, 1e-12);
+  const ids = new Map<string, number>();
+  const remap: number[] = [];
+  const positions: number[] = [];
+
+  for (let i = 0; i < mesh.positions.length; i += 3) {
+    const key = [0, 1, 2].map(axis => Math.round(mesh.positions[i + axis] / epsilon)).join(',');
+    let id = ids.get(key);
+    if (id === undefined) {
+      id = positions.length / 3;
+      ids.set(key, id);
+      positions.push(mesh.positions[i], mesh.positions[i + 1], mesh.positions[i + 2]);
+    }
+    remap.push(id);
+  }
+  return { ...mesh, positions, faces: mesh.faces.map(face => face.map(i => remap[i])) };
+};
+
+export const computeMeshStats = (mesh: Mesh, format: MeshFormat): MeshStats => {
+  const welded = weld(mesh);
+  const used = new Set<number>();
+  const edgeUses = new Map<number, number>();
+  const vertexTotal = welded.positions.length / 3;
+  let degenerateFaces = 0;
+  let quadCount = 0;
+  let ngonCount = 0;
+  let triangleCount = 0;
+
+  for (const face of welded.faces) {
+    if (face.length === 4) quadCount++;
+    if (face.length > 4) ngonCount++;
+    triangleCount += Math.max(0, face.length - 2);
+    if (new Set(face).size < 3) {
+      degenerateFaces++;
+      continue;
+    }
+    face.forEach((a, i) => {
+      used.add(a);
+      const b = face[(i + 1) % face.length];
+      if (a === b) return;
+      const key = Math.min(a, b) * vertexTotal + Math.max(a, b);
+      edgeUses.set(key, (edgeUses.get(key) || 0) + 1);
+    });
+  }
+
+  let boundaryEdges = 0;
+  let nonManifoldEdges = 0;
+  edgeUses.forEach(uses => {
+    if (uses === 1) boundaryEdges++;
+    else if (uses > 2) nonManifoldEdges++;
+  });
+
+  // Only vertices a face uses count, like vertexCount; loose points would inflate the size
+  const usedPositions = Array.from(used).flatMap(i => welded.positions.slice(i * 3, i * 3 + 3));
+  const { min, max } = used.size ? boundsOf(usedPositions) : { min: [0, 0, 0], max: [0, 0, 0] };
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+
+  return {
+    format,
+    vertexCount: used.size,
+    faceCount: welded.faces.length,
+    triangleCount,
+    quadCount,
+    ngonCount,
+    degenerateFaces,
+    boundaryEdges,
+    nonManifoldEdges,
+    watertight: welded.faces.length > degenerateFaces && boundaryEdges === 0 && nonManifoldEdges === 0,
+    dimensions: [round(max[0] - min[0]), round(max[1] - min[1]), round(max[2] - min[2])],
+    ...UNIT_CONVENTIONS[format],
+  };
+};
+
+// Plain-text summary for prompts and tooltips
+export const describeMeshStats = (stats: MeshStats) => {
+  const unit = !stats.unit
+    ? ' (units not stored in the file)'
+    : stats.unitAssumed ? `, assumed ${stats.unit} (${stats.format.toUpperCase()} has no units)` : ` ${stats.unit}`;
+  return [
+    `Format: ${stats.format.toUpperCase()}`,
+    `Vertices: ${stats.vertexCount}`,
+    `Faces: ${stats.faceCount} (${stats.triangleCount} triangles after triangulation; ${stats.quadCount} quads, ${stats.ngonCount} n-gons)`,
+    `Bounding dimensions (x, y, z): ${stats.dimensions.join(' x ')}${unit}`,
+    `Open boundary edges: ${stats.boundaryEdges}`,
+    `Non-manifold edges: ${stats.nonManifoldEdges}`,
+    `Degenerate faces: ${stats.degenerateFaces}`,
+    `Watertight: ${stats.watertight ? 'yes' : 'no'}`,
+  ].join('\n');
+};
+
+// --- Preview rendering ---
+
+type PreviewStyle = 'shaded' | 'wireframe';
+
+/**
+ * Draws a three-quarter orthographic view on a 2D canvas: painter's-algorithm flat shading,
+ * or the authored polygon edges (so quads and n-gons show as such).
+ */
+const renderPreview = (mesh: Mesh, style: PreviewStyle, size: number): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas is not available'));
+
+  ctx.fillStyle = style === 'wireframe' ? '#0f172a' : '#e5e7eb';
+  ctx.fillRect(0, 0, size, size);
+
+  const { min, max } = boundsOf(mesh.positions);
+  const center = [0, 1, 2].map(axis => (min[axis] + max[axis]) / 2);
+  const yaw = Math.PI / 4;
+  const pitch = Math.PI / 7;
+
+  // Model space -> view space, with Z-up files turned to Y-up first
+  const projected: number[] = [];
+  for (let i = 0; i < mesh.positions.length; i += 3) {
+    let x = mesh.positions[i] - center[0];
+    let y = mesh.positions[i + 1] - center[1];
+    let z = mesh.positions[i + 2] - center[2];
+    if (mesh.upAxis === 'z') [y, z] = [z, -y];
+    const x1 = x * Math.cos(yaw) + z * Math.sin(yaw);
+    const z1 = -x * Math.sin(yaw) + z * Math.cos(yaw);
+    projected.push(x1, y * Math.cos(pitch) - z1 * Math.sin(pitch), y * Math.sin(pitch) + z1 * Math.cos(pitch));
+  }
+
+  let extent = 0;
+  for (let i = 0; i < projected.length; i += 3) extent = Math.max(extent, Math.abs(projected[i]), Math.abs(projected[i + 1]));
+  const scale = extent > 0 ? (size * 0.42) / extent : 1;
+  const sx = (i: number) => size / 2 + projected[i * 3] * scale;
+  const sy = (i: number) => size / 2 - projected[i * 3 + 1] * scale;
+
+  const stride = Math.max(1, Math.ceil(mesh.faces.length / MAX_PREVIEW_FACES));
+  const faces = stride === 1 ? mesh.faces : mesh.faces.filter((_, i) => i % stride === 0);
+
+  if (style === 'wireframe') {
+    ctx.strokeStyle = 'rgba(32, 190, 255, 0.8)';
+    ctx.lineWidth = faces.length > 20000 ? 0.3 : 0.8;
+    ctx.beginPath();
+    for (const face of faces) {
+      ctx.moveTo(sx(face[0]), sy(face[0]));
+      for (let i = 1; i <= face.length; i++) ctx.lineTo(sx(face[i % face.length]), sy(face[i % face.length]));
+    }
+    ctx.stroke();
+  } else {
+    const light = [0.4, 0.7, 0.6];
+    const lightLength = Math.hypot(light[0], light[1], light[2]);
+    const shaded = faces.flatMap(face => {
+      // Fan triangulation keeps n-gons shaded; two-sided lighting copes with flipped normals
+      const triangles: { points: number[]; depth: number; shade: number }[] = [];
+      for (let i = 1; i + 1 < face.length; i++) {
+        const [a, b, c] = [face[0], face[i], face[i + 1]].map(v => v * 3);
+        const u = [projected[b] - projected[a], projected[b + 1] - projected[a + 1], projected[b + 2] - projected[a + 2]];
+        const v = [projected[c] - projected[a], projected[c + 1] - projected[a + 1], projected[c + 2] - projected[a + 2]];
+        const n = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+        const length = Math.hypot(n[0], n[1], n[2]) || 1;
+        const lambert = Math.abs(n[0] * light[0] + n[1] * light[1] + n[2] * light[2]) / (length * lightLength);
+        triangles.push({ points: [a / 3, b / 3, c / 3], depth: (projected[a + 2] + projected[b + 2] + projected[c + 2]) / 3, shade: 0.25 + 0.75 * lambert });
+      }
+      return triangles;
+    });
+    shaded.sort((p, q) => p.depth - q.depth); // Farthest first
+
+    for (const { points, shade } of shaded) {
+      const tone = Math.round(60 + 170 * shade);
+      ctx.fillStyle = ctx.strokeStyle = `rgb(${tone}, ${tone}, ${Math.min(255, tone + 20)})`;
+      ctx.beginPath();
+      ctx.moveTo(sx(points[0]), sy(points[0]));
+      ctx.lineTo(sx(points[1]), sy(points[1]));
+      ctx.lineTo(sx(points[2]), sy(points[2]));
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke(); // Hides hairline gaps between neighbouring triangles
+    }
+  }
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode preview')), 'image/png'));
+};
+
+/**
+ * Reads a model file and returns its statistics together with shaded and wireframe previews,
+ * labelled so they can be submitted alongside ordinary images.
+ */
+export const analyzeModelFile = async (file: File): Promise<{ summary: ModelSummary; previews: LabelledImage[] }> => {
+  const format = modelFormat(file);
+  if (!format) throw new MeshParseError(`Unsupported model format: ${file.name}`);
+
+  const mesh = await parseMesh(file, format);
+  if (mesh.faces.length === 0) throw new MeshParseError(`${file.name} contains no faces`);
+
+  const stats = computeMeshStats(mesh, format);
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  const [shaded, wireframe] = await Promise.all([
+    renderPreview(mesh, 'shaded', PREVIEW_SIZE),
+    renderPreview(mesh, 'wireframe', PREVIEW_SIZE),
+  ]);
+
+  return {
+    summary: { fileName: file.name, stats },
+    previews: [
+      { view: 'perspective', file: new File([shaded], `${baseName}-shaded.png`, { type: 'image/png' }), source: file.name },
+      { view: 'wireframe', file: new File([wireframe], `${baseName}-wireframe.png`, { type: 'image/png' }), source: file.name },
+    ],
+  };
+};
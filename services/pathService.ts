@@ -0,0 +1,166 @@
+import { LearningPath, Step, GeneratedStep, StepRevisionAction, StepAttachment } from "../types";
+import { REMEDIAL_STEPS } from "../constants";
+import { createThumbnail } from "./attemptService";
+
+// Generated images are saved on the step at this size so the path record stays light
+const ATTACHMENT_IMAGE_SIZE = 768;
+
+export const REVISION_ACTIONS: { action: StepRevisionAction; label: string; description: string }[] = [
+  { action: 'regenerate', label: 'Regenerate', description: 'Same goal, different approach' },
+  { action: 'split', label: 'Split', description: 'Break into smaller steps' },
+  { action: 'easier', label: 'Make Easier', description: 'Smaller scope, more guidance' },
+  { action: 'harder', label: 'Make Harder', description: 'Bigger scope, stricter criteria' },
+  { action: 'insert', label: 'Insert After', description: 'Add a new step after this one' },
+];
+
+// Completed steps keep their content (their XP is already in the ledger); only inserting after them is allowed
+export const canReviseStep = (step: Step, action: StepRevisionAction) =>
+  action === 'insert' || step.status !== 'completed';
+
+const uniqueId = (taken: Set<string>, base: string) => {
+  let id = base;
+  let suffix = 2;
+  while (taken.has(id)) id = `${base}-${suffix++}`;
+  taken.add(id);
+  return id;
+};
+
+/**
+ * Completed steps stay completed; the first remaining step is active and the rest are locked.
+ * Remedial steps sit outside that sequence: they are open as soon as they exist and never block.
+ * Keeps progress coherent after steps are added, removed or replaced.
+ */
+export const normalizeProgress = (steps: Step[]): Step[] => {
+  let activeAssigned = false;
+  return steps.map(step => {
+    if (step.status === 'completed') return step;
+    if (step.remedialFor) return step.status === 'active' ? step : { ...step, status: 'active' as const };
+    const status = activeAssigned ? 'locked' as const : 'active' as const;
+    activeAssigned = true;
+    return { ...step, status };
+  });
+};
+
+const withTotals = (path: LearningPath, steps: Step[]): LearningPath => {
+  const normalized = normalizeProgress(steps);
+  return { ...path, steps: normalized, totalXp: normalized.reduce((sum, s) => sum + s.xpReward, 0) };
+};
+
+// Split parts share the original reward so the path total doesn't drift
+const distributeXp = (steps: GeneratedStep[], total: number): GeneratedStep[] => {
+  const weights = steps.map(s => Math.max(1, s.xpReward));
+  const weightSum = weights.reduce((a, b) => a + b, 0);
+  let remaining = total;
+  return steps.map((s, i) => {
+    const xpReward = i === steps.length - 1 ? remaining : Math.round(total * weights[i] / weightSum);
+    remaining -= xpReward;
+    return { ...s, xpReward: Math.max(0, xpReward) };
+  });
+};
+
+/**
+ * Inserts generated steps into the path at `index`, giving them ids that don't clash with existing steps.
+ */
+export const insertSteps = (path: LearningPath, index: number, generated: GeneratedStep[], idPrefix: string): LearningPath => {
+  const taken = new Set(path.steps.map(s => s.id));
+  const inserted: Step[] = generated.map(g => ({ ...g, id: uniqueId(taken, g.id && !taken.has(g.id) ? g.id : idPrefix), status: 'locked' }));
+  return withTotals(path, [...path.steps.slice(0, index), ...inserted, ...path.steps.slice(index)]);
+};
+
+/**
+ * Applies the model's output for a revision action to the path.
+ * Replacements keep the original step id so selection and references survive the edit.
+ */
+export const applyStepRevision = (path: LearningPath, stepId: string, action: StepRevisionAction, generated: GeneratedStep[]): LearningPath => {
+  const index = path.steps.findIndex(s => s.id === stepId);
+  if (index === -1 || generated.length === 0) return path;
+  const original = path.steps[index];
+
+  if (action === 'insert') return insertSteps(path, index + 1, generated.slice(0, 1), `${stepId}-next`);
+
+  const parts = action === 'split' ? distributeXp(generated, original.xpReward) : generated.slice(0, 1);
+  const taken = new Set(path.steps.map(s => s.id));
+  const replacement: Step[] = parts.map((part, i) => ({
+    ...part,
+    remedialFor: original.remedialFor,
+    optional: original.optional,
+    id: i === 0 ? stepId : uniqueId(taken, `${stepId}-${i + 1}`),
+    status: i === 0 ? original.status : 'locked',
+  }));
+
+  return withTotals(path, [...path.steps.slice(0, index), ...replacement, ...path.steps.slice(index + 1)]);
+};
+
+/**
+ * Marks a step as passed. Remedial steps generated for it that weren't done become optional.
+ */
+export const completeStep = (path: LearningPath, stepId: string): LearningPath => ({
+  ...path,
+  steps: normalizeProgress(path.steps.map(step => {
+    if (step.id === stepId) return { ...step, status: 'completed' as const };
+    if (step.remedialFor === stepId && step.status !== 'completed') return { ...step, optional: true };
+    return step;
+  })),
+});
+
+export const recordReviewFailure = (path: LearningPath, stepId: string, feedback: string): LearningPath => ({
+  ...path,
+  steps: path.steps.map(step => step.id === stepId ? { ...step, failedReviews: [...(step.failedReviews || []), feedback] } : step),
+});
+
+export const setMiniStepDone = (path: LearningPath, stepId: string, index: number, done: boolean): LearningPath => ({
+  ...path,
+  steps: path.steps.map(step => {
+    if (step.id !== stepId) return step;
+    const others = (step.doneDetailedSteps || []).filter(i => i !== index);
+    return { ...step, doneDetailedSteps: done ? [...others, index].sort((a, b) => a - b) : others };
+  }),
+});
+
+/**
+ * Downscales an image from the Copilot for saving on a step. Keeps the original URL when the
+ * image can't be decoded (remote placeholders, or SVG in browsers that won't rasterize it).
+ */
+export const createStepAttachment = async (imageUrl: string, caption: string, now: number = Date.now()): Promise<StepAttachment> => {
+  let savedUrl = imageUrl;
+  try {
+    const blob = await (await fetch(imageUrl)).blob();
+    savedUrl = await createThumbnail(blob, ATTACHMENT_IMAGE_SIZE) || imageUrl;
+  } catch (error) {
+    console.warn("Could not downscale step attachment:", error);
+  }
+  return { id: `attachment-${now}-${Math.random().toString(36).slice(2, 8)}`, imageUrl: savedUrl, caption, addedAt: now };
+};
+
+export const addStepAttachment = (path: LearningPath, stepId: string, attachment: StepAttachment): LearningPath => ({
+  ...path,
+  steps: path.steps.map(step => step.id === stepId ? { ...step, attachments: [...(step.attachments || []), attachment] } : step),
+});
+
+export const removeStepAttachment = (path: LearningPath, stepId: string, attachmentId: string): LearningPath => ({
+  ...path,
+  steps: path.steps.map(step => step.id === stepId ? { ...step, attachments: (step.attachments || []).filter(a => a.id !== attachmentId) } : step),
+});
+
+export const remedialStepsFor = (path: LearningPath, stepId: string) =>
+  path.steps.filter(step => step.remedialFor === stepId);
+
+// Practice steps are generated once per step, after enough failed reviews
+export const needsRemediation = (path: LearningPath, stepId: string, afterFailures: number = REMEDIAL_STEPS.afterFailures) => {
+  const step = path.steps.find(s => s.id === stepId);
+  return !!step && !step.remedialFor && step.status !== 'completed'
+    && (step.failedReviews?.length || 0) >= afterFailures
+    && remedialStepsFor(path, stepId).length === 0;
+};
+
+/**
+ * Inserts practice steps directly before the failing step. Their XP is a fixed share of the
+ * failing step's reward, whatever the model suggested.
+ */
+export const insertRemedialSteps = (path: LearningPath, stepId: string, generated: GeneratedStep[]): LearningPath => {
+  const index = path.steps.findIndex(s => s.id === stepId);
+  if (index === -1 || !needsRemediation(path, stepId, 0)) return path;
+  const xpReward = Math.round(path.steps[index].xpReward * REMEDIAL_STEPS.xpShare);
+  const remedial = generated.slice(0, REMEDIAL_STEPS.maxSteps).map(g => ({ ...g, id: '', xpReward, remedialFor: stepId }));
+  return insertSteps(path, index, remedial, `${stepId}-practice`);
+};
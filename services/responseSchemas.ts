@@ -0,0 +1,108 @@
+import * as s from "./schema";
+import { SubmissionView } from "../types";
+import { SUBMISSION_VIEWS } from "../constants";
+
+/**
+ * Shapes of every JSON response we ask the models for.
+ * Used both as `responseSchema` in generation config and to validate/repair the reply.
+ */
+
+const SUBMISSION_VIEW_IDS = Object.keys(SUBMISSION_VIEWS) as SubmissionView[];
+
+const stepSchema = s.object({
+  id: s.withDefault(s.string(), ''),
+  title: s.string(),
+  description: s.string('Detailed instructions for this module'),
+  criteria: s.array(s.string(), { minItems: 1, description: 'Checkable success criteria' }),
+  detailedSteps: s.withDefault(s.array(s.string(), { description: '3-5 granular, actionable mini-steps' }), []),
+  xpReward: s.withDefault(s.number({ min: 0, integer: true }), 100),
+  requiresModel: s.withDefault(s.boolean('True when criteria need measured geometry (polycount, dimensions, watertightness)'), false),
+  requiresDrawing: s.withDefault(s.boolean('True when criteria need a CAD drawing file (layers, dimension annotations, units)'), false),
+  requiredViews: s.withDefault(s.array(s.oneOf(SUBMISSION_VIEW_IDS), { description: 'Image views a reviewer needs to judge the criteria; empty if one image is enough' }), []),
+});
+
+// Fill missing ids and de-duplicate repeated ones so steps can be addressed reliably
+const ensureUniqueIds = <T extends { id: string }>(items: T[], prefix: string): T[] => {
+  const seen = new Set<string>();
+  const explicitIds = new Set(items.map(item => item.id).filter(Boolean));
+  return items.map((item, index) => {
+    const base = item.id || `${prefix}-${index + 1}`;
+    let id = base;
+    let suffix = 2;
+    // Generated ids must not steal an id the model assigned to a later item
+    while (seen.has(id) || (!item.id && explicitIds.has(id))) id = `${base}-${suffix++}`;
+    seen.add(id);
+    return { ...item, id };
+  });
+};
+
+export const learningPathSchema = s.transform(
+  s.object({
+    title: s.string('Creative name for the path'),
+    description: s.withDefault(s.string('Short overview'), ''),
+    totalXp: s.withDefault(s.number({ min: 0, integer: true }), 0),
+    steps: s.array(stepSchema, { minItems: 1 }),
+  }),
+  path => {
+    const steps = ensureUniqueIds(path.steps, 'step');
+    const stepXp = steps.reduce((sum, step) => sum + step.xpReward, 0);
+    return { ...path, steps, totalXp: path.totalXp || stepXp };
+  }
+);
+
+// New steps for an existing path: revisions, insertions and remedial practice steps
+export const stepListSchema = s.transform(
+  s.object({
+    steps: s.array(stepSchema, { minItems: 1 }),
+  }),
+  revision => ({ steps: ensureUniqueIds(revision.steps, 'step') })
+);
+
+// Only the rubric comes from the model; the overall verdict is derived locally (see rubricService)
+export const reviewRubricSchema = s.object({
+  criteria: s.array(s.object({
+    criterion: s.string('The criterion text, copied verbatim'),
+    verdict: s.oneOf(['met', 'partial', 'unmet'] as const),
+    score: s.number({ min: 0, max: 100, integer: true, description: '0-100' }),
+    comment: s.string('One or two sentences on what meets or misses this criterion'),
+  }), { description: 'One entry per success criterion, in the given order' }),
+  feedback: s.string('Overall constructive feedback, encouraging but strict'),
+});
+
+export const challengeDesignSchema = s.transform(
+  s.object({
+    title: s.string(),
+    theme: s.string(),
+    description: s.string(),
+    imagePrompt: s.string('A descriptive prompt to generate a reference image for this object'),
+    goldTime: s.number({ min: 1, integer: true, description: 'Minutes, aggressive estimate' }),
+    silverTime: s.number({ min: 1, integer: true, description: 'Minutes, average estimate' }),
+    bronzeTime: s.number({ min: 1, integer: true, description: 'Minutes, relaxed estimate' }),
+  }),
+  // Tiers must be increasing; the model occasionally swaps them
+  design => {
+    const [goldTime, silverTime, bronzeTime] = [design.goldTime, design.silverTime, design.bronzeTime].sort((a, b) => a - b);
+    return { ...design, goldTime, silverTime, bronzeTime };
+  }
+);
+
+// Exactly the kind's milestone count: XP is paid per milestone, and the completion bonus assumes all of them
+export const eventDesignSchema = (milestoneCount: number) => s.object({
+  title: s.string(),
+  theme: s.string(),
+  description: s.string('Overview of the whole project'),
+  imagePrompt: s.string('A descriptive prompt to generate a reference image of the finished piece'),
+  milestones: s.array(
+    s.object({
+      title: s.string(),
+      description: s.string('What to deliver for this milestone'),
+    }),
+    { minItems: milestoneCount, maxItems: milestoneCount }
+  ),
+});
+
+export const challengeEvaluationSchema = s.object({
+  passed: s.boolean('Whether the submission matches the reference'),
+  score: s.number({ min: 0, max: 100, description: 'Similarity score from 0 to 100' }),
+  feedback: s.string(),
+});
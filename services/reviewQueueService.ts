@@ -0,0 +1,97 @@
+import { PendingReview, PendingStepReview, PendingChallengeReview, PendingMilestoneReview, ReviewResult, ChallengeEvaluation } from "../types";
+import { REVIEW_RETRY } from "../constants";
+import { reviewSubmission } from "./aiService";
+import { evaluateAgainstReference } from "./similarityService";
+
+/**
+ * Submissions whose evaluation failed wait here for a real verdict instead of being passed or
+ * failed by a fallback. Nothing is rewarded until a retry succeeds. Entries that run out of
+ * attempts, or fail in a way retrying can't fix, stop retrying and wait for the user.
+ */
+
+// The submission can't be evaluated as stored, e.g. its uploaded file can no longer be read
+export class UnreviewableSubmissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnreviewableSubmissionError';
+  }
+}
+
+// The submission itself; queue bookkeeping is filled in here
+type QueueFields = 'id' | 'queuedAt' | 'attempts' | 'nextAttemptAt' | 'lastError' | 'failedAt';
+type NewPendingReview = Omit<PendingStepReview, QueueFields> | Omit<PendingChallengeReview, QueueFields> | Omit<PendingMilestoneReview, QueueFields>;
+
+const describeError = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// Seconds to wait after the given number of failed evaluations
+export const retryDelaySeconds = (attempts: number, retry = REVIEW_RETRY) =>
+  Math.min(retry.maxDelaySeconds, retry.baseDelaySeconds * 2 ** Math.max(0, attempts - 1));
+
+// Bookkeeping after the given number of failed evaluations, the latest failing with `error`
+const afterFailure = (attempts: number, error: unknown, now: number) => {
+  const givesUp = error instanceof UnreviewableSubmissionError || attempts >= REVIEW_RETRY.maxAttempts;
+  return {
+    attempts,
+    nextAttemptAt: now + retryDelaySeconds(attempts) * 1000,
+    lastError: describeError(error),
+    failedAt: givesUp ? now : undefined,
+  };
+};
+
+// Queues a submission whose first evaluation just failed
+export const createPendingReview = (fields: NewPendingReview, error: unknown, now: number = Date.now()): PendingReview => {
+  const review: PendingStepReview | PendingChallengeReview | PendingMilestoneReview = {
+    ...fields,
+    id: `pending-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    queuedAt: now,
+    ...afterFailure(1, error, now),
+  };
+  return review;
+};
+
+export const recordRetryFailure = <T extends PendingReview>(review: T, error: unknown, now: number = Date.now()): T => ({
+  ...review,
+  ...afterFailure(review.attempts + 1, error, now),
+});
+
+// Also how the user retries an entry that stopped; it gets one more try
+export const retryNow = <T extends PendingReview>(review: T, now: number = Date.now()): T => ({ ...review, nextAttemptAt: now, failedAt: undefined });
+
+// Oldest first; entries that stopped retrying are never due
+export const dueReviews = (queue: PendingReview[], now: number = Date.now()) =>
+  queue.filter(r => !r.failedAt && r.nextAttemptAt <= now).sort((a, b) => a.queuedAt - b.queuedAt);
+
+export const nextDueAt = (queue: PendingReview[]) => {
+  const waiting = queue.filter(r => !r.failedAt);
+  return waiting.length ? Math.min(...waiting.map(r => r.nextAttemptAt)) : null;
+};
+
+const uploadedFiles = (pending: PendingReview): unknown[] =>
+  pending.kind === 'step' ? pending.request.images.map(image => image.file) : [pending.file];
+
+// Stored uploads can disappear (e.g. storage cleared under the app); no retry brings them back
+const assertUploadsReadable = async (pending: PendingReview) => {
+  for (const file of uploadedFiles(pending)) {
+    if (!(file instanceof Blob)) throw new UnreviewableSubmissionError('The uploaded file was not saved with the submission');
+    try {
+      await file.slice(0, 1).arrayBuffer();
+    } catch {
+      throw new UnreviewableSubmissionError('The uploaded file can no longer be read');
+    }
+  }
+};
+
+export type PendingVerdict =
+  | { kind: 'step'; review: ReviewResult }
+  | { kind: 'challenge' | 'milestone'; evaluation: ChallengeEvaluation };
+
+/**
+ * Runs the evaluation again. Rejects when the service is still unavailable, or with an
+ * UnreviewableSubmissionError when the stored upload can't be evaluated at all.
+ */
+export const evaluatePendingReview = async (pending: PendingReview): Promise<PendingVerdict> => {
+  await assertUploadsReadable(pending);
+  if (pending.kind === 'step') return { kind: 'step', review: await reviewSubmission(pending.request) };
+  const milestone = pending.kind === 'milestone' ? pending.challenge.milestones?.find(m => m.id === pending.milestoneId) : undefined;
+  return { kind: pending.kind, evaluation: await evaluateAgainstReference(pending.challenge, pending.file, milestone) };
+};
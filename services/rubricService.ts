@@ -0,0 +1,53 @@
+import { CriterionResult, ReviewResult } from "../types";
+import { REVIEW_RUBRIC } from "../constants";
+import { Infer } from "./schema";
+import { reviewRubricSchema } from "./responseSchemas";
+
+export type ReviewRubric = Infer<typeof reviewRubricSchema>;
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const notAssessed = (criterion: string): CriterionResult => ({
+  criterion,
+  verdict: 'unmet',
+  score: 0,
+  comment: 'The reviewer did not assess this criterion.',
+});
+
+/**
+ * Lines the model's rubric up with the step's criteria: by text first, then by position.
+ * Criteria the model skipped count as unmet, so a partial answer can never pass.
+ */
+export const alignRubric = (criteria: string[], results: CriterionResult[]): CriterionResult[] => {
+  const unused = [...results];
+  const byText = criteria.map(criterion => {
+    const index = unused.findIndex(r => normalize(r.criterion) === normalize(criterion));
+    return index === -1 ? null : unused.splice(index, 1)[0];
+  });
+  return criteria.map((criterion, i) => ({ ...(byText[i] || unused.shift() || notAssessed(criterion)), criterion }));
+};
+
+export const rubricScore = (results: CriterionResult[]) =>
+  results.length ? Math.round(results.reduce((sum, r) => sum + r.score, 0) / results.length) : 0;
+
+export const rubricPasses = (results: CriterionResult[], rubric = REVIEW_RUBRIC) =>
+  results.length > 0
+    && rubricScore(results) >= rubric.passScore
+    && results.filter(r => r.verdict === 'unmet').length <= rubric.maxUnmet;
+
+/**
+ * Turns the model's rubric into a review result; the overall verdict follows REVIEW_RUBRIC.
+ */
+export const applyRubric = (criteria: string[], rubric: ReviewRubric, thresholds = REVIEW_RUBRIC): ReviewResult => {
+  const results = alignRubric(criteria, rubric.criteria);
+  return {
+    passed: rubricPasses(results, thresholds),
+    score: rubricScore(results),
+    criteria: results,
+    feedback: rubric.feedback,
+  };
+};
+
+// Results from a past review that still apply to the step's current criteria (steps can be revised)
+export const resultsForCriteria = (criteria: string[], results: CriterionResult[] = []) =>
+  criteria.map(criterion => results.find(r => normalize(r.criterion) === normalize(criterion)) || null);
@@ -0,0 +1,187 @@
+import { Schema, Type } from "@google/genai";
+
+/**
+ * Minimal runtime schema toolkit for model responses.
+ * Each validator both coerces near-misses (e.g. "42" -> 42, "false" -> false) and
+ * describes itself as an SDK `responseSchema`, so one definition drives generation and checking.
+ */
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface Validator<out T> {
+  // Returns the coerced value; anything that can't be repaired is pushed to `issues`
+  parse: (value: unknown, path: string, issues: ValidationIssue[]) => T;
+  toResponseSchema: () => Schema;
+  // Missing values are filled in without an issue (used to build `required`)
+  hasDefault?: boolean;
+}
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+export class SchemaValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(label: string, issues: ValidationIssue[]) {
+    super(`Invalid ${label} response: ${formatIssues(issues)}`);
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+export const formatIssues = (issues: ValidationIssue[]) =>
+  issues.map(i => `${i.path || '(root)'} ${i.message}`).join('; ');
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+const describe = (value: unknown) => Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+// --- Primitives ---
+
+export const string = (description?: string): Validator<string> => ({
+  parse: (value, path, issues) => {
+    if (typeof value === 'string') return value.trim();
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    issues.push({ path, message: isMissing(value) ? 'is required' : `should be a string, got ${describe(value)}` });
+    return '';
+  },
+  toResponseSchema: () => ({ type: Type.STRING, description }),
+});
+
+export const number = (options: { min?: number; max?: number; integer?: boolean; description?: string } = {}): Validator<number> => ({
+  parse: (value, path, issues) => {
+    let n = NaN;
+    if (typeof value === 'number') n = value;
+    // "42", " 42 ", "85%"
+    else if (typeof value === 'string' && /^\s*-?\d+(\.\d+)?\s*%?\s*$/.test(value)) n = parseFloat(value);
+
+    if (!Number.isFinite(n)) {
+      issues.push({ path, message: isMissing(value) ? 'is required' : `should be a number, got ${JSON.stringify(value)}` });
+      return options.min ?? 0;
+    }
+    if (options.integer) n = Math.round(n);
+    if (options.min !== undefined) n = Math.max(options.min, n);
+    if (options.max !== undefined) n = Math.min(options.max, n);
+    return n;
+  },
+  toResponseSchema: () => ({
+    type: options.integer ? Type.INTEGER : Type.NUMBER,
+    minimum: options.min,
+    maximum: options.max,
+    description: options.description,
+  }),
+});
+
+const TRUE_STRINGS = ['true', 'yes', 'pass', 'passed'];
+const FALSE_STRINGS = ['false', 'no', 'fail', 'failed', 'redo'];
+
+export const boolean = (description?: string): Validator<boolean> => ({
+  parse: (value, path, issues) => {
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'string') {
+      const normalized = value.trim().toLowerCase();
+      if (TRUE_STRINGS.includes(normalized)) return true;
+      if (FALSE_STRINGS.includes(normalized)) return false;
+    }
+    if (value === 1 || value === 0) return value === 1;
+    // Never guess: an unreadable verdict must not count as a pass
+    issues.push({ path, message: isMissing(value) ? 'is required' : `should be a boolean, got ${JSON.stringify(value)}` });
+    return false;
+  },
+  toResponseSchema: () => ({ type: Type.BOOLEAN, description }),
+});
+
+// One of a fixed set of strings, matched case-insensitively ("Front" -> "front")
+export const oneOf = <T extends string>(values: readonly T[], description?: string): Validator<T> => ({
+  parse: (value, path, issues) => {
+    const match = typeof value === 'string' && values.find(v => v.toLowerCase() === value.trim().toLowerCase());
+    if (match) return match;
+    issues.push({ path, message: isMissing(value) ? 'is required' : `should be one of ${values.join(', ')}, got ${JSON.stringify(value)}` });
+    return values[0];
+  },
+  toResponseSchema: () => ({ type: Type.STRING, format: 'enum', enum: [...values], description }),
+});
+
+// --- Composites ---
+
+export const array = <T>(item: Validator<T>, options: { minItems?: number; maxItems?: number; description?: string } = {}): Validator<T[]> => ({
+  parse: (value, path, issues) => {
+    let list: unknown[];
+    if (Array.isArray(value)) list = value;
+    // A lone item where a list was expected
+    else if (!isMissing(value) && typeof value !== 'object') list = [value];
+    else {
+      issues.push({ path, message: isMissing(value) ? 'is required' : `should be an array, got ${describe(value)}` });
+      return [];
+    }
+
+    if (options.minItems !== undefined && list.length < options.minItems) {
+      issues.push({ path, message: `should have at least ${options.minItems} item(s), got ${list.length}` });
+    }
+    if (options.maxItems !== undefined && list.length > options.maxItems) {
+      issues.push({ path, message: `should have at most ${options.maxItems} item(s), got ${list.length}` });
+    }
+    return list.map((v, i) => item.parse(v, `${path}[${i}]`, issues));
+  },
+  toResponseSchema: () => ({
+    type: Type.ARRAY,
+    items: item.toResponseSchema(),
+    minItems: options.minItems !== undefined ? String(options.minItems) : undefined,
+    maxItems: options.maxItems !== undefined ? String(options.maxItems) : undefined,
+    description: options.description,
+  }),
+});
+
+type Shape = Record<string, Validator<unknown>>;
+type ObjectOf<S extends Shape> = { [K in keyof S]: Infer<S[K]> };
+
+export const object = <S extends Shape>(shape: S, description?: string): Validator<ObjectOf<S>> => ({
+  parse: (value, path, issues) => {
+    if (isMissing(value) || typeof value !== 'object' || Array.isArray(value)) {
+      issues.push({ path, message: isMissing(value) ? 'is required' : `should be an object, got ${describe(value)}` });
+      value = {};
+    }
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(shape)) {
+      result[key] = shape[key].parse(source[key], path ? `${path}.${key}` : key, issues);
+    }
+    return result as ObjectOf<S>;
+  },
+  toResponseSchema: () => ({
+    type: Type.OBJECT,
+    description,
+    properties: Object.fromEntries(Object.entries(shape).map(([k, v]) => [k, v.toResponseSchema()])),
+    propertyOrdering: Object.keys(shape),
+    required: Object.entries(shape).filter(([, v]) => !v.hasDefault).map(([k]) => k),
+  }),
+});
+
+// --- Modifiers ---
+
+// Substitutes `fallback` when the field is absent; a present but malformed value is still an issue
+export const withDefault = <T>(validator: Validator<T>, fallback: T): Validator<T> => ({
+  parse: (value, path, issues) => isMissing(value) ? fallback : validator.parse(value, path, issues),
+  toResponseSchema: validator.toResponseSchema,
+  hasDefault: true,
+});
+
+export const optional = <T>(validator: Validator<T>): Validator<T | undefined> => ({
+  parse: (value, path, issues) => isMissing(value) ? undefined : validator.parse(value, path, issues),
+  toResponseSchema: validator.toResponseSchema,
+  hasDefault: true,
+});
+
+// Post-processing once the shape is valid (e.g. renumbering ids)
+export const transform = <T>(validator: Validator<T>, fn: (value: T) => T): Validator<T> => ({
+  ...validator,
+  parse: (value, path, issues) => fn(validator.parse(value, path, issues)),
+});
+
+export const validate = <T>(validator: Validator<T>, value: unknown): { value: T; issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = [];
+  const parsed = validator.parse(value, '', issues);
+  return { value: parsed, issues };
+};
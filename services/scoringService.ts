@@ -0,0 +1,52 @@
+import { Challenge, ChallengeEvaluation, ChallengeTier } from "../types";
+import { CHALLENGE_SCORING } from "../constants";
+import { tierForTime } from "./attemptService";
+
+export interface ScoreBreakdown {
+  tier: ChallengeTier;
+  matchScore: number;
+  baseXp: number; // Match score * xpPerScorePoint
+  tierMultiplier: number;
+  tierXp: number; // baseXp after the tier multiplier
+  timeBonus: number;
+  hintPenalty: number;
+  total: number;
+  claimable: boolean; // False when the submission failed or the bronze cutoff had passed
+}
+
+export interface ScoringInput {
+  challenge: Challenge;
+  evaluation: ChallengeEvaluation;
+  elapsedSeconds: number;
+  penaltySeconds: number;
+  hintsUsed: number;
+}
+
+/**
+ * XP for a timed challenge, taken at the moment the work was submitted:
+ * (match score x tier multiplier) + minutes left before bronze - hint penalties, never below zero.
+ */
+export const scoreChallenge = ({ challenge, evaluation, elapsedSeconds, penaltySeconds, hintsUsed }: ScoringInput, scoring = CHALLENGE_SCORING): ScoreBreakdown => {
+  const totalSeconds = elapsedSeconds + penaltySeconds;
+  const tier = tierForTime(challenge, totalSeconds);
+  const claimable = evaluation.passed && tier !== 'FAIL';
+
+  const baseXp = Math.round(evaluation.score * scoring.xpPerScorePoint);
+  const tierMultiplier = scoring.tierMultipliers[tier];
+  const tierXp = Math.round(baseXp * tierMultiplier);
+  const minutesLeft = Math.max(0, Math.floor((challenge.bronzeTime * 60 - totalSeconds) / 60));
+  const timeBonus = claimable ? minutesLeft * scoring.timeBonusPerMinute : 0;
+  const hintPenalty = hintsUsed * scoring.hintPenaltyXp;
+
+  return {
+    tier,
+    matchScore: evaluation.score,
+    baseXp,
+    tierMultiplier,
+    tierXp,
+    timeBonus,
+    hintPenalty,
+    total: claimable ? Math.max(0, tierXp + timeBonus - hintPenalty) : 0,
+    claimable,
+  };
+};
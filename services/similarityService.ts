@@ -0,0 +1,337 @@
+import { Challenge, ChallengeEvaluation, ChallengeMilestone, SimilarityBreakdown } from "../types";
+import { IMAGE_SIMILARITY } from "../constants";
+import { evaluateChallengeSubmission } from "./aiService";
+import { isFinalMilestone } from "./eventChallengeService";
+
+/**
+ * Deterministic image comparison for challenge submissions. Both images are cropped to their
+ * subject and resampled onto the same square, then compared by silhouette, edges, colour and
+ * local structure. The same pair of files always gives the same score.
+ */
+
+// ImageData, or anything shaped like it
+interface Raster {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA
+}
+
+type Rgb = [number, number, number];
+
+const DECODE_SIZE = 256; // Decoded images are capped at this, so cropping still has detail to work with
+const MIN_FOREGROUND_DISTANCE = 24; // Colour distance from the background below which a pixel is background
+const SSIM_WINDOW = 8;
+
+const pixelCount = (r: Raster) => r.width * r.height;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+// Renders, screenshots and references usually sit on a flat backdrop, so the border tells us its colour
+const borderColor = (r: Raster): Rgb => {
+  const channels: number[][] = [[], [], []];
+  const sample = (x: number, y: number) => {
+    const i = (y * r.width + x) * 4;
+    for (let c = 0; c < 3; c++) channels[c].push(r.data[i + c]);
+  };
+  for (let x = 0; x < r.width; x++) { sample(x, 0); sample(x, r.height - 1); }
+  for (let y = 1; y < r.height - 1; y++) { sample(0, y); sample(r.width - 1, y); }
+  return channels.map(median) as Rgb;
+};
+
+const distanceFrom = (r: Raster, color: Rgb) => {
+  const out = new Uint8Array(pixelCount(r));
+  for (let p = 0; p < out.length; p++) {
+    const i = p * 4;
+    out[p] = Math.round((Math.abs(r.data[i] - color[0]) + Math.abs(r.data[i + 1] - color[1]) + Math.abs(r.data[i + 2] - color[2])) / 3);
+  }
+  return out;
+};
+
+// Otsu's threshold over a 0-255 histogram
+const otsu = (values: Uint8Array) => {
+  const histogram = new Array(256).fill(0);
+  values.forEach(v => histogram[v]++);
+  const total = values.length;
+  const sum = histogram.reduce((s, n, v) => s + n * v, 0);
+  let below = 0, sumBelow = 0, best = 0, threshold = 0;
+  for (let t = 0; t < 256; t++) {
+    below += histogram[t];
+    if (below === 0) continue;
+    const above = total - below;
+    if (above === 0) break;
+    sumBelow += t * histogram[t];
+    const between = below * above * (sumBelow / below - (sum - sumBelow) / above) ** 2;
+    if (between > best) { best = between; threshold = t; }
+  }
+  return threshold;
+};
+
+// True where a pixel differs from the background enough to be part of the subject
+const foregroundMask = (r: Raster, background: Rgb) => {
+  const distance = distanceFrom(r, background);
+  const threshold = Math.max(MIN_FOREGROUND_DISTANCE, otsu(distance));
+  return Array.from(distance, d => d > threshold);
+};
+
+const boundingBox = (mask: boolean[], width: number, height: number) => {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  mask.forEach((on, p) => {
+    if (!on) return;
+    const x = p % width, y = Math.floor(p / width);
+    minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+  });
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+/**
+ * Crops to the subject (falling back to the whole image when no subject stands out) and
+ * box-samples it into a size x size square, centred and padded with the background colour.
+ */
+export const normalizeRaster = (r: Raster, size: number = IMAGE_SIMILARITY.size): { raster: Raster; background: Rgb } => {
+  const background = borderColor(r);
+  const mask = foregroundMask(r, background);
+  const share = mask.filter(Boolean).length / mask.length;
+  const box = (share > 0.005 && share < 0.95 && boundingBox(mask, r.width, r.height)) || { x: 0, y: 0, width: r.width, height: r.height };
+
+  const scale = size / Math.max(box.width, box.height);
+  const offsetX = (size - box.width * scale) / 2;
+  const offsetY = (size - box.height * scale) / 2;
+  const data = new Uint8ClampedArray(size * size * 4);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const o = (y * size + x) * 4;
+      const x0 = (x - offsetX) / scale, x1 = (x + 1 - offsetX) / scale;
+      const y0 = (y - offsetY) / scale, y1 = (y + 1 - offsetY) / scale;
+      if (x1 <= 0 || y1 <= 0 || x0 >= box.width || y0 >= box.height) {
+        data.set([...background, 255], o);
+        continue;
+      }
+      // Average every source pixel under this output pixel (at least one)
+      const sx0 = Math.max(0, Math.floor(x0)), sx1 = Math.min(box.width, Math.max(sx0 + 1, Math.ceil(x1)));
+      const sy0 = Math.max(0, Math.floor(y0)), sy1 = Math.min(box.height, Math.max(sy0 + 1, Math.ceil(y1)));
+      const sum = [0, 0, 0];
+      for (let sy = sy0; sy < sy1; sy++) {
+        for (let sx = sx0; sx < sx1; sx++) {
+          const i = ((box.y + sy) * r.width + box.x + sx) * 4;
+          sum[0] += r.data[i]; sum[1] += r.data[i + 1]; sum[2] += r.data[i + 2];
+        }
+      }
+      const n = (sx1 - sx0) * (sy1 - sy0);
+      data.set([sum[0] / n, sum[1] / n, sum[2] / n, 255], o);
+    }
+  }
+  return { raster: { width: size, height: size, data }, background };
+};
+
+// Luma, stretched to the full 0-255 range so exposure and contrast differences don't count
+const normalizedGray = (r: Raster) => {
+  const gray = new Float64Array(pixelCount(r));
+  for (let p = 0; p < gray.length; p++) {
+    const i = p * 4;
+    gray[p] = 0.299 * r.data[i] + 0.587 * r.data[i + 1] + 0.114 * r.data[i + 2];
+  }
+  let min = Infinity, max = -Infinity;
+  gray.forEach(v => { min = Math.min(min, v); max = Math.max(max, v); });
+  const range = max - min || 1;
+  return gray.map(v => (v - min) / range * 255);
+};
+
+const edgeMap = (gray: Float64Array, size: number) => {
+  const magnitude = new Float64Array(gray.length);
+  for (let y = 1; y < size - 1; y++) {
+    for (let x = 1; x < size - 1; x++) {
+      const at = (dx: number, dy: number) => gray[(y + dy) * size + x + dx];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      magnitude[y * size + x] = Math.hypot(gx, gy);
+    }
+  }
+  const mean = magnitude.reduce((s, v) => s + v, 0) / magnitude.length;
+  const std = Math.sqrt(magnitude.reduce((s, v) => s + (v - mean) ** 2, 0) / magnitude.length);
+  return Array.from(magnitude, v => v > 0 && v > mean + std);
+};
+
+// Grows a mask by one pixel so edges a pixel apart still count as overlapping
+const dilate = (mask: boolean[], size: number) =>
+  mask.map((_, p) => {
+    const x = p % size, y = Math.floor(p / size);
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx, ny = y + dy;
+        if (nx >= 0 && ny >= 0 && nx < size && ny < size && mask[ny * size + nx]) return true;
+      }
+    }
+    return false;
+  });
+
+const iou = (a: boolean[], b: boolean[]) => {
+  let both = 0, either = 0;
+  a.forEach((on, p) => { if (on && b[p]) both++; if (on || b[p]) either++; });
+  return either === 0 ? 1 : both / either;
+};
+
+// F1 of edges found within a pixel of an edge in the other image
+const edgeOverlap = (a: boolean[], b: boolean[], size: number) => {
+  const countA = a.filter(Boolean).length, countB = b.filter(Boolean).length;
+  if (countA === 0 || countB === 0) return countA === countB ? 1 : 0;
+  const nearA = dilate(a, size), nearB = dilate(b, size);
+  const precision = a.filter((on, p) => on && nearB[p]).length / countA;
+  const recall = b.filter((on, p) => on && nearA[p]).length / countB;
+  return precision + recall === 0 ? 0 : 2 * precision * recall / (precision + recall);
+};
+
+// Intersection of normalized RGB histograms over the subject's pixels (the whole image if there's no subject)
+const histogramOverlap = (a: Raster, maskA: boolean[], b: Raster, maskB: boolean[]) => {
+  const bins = IMAGE_SIMILARITY.histogramBins;
+  const histogram = (r: Raster, mask: boolean[]) => {
+    const counts = new Array(bins ** 3).fill(0);
+    const useMask = mask.some(Boolean);
+    let total = 0;
+    for (let p = 0; p < pixelCount(r); p++) {
+      if (useMask && !mask[p]) continue;
+      const i = p * 4;
+      const bin = (v: number) => Math.min(bins - 1, Math.floor(v * bins / 256));
+      counts[(bin(r.data[i]) * bins + bin(r.data[i + 1])) * bins + bin(r.data[i + 2])]++;
+      total++;
+    }
+    return counts.map(c => c / (total || 1));
+  };
+  const ha = histogram(a, maskA), hb = histogram(b, maskB);
+  return ha.reduce((s, v, i) => s + Math.min(v, hb[i]), 0);
+};
+
+// Mean SSIM over non-overlapping windows
+const structuralSimilarity = (a: Float64Array, b: Float64Array, size: number) => {
+  const c1 = (0.01 * 255) ** 2, c2 = (0.03 * 255) ** 2;
+  let total = 0, windows = 0;
+  for (let wy = 0; wy + SSIM_WINDOW <= size; wy += SSIM_WINDOW) {
+    for (let wx = 0; wx + SSIM_WINDOW <= size; wx += SSIM_WINDOW) {
+      let ma = 0, mb = 0;
+      for (let y = wy; y < wy + SSIM_WINDOW; y++) for (let x = wx; x < wx + SSIM_WINDOW; x++) { ma += a[y * size + x]; mb += b[y * size + x]; }
+      const n = SSIM_WINDOW * SSIM_WINDOW;
+      ma /= n; mb /= n;
+      let va = 0, vb = 0, cov = 0;
+      for (let y = wy; y < wy + SSIM_WINDOW; y++) {
+        for (let x = wx; x < wx + SSIM_WINDOW; x++) {
+          const da = a[y * size + x] - ma, db = b[y * size + x] - mb;
+          va += da * da; vb += db * db; cov += da * db;
+        }
+      }
+      va /= n - 1; vb /= n - 1; cov /= n - 1;
+      total += ((2 * ma * mb + c1) * (2 * cov + c2)) / ((ma * ma + mb * mb + c1) * (va + vb + c2));
+      windows++;
+    }
+  }
+  return windows ? Math.max(0, total / windows) : 0;
+};
+
+/**
+ * Compares two decoded images. Every component and the weighted total are 0-100.
+ */
+export const compareRasters = (reference: Raster, submission: Raster): SimilarityBreakdown => {
+  const size = IMAGE_SIMILARITY.size;
+  const a = normalizeRaster(reference, size);
+  const b = normalizeRaster(submission, size);
+  const maskA = foregroundMask(a.raster, a.background);
+  const maskB = foregroundMask(b.raster, b.background);
+  const grayA = normalizedGray(a.raster);
+  const grayB = normalizedGray(b.raster);
+
+  const parts = {
+    silhouette: iou(maskA, maskB),
+    edges: edgeOverlap(edgeMap(grayA, size), edgeMap(grayB, size), size),
+    color: histogramOverlap(a.raster, maskA, b.raster, maskB),
+    structure: structuralSimilarity(grayA, grayB, size),
+  };
+  const { weights } = IMAGE_SIMILARITY;
+  const score = Object.entries(parts).reduce((s, [key, v]) => s + v * weights[key as keyof typeof weights], 0);
+
+  return {
+    silhouette: Math.round(parts.silhouette * 100),
+    edges: Math.round(parts.edges * 100),
+    color: Math.round(parts.color * 100),
+    structure: Math.round(parts.structure * 100),
+    score: Math.round(score * 100),
+  };
+};
+
+// --- Browser decoding ---
+
+const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  if (!url.startsWith('data:')) image.crossOrigin = 'anonymous'; // Remote pixels are only readable with CORS
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error(`Could not load ${url.slice(0, 60)}`));
+  image.src = url;
+});
+
+const decode = async (source: string | File): Promise<Raster> => {
+  const image = typeof source === 'string' ? await loadImage(source) : await createImageBitmap(source);
+  // SVGs without intrinsic size report 0
+  const width = image.width || DECODE_SIZE, height = image.height || DECODE_SIZE;
+  const scale = Math.min(1, DECODE_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  if ('close' in image) image.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Scores a submission against the reference image. Resolves to null when either image can't be
+ * read, e.g. a remote reference served without CORS headers.
+ */
+export const measureSimilarity = async (referenceImageUrl: string, file: File): Promise<SimilarityBreakdown | null> => {
+  try {
+    const [reference, submission] = await Promise.all([decode(referenceImageUrl), decode(file)]);
+    return compareRasters(reference, submission);
+  } catch (error) {
+    console.warn("Could not compare images locally:", error);
+    return null;
+  }
+};
+
+/**
+ * Mixes the local score into the model's judgment. The blended score is what the challenge is
+ * scored on; the local score can hold back a pass the model gave, but never grant one.
+ */
+export const blendEvaluation = (evaluation: ChallengeEvaluation, similarity: SimilarityBreakdown | null): ChallengeEvaluation => {
+  if (!similarity) return { ...evaluation, aiScore: evaluation.score };
+  const score = Math.round(evaluation.score * IMAGE_SIMILARITY.aiWeight + similarity.score * (1 - IMAGE_SIMILARITY.aiWeight));
+  const passed = evaluation.passed && score >= IMAGE_SIMILARITY.passScore;
+  return {
+    ...evaluation,
+    passed,
+    score,
+    feedback: evaluation.passed && !passed
+      ? `${evaluation.feedback} However, the image comparison found too little overlap with the reference (${similarity.score}/100).`
+      : evaluation.feedback,
+    aiScore: evaluation.score,
+    similarity,
+  };
+};
+
+/**
+ * Grades a challenge submission: the model's judgment and the local comparison run side by side.
+ * A placeholder reference only shows the title, so there is nothing to compare against; the
+ * model's judgment of the description stands alone. So does its judgment of an event milestone
+ * before the last: work in progress isn't expected to look like the finished reference yet.
+ */
+export const evaluateAgainstReference = async (challenge: Challenge, file: File, milestone?: ChallengeMilestone): Promise<ChallengeEvaluation> => {
+  const comparable = challenge.referenceImageUrl && !challenge.referenceIsPlaceholder && (!milestone || isFinalMilestone(challenge, milestone.id))
+    ? challenge.referenceImageUrl
+    : null;
+  const [evaluation, similarity] = await Promise.all([
+    evaluateChallengeSubmission(challenge, file, milestone),
+    comparable ? measureSimilarity(comparable, file) : Promise.resolve(null),
+  ]);
+  return blendEvaluation(evaluation, similarity);
+};
@@ -0,0 +1,364 @@
+import { UserProfile, LearningPath, ActivityLog, XpEntry, DailyChallengeRecord, ChallengeEventRecord, EventKind, ChallengeAttempt, ChallengeSession, StepSubmission, PendingReview, ChatThread } from "../types";
+import { EMPTY_ACTIVITY_LOG } from "./activityService";
+
+const DB_NAME = 'artifex';
+
+// Object stores
+const KV_STORE = 'kv';
+const PATHS_STORE = 'paths';
+const XP_LEDGER_STORE = 'xpLedger';
+const PROFILES_STORE = 'profiles';
+const CHALLENGE_ATTEMPTS_STORE = 'challengeAttempts';
+const STEP_SUBMISSIONS_STORE = 'stepSubmissions';
+const PENDING_REVIEWS_STORE = 'pendingReviews';
+const CHAT_THREADS_STORE = 'chatThreads';
+
+// Per-profile settings are keyed `name:profileId`; records in per-profile stores carry an indexed profileId
+const profileKey = (key: string, profileId: string) => `${key}:${profileId}`;
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+/**
+ * Schema migrations. Entry N upgrades a database from version N to N + 1.
+ * Shipped migrations must never be edited; append a new one instead.
+ */
+const MIGRATIONS: Migration[] = [
+  // v1: key/value settings, learning paths
+  (db) => {
+    db.createObjectStore(KV_STORE);
+    db.createObjectStore(PATHS_STORE, { keyPath: 'path.id' });
+  },
+  // v2: append-only XP ledger, opened with the balance v1 kept on the profile
+  (db, tx) => {
+    const ledger = db.createObjectStore(XP_LEDGER_STORE, { keyPath: 'id' });
+    const request = tx.objectStore(KV_STORE).get('profile');
+    request.onsuccess = () => {
+      const xp = request.result?.xp;
+      if (typeof xp === 'number' && xp > 0) {
+        const entry: XpEntry = { id: 'opening-balance', source: 'bonus', amount: xp, reason: 'XP earned before history was kept', at: Date.now() };
+        ledger.put(entry);
+      }
+    };
+  },
+  // v3: several local profiles, each with its own paths, XP and settings, and a per-attempt
+  // challenge history shared by all of them. The existing profile becomes the first one.
+  (db, tx) => {
+    const profiles = db.createObjectStore(PROFILES_STORE, { keyPath: 'id' });
+    const attempts = db.createObjectStore(CHALLENGE_ATTEMPTS_STORE, { keyPath: 'id' });
+    attempts.createIndex('profileId', 'profileId');
+    const owned = [PATHS_STORE, XP_LEDGER_STORE];
+    owned.forEach(name => tx.objectStore(name).createIndex('profileId', 'profileId'));
+    const kv = tx.objectStore(KV_STORE);
+    const request = kv.get('profile');
+    request.onsuccess = () => {
+      if (!request.result) return;
+      const profile = { ...request.result, id: request.result.id || `profile-${Date.now()}` };
+      profiles.put(profile);
+      kv.put(profile.id, 'activeProfileId');
+      kv.delete('profile');
+      ['activePathId', 'activity', 'dailyChallenge', 'challengeEvents'].forEach(key => {
+        const value = kv.get(key);
+        value.onsuccess = () => {
+          if (value.result === undefined) return;
+          kv.put(value.result, profileKey(key, profile.id));
+          kv.delete(key);
+        };
+      });
+      owned.forEach(name => {
+        const cursorRequest = tx.objectStore(name).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          cursor.update({ ...cursor.value, profileId: profile.id });
+          cursor.continue();
+        };
+      });
+    };
+  },
+  // v4: every reviewed learning path upload, with a downscaled copy of the image
+  (db) => {
+    const submissions = db.createObjectStore(STEP_SUBMISSIONS_STORE, { keyPath: 'id' });
+    submissions.createIndex('pathId', 'pathId');
+    submissions.createIndex('profileId', 'profileId');
+  },
+  // v5: submissions hold several labelled images instead of one
+  (db, tx) => {
+    const request = tx.objectStore(STEP_SUBMISSIONS_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const { imageDataUrl, ...submission } = cursor.value;
+      if (!submission.images) cursor.update({ ...submission, images: [{ view: 'perspective', dataUrl: imageDataUrl }] });
+      cursor.continue();
+    };
+  },
+  // v6: submissions waiting for an evaluation that failed, with the uploaded files
+  (db) => {
+    db.createObjectStore(PENDING_REVIEWS_STORE, { keyPath: 'id' }).createIndex('profileId', 'profileId');
+  },
+  // v7: Copilot conversations
+  (db) => {
+    db.createObjectStore(CHAT_THREADS_STORE, { keyPath: 'id' }).createIndex('profileId', 'profileId');
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this environment"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let v = event.oldVersion; v < DB_VERSION; v++) {
+        MIGRATIONS[v](db, tx);
+      }
+    };
+    let blocked = false;
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading the schema: step aside so it isn't blocked. This tab's
+      // saves fail from here on until it is reloaded.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      // Opened after the caller already gave up waiting; nobody will use this connection
+      if (blocked) db.close();
+      else resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => {
+      blocked = true;
+      reject(new Error("Saved data is open in another tab that is still on an older version. Close it and try again."));
+    };
+  });
+
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// --- Generic helpers (shared by feature services) ---
+
+export const getValue = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDB();
+  return promisify(db.transaction(KV_STORE).objectStore(KV_STORE).get(key));
+};
+
+export const setValue = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(KV_STORE, 'readwrite');
+  if (value === undefined || value === null) {
+    tx.objectStore(KV_STORE).delete(key);
+  } else {
+    tx.objectStore(KV_STORE).put(value, key);
+  }
+  return transactionDone(tx);
+};
+
+export const getAllRecords = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDB();
+  return promisify(db.transaction(storeName).objectStore(storeName).getAll());
+};
+
+export const putRecord = async (storeName: string, record: unknown): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).put(record);
+  return transactionDone(tx);
+};
+
+export const deleteRecord = async (storeName: string, key: IDBValidKey): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).delete(key);
+  return transactionDone(tx);
+};
+
+export const replaceAllRecords = async (storeName: string, records: unknown[]): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  store.clear();
+  records.forEach(r => store.put(r));
+  return transactionDone(tx);
+};
+
+// Records in the per-profile stores are tagged with their owner, which is stripped again on read
+type Owned<T> = T & { profileId: string };
+
+export const getProfileRecords = async <T>(storeName: string, profileId: string): Promise<T[]> => {
+  const db = await openDB();
+  const records: Owned<T>[] = await promisify(db.transaction(storeName).objectStore(storeName).index('profileId').getAll(profileId));
+  return records.map(({ profileId: _, ...record }) => record as T);
+};
+
+export const putProfileRecord = (storeName: string, profileId: string, record: object) =>
+  putRecord(storeName, { ...record, profileId });
+
+// Replaces one profile's records; the other profiles' are left alone
+export const replaceProfileRecords = async (storeName: string, profileId: string, records: object[]): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  const request = store.index('profileId').getAllKeys(profileId);
+  request.onsuccess = () => {
+    request.result.forEach(key => store.delete(key));
+    records.forEach(r => store.put({ ...r, profileId }));
+  };
+  return transactionDone(tx);
+};
+
+// --- App state ---
+
+// Everything that belongs to one profile; switching profiles swaps all of it
+export interface ProfileState {
+  paths: LearningPath[];
+  activePathId: string | null;
+  activity: ActivityLog;
+  xpLedger: XpEntry[];
+  dailyChallenge: DailyChallengeRecord | null;
+  challengeEvents: ChallengeEvents;
+  challengeSession: ChallengeSession | null; // Timed challenge left running at the last reload
+  stepSubmissions: StepSubmission[];
+  pendingReviews: PendingReview[];
+  chatThreads: ChatThread[];
+}
+
+export interface PersistedState extends ProfileState {
+  profiles: UserProfile[];
+  user: UserProfile | null; // The active profile
+  theme: 'light' | 'dark';
+  challengeAttempts: ChallengeAttempt[]; // Every local profile's attempts
+}
+
+export const EMPTY_PROFILE_STATE: ProfileState = {
+  paths: [],
+  activePathId: null,
+  activity: EMPTY_ACTIVITY_LOG,
+  xpLedger: [],
+  dailyChallenge: null,
+  challengeEvents: {},
+  challengeSession: null,
+  stepSubmissions: [],
+  pendingReviews: [],
+  chatThreads: [],
+};
+
+// The latest event of each kind; older periods are overwritten when a new one is generated
+export type ChallengeEvents = Partial<Record<EventKind, ChallengeEventRecord>>;
+
+interface StoredPath {
+  position: number;
+  path: LearningPath;
+}
+
+/**
+ * Reads one profile's data, for startup and when switching profiles.
+ */
+export const loadProfileState = async (profileId: string): Promise<ProfileState> => {
+  const [storedPaths, activePathId, activity, xpLedger, dailyChallenge, challengeEvents, challengeSession, stepSubmissions, pendingReviews, chatThreads] = await Promise.all([
+    getProfileRecords<StoredPath>(PATHS_STORE, profileId),
+    getValue<string>(profileKey('activePathId', profileId)),
+    getValue<ActivityLog>(profileKey('activity', profileId)),
+    getProfileRecords<XpEntry>(XP_LEDGER_STORE, profileId),
+    getValue<DailyChallengeRecord>(profileKey('dailyChallenge', profileId)),
+    getValue<ChallengeEvents>(profileKey('challengeEvents', profileId)),
+    getValue<ChallengeSession>(profileKey('challengeSession', profileId)),
+    getProfileRecords<StepSubmission>(STEP_SUBMISSIONS_STORE, profileId),
+    getProfileRecords<PendingReview>(PENDING_REVIEWS_STORE, profileId),
+    getProfileRecords<ChatThread>(CHAT_THREADS_STORE, profileId),
+  ]);
+
+  return {
+    paths: storedPaths.sort((a, b) => a.position - b.position).map(p => p.path),
+    activePathId: activePathId || null,
+    activity: activity || EMPTY_ACTIVITY_LOG,
+    xpLedger: xpLedger.sort((a, b) => a.at - b.at),
+    dailyChallenge: dailyChallenge || null,
+    challengeEvents: challengeEvents || {},
+    challengeSession: challengeSession || null,
+    stepSubmissions: stepSubmissions.sort((a, b) => a.submittedAt - b.submittedAt),
+    pendingReviews: pendingReviews.sort((a, b) => a.queuedAt - b.queuedAt),
+    chatThreads: chatThreads.sort((a, b) => b.updatedAt - a.updatedAt),
+  };
+};
+
+/**
+ * Reads everything needed to restore the app on startup: the profiles, and the active one's data.
+ * Rejects when storage can't be read, so a failure is never mistaken for a first run.
+ */
+export const loadState = async (): Promise<PersistedState> => {
+  const [profiles, activeProfileId, theme, challengeAttempts] = await Promise.all([
+    getAllRecords<UserProfile>(PROFILES_STORE),
+    getValue<string>('activeProfileId'),
+    getValue<'light' | 'dark'>('theme'),
+    getAllRecords<ChallengeAttempt>(CHALLENGE_ATTEMPTS_STORE),
+  ]);
+  const user = profiles.find(p => p.id === activeProfileId) || profiles[0] || null;
+
+  return {
+    ...(user ? await loadProfileState(user.id) : EMPTY_PROFILE_STATE),
+    profiles: profiles.sort((a, b) => a.name.localeCompare(b.name)),
+    user,
+    theme: theme || 'light',
+    challengeAttempts: challengeAttempts.sort((a, b) => a.finishedAt - b.finishedAt),
+  };
+};
+
+export const saveProfile = (profile: UserProfile) => putRecord(PROFILES_STORE, profile);
+
+export const saveActiveProfileId = (profileId: string) => setValue('activeProfileId', profileId);
+
+export const saveTheme = (theme: 'light' | 'dark') => setValue('theme', theme);
+
+export const addChallengeAttempt = (attempt: ChallengeAttempt) => putRecord(CHALLENGE_ATTEMPTS_STORE, attempt);
+
+// --- Per-profile state ---
+
+export const savePaths = (profileId: string, paths: LearningPath[]) =>
+  replaceProfileRecords(PATHS_STORE, profileId, paths.map((path, position): StoredPath => ({ position, path })));
+
+export const saveActivePathId = (profileId: string, pathId: string | null) => setValue(profileKey('activePathId', profileId), pathId);
+
+export const saveActivityLog = (profileId: string, activity: ActivityLog) => setValue(profileKey('activity', profileId), activity);
+
+export const saveDailyChallenge = (profileId: string, record: DailyChallengeRecord | null) => setValue(profileKey('dailyChallenge', profileId), record);
+
+export const saveChallengeEvents = (profileId: string, events: ChallengeEvents) => setValue(profileKey('challengeEvents', profileId), events);
+
+export const saveChallengeSession = (profileId: string, session: ChallengeSession | null) => setValue(profileKey('challengeSession', profileId), session);
+
+export const addXpEntry = (profileId: string, entry: XpEntry) => putProfileRecord(XP_LEDGER_STORE, profileId, entry);
+
+export const addStepSubmission = (profileId: string, submission: StepSubmission) => putProfileRecord(STEP_SUBMISSIONS_STORE, profileId, submission);
+
+export const savePendingReviews = (profileId: string, reviews: PendingReview[]) => replaceProfileRecords(PENDING_REVIEWS_STORE, profileId, reviews);
+
+export const saveChatThread = (profileId: string, thread: ChatThread) => putProfileRecord(CHAT_THREADS_STORE, profileId, thread);
+
+export const deleteChatThread = (id: string) => deleteRecord(CHAT_THREADS_STORE, id);
@@ -0,0 +1,68 @@
+import { Step, StepSubmission, ReviewResult, LabelledImage, ModelSummary, DrawingSummary, SubmissionView } from "../types";
+import { createThumbnail } from "./attemptService";
+
+// Large enough to compare details side by side, small enough to keep many in IndexedDB
+const SUBMISSION_IMAGE_SIZE = 1024;
+
+export const createStepSubmission = async (
+  pathId: string,
+  step: Step,
+  images: LabelledImage[],
+  models: ModelSummary[],
+  drawings: DrawingSummary[],
+  review: ReviewResult,
+  now: number = Date.now()
+): Promise<StepSubmission> => ({
+  id: `submission-${now}-${Math.random().toString(36).slice(2, 8)}`,
+  pathId,
+  stepId: step.id,
+  stepTitle: step.title,
+  criteria: step.criteria,
+  submittedAt: now,
+  images: await Promise.all(images.map(async image => ({
+    view: image.view,
+    dataUrl: await createThumbnail(image.file, SUBMISSION_IMAGE_SIZE),
+  }))),
+  models: models.length ? models : undefined,
+  drawings: drawings.length ? drawings : undefined,
+  passed: review.passed,
+  feedback: review.feedback,
+  score: review.score,
+  criteriaResults: review.criteria,
+});
+
+// Required views the staged images don't cover yet
+export const missingViews = (requiredViews: SubmissionView[] = [], images: Pick<LabelledImage, 'view'>[]) =>
+  requiredViews.filter(view => !images.some(image => image.view === view));
+
+// Oldest first, so the index doubles as the attempt number
+export const submissionsForStep = (submissions: StepSubmission[], pathId: string, stepId: string) =>
+  submissions.filter(s => s.pathId === pathId && s.stepId === stepId).sort((a, b) => a.submittedAt - b.submittedAt);
+
+// The pair to open the comparison with: the latest upload against the one before it
+export const defaultComparison = (history: StepSubmission[]): [StepSubmission, StepSubmission] | null =>
+  history.length < 2 ? null : [history[history.length - 2], history[history.length - 1]];
+
+export interface SubmissionComparison {
+  before: StepSubmission;
+  after: StepSubmission;
+  secondsBetween: number;
+  verdict: 'improved' | 'regressed' | 'unchanged';
+  criteriaChanged: boolean; // The step was revised between the two uploads
+  views: SubmissionView[]; // Every view present in either submission, in first-seen order
+}
+
+/**
+ * Orders two submissions chronologically and describes what changed between them.
+ */
+export const compareSubmissions = (a: StepSubmission, b: StepSubmission): SubmissionComparison => {
+  const [before, after] = a.submittedAt <= b.submittedAt ? [a, b] : [b, a];
+  return {
+    before,
+    after,
+    secondsBetween: Math.round((after.submittedAt - before.submittedAt) / 1000),
+    verdict: before.passed === after.passed ? 'unchanged' : after.passed ? 'improved' : 'regressed',
+    criteriaChanged: before.criteria.join('\n') !== after.criteria.join('\n'),
+    views: [...new Set([...a.images, ...b.images].map(image => image.view))],
+  };
+};
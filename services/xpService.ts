@@ -0,0 +1,38 @@
+import { XpEntry, XpSource, LevelProgress } from "../types";
+import { LEVEL_CURVE } from "../constants";
+
+type LevelCurve = typeof LEVEL_CURVE;
+
+export const totalXp = (ledger: XpEntry[]): number =>
+  Math.max(0, ledger.reduce((sum, entry) => sum + entry.amount, 0));
+
+// Total XP needed to reach `level` (level 1 starts at 0)
+export const xpRequiredForLevel = (level: number, curve: LevelCurve = LEVEL_CURVE): number =>
+  level <= 1 ? 0 : Math.round(curve.base * Math.pow(level - 1, curve.exponent));
+
+// Levels are always derived from the ledger total, so rebalancing LEVEL_CURVE re-levels everyone from their history
+export const levelForXp = (xp: number, curve: LevelCurve = LEVEL_CURVE): number => {
+  let level = 1;
+  while (xpRequiredForLevel(level + 1, curve) <= xp) level++;
+  return level;
+};
+
+export const getLevelProgress = (xp: number, curve: LevelCurve = LEVEL_CURVE): LevelProgress => {
+  const level = levelForXp(xp, curve);
+  const levelStart = xpRequiredForLevel(level, curve);
+  return {
+    level,
+    totalXp: xp,
+    xpIntoLevel: xp - levelStart,
+    xpForNextLevel: xpRequiredForLevel(level + 1, curve) - levelStart,
+  };
+};
+
+export const createXpEntry = (source: XpSource, amount: number, reason: string, now: number = Date.now()): XpEntry => ({
+  id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+  source,
+  // Penalties always subtract, whatever sign the caller used
+  amount: source === 'penalty' ? -Math.abs(Math.round(amount)) : Math.round(amount),
+  reason,
+  at: now,
+});
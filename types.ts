@@ -3,12 +3,11 @@ export type Domain = 'Engineering' | 'Digital Art' | 'Architecture';
 export type SkillLevel = 'Beginner' | 'Novice' | 'Intermediate' | 'Advanced';
 
 export interface UserProfile {
+  id: string; // Distinguishes profiles sharing this machine (leaderboard)
   name: string;
   domain: Domain;
   tool: string; // e.g., Blender, AutoCAD, Maya
   skillLevel: SkillLevel;
-  xp: number;
-  streak: number;
 }
 
 export interface Step {
@@ -17,8 +16,16 @@ export interface Step {
   description: string;
   criteria: string[];
   detailedSteps?: string[]; // Step-by-step breakdown
+  doneDetailedSteps?: number[]; // Indexes of mini-steps the user has ticked off
+  attachments?: StepAttachment[]; // Reference images saved from the Copilot
   xpReward: number;
   status: 'locked' | 'active' | 'completed' | 'reviewing';
+  failedReviews?: string[]; // Feedback from each failed review, oldest first
+  remedialFor?: string; // Set on practice steps generated to help with the step of this id
+  optional?: boolean; // Remedial steps become optional once their target step passes
+  requiredViews?: SubmissionView[]; // Views a submission must include for the criteria to be judged
+  requiresModel?: boolean; // Criteria need measured geometry (polycount, watertightness), so a model file must be attached
+  requiresDrawing?: boolean; // Criteria need a CAD drawing's layers, dimensions or units, so a DXF file must be attached
 }
 
 export interface LearningPath {
@@ -29,21 +36,436 @@ export interface LearningPath {
   steps: Step[];
 }
 
+export interface StepAttachment {
+  id: string;
+  imageUrl: string; // Downscaled data URL when the image could be decoded, otherwise the original URL
+  caption: string;
+  addedAt: number;
+}
+
+// A step as the model produces it, before local progress is attached
+export type GeneratedStep = Omit<Step, 'status'>;
+
+export type StepRevisionAction = 'regenerate' | 'split' | 'easier' | 'harder' | 'insert';
+
+export interface RemedialStepsRequest {
+  path: LearningPath;
+  stepId: string; // The step the user keeps failing
+  feedback: string[]; // Accumulated review feedback for that step
+  tool: string;
+  skillLevel: string;
+}
+
+export interface StepRevisionRequest {
+  path: LearningPath; // Whole path, so the model can keep numbering, XP and criteria consistent
+  stepId: string; // Step to revise, or the step to insert after
+  action: StepRevisionAction;
+  note?: string; // Optional user context, e.g. "my version has no geometry nodes"
+  tool: string;
+  skillLevel: string;
+}
+
+// Text-to-image explanation for the Copilot's visualize mode
+export interface VisualizeRequest {
+  prompt: string;
+  tool: string;
+  stepTitle?: string;
+}
+
+export interface ReferenceImage {
+  url: string;
+  placeholder: boolean; // Generation failed; url is a labelled stand-in, not a picture of the subject
+}
+
+export interface VisualizeResult {
+  imageUrl: string;
+  caption: string; // The model's short explanation of the image; may be empty
+}
+
+export type ChallengeKind = 'daily' | 'weekly' | 'monthly' | 'seasonal';
+export type EventKind = Exclude<ChallengeKind, 'daily'>;
+
+export interface ChallengeMilestone {
+  id: string;
+  title: string;
+  description: string;
+  xpReward: number;
+}
+
+export interface ChallengeRewardTable {
+  completionBonus: number;
+  // Extra XP by average milestone score; the highest threshold reached applies
+  scoreBonuses: { minScore: number; xp: number }[];
+}
+
 export interface Challenge {
   id: string;
+  kind: ChallengeKind;
   title: string;
   theme: string;
   description: string;
   referenceImageUrl?: string;
+  referenceIsPlaceholder?: boolean; // Submissions are judged against the description only
   goldTime: number; // minutes
   silverTime: number; // minutes
   bronzeTime: number; // minutes
+  startsAt?: number; // Availability window
+  endsAt?: number;
+  // Longer formats are worked on across sessions, one milestone submission at a time
+  milestones?: ChallengeMilestone[];
+  rewards?: ChallengeRewardTable;
+}
+
+export type ChallengeStatus = 'new' | 'attempted' | 'completed';
+
+// The one challenge issued for a calendar day, cached with its reference image
+export interface DailyChallengeRecord {
+  day: string; // YYYY-MM-DD, local
+  challenge: Challenge;
+  generatedAt: number;
+  expiresAt: number; // Local midnight at the end of `day`
+  status: ChallengeStatus;
+  rerollsUsed: number;
+}
+
+export interface MilestoneResult {
+  score: number;
+  feedback: string;
+  completedAt: number;
+}
+
+// A weekly, monthly or seasonal event issued for its period, with the user's progress
+export interface ChallengeEventRecord {
+  kind: EventKind;
+  period: string; // e.g. 'weekly:2026-10-19', 'monthly:2026-10', 'seasonal:2026-autumn'
+  challenge: Challenge;
+  status: ChallengeStatus;
+  sessions: number;
+  milestoneResults: Record<string, MilestoneResult>;
+}
+
+export type CriterionVerdict = 'met' | 'partial' | 'unmet';
+
+export interface CriterionResult {
+  criterion: string; // Text of the step criterion, as it was when reviewed
+  verdict: CriterionVerdict;
+  score: number; // 0-100
+  comment: string;
+}
+
+export interface ReviewResult {
+  passed: boolean; // Derived from the rubric using REVIEW_RUBRIC, not taken from the model
+  score: number; // 0-100, mean of the criterion scores
+  criteria: CriterionResult[]; // One per step criterion, in step order
+  feedback: string;
+}
+
+// What a submitted image shows; 3D work often can't be judged from a single angle
+export type SubmissionView = 'front' | 'side' | 'top' | 'perspective' | 'wireframe' | 'render' | 'detail' | 'drawing';
+
+export interface LabelledImage {
+  view: SubmissionView;
+  file: File;
+  source?: string; // Name of the model or drawing file this image was rendered from
+}
+
+export type MeshFormat = 'obj' | 'stl' | 'gltf' | 'glb';
+
+// Measured in the browser from an uploaded model file
+export interface MeshStats {
+  format: MeshFormat;
+  vertexCount: number; // Distinct positions, after merging seam and per-facet duplicates
+  faceCount: number; // Polygons as authored
+  triangleCount: number;
+  quadCount: number;
+  ngonCount: number; // Faces with more than 4 sides
+  degenerateFaces: number;
+  boundaryEdges: number; // Edges used by one face: holes or open borders
+  nonManifoldEdges: number; // Edges shared by more than two faces
+  watertight: boolean;
+  dimensions: [number, number, number]; // Bounding box size along x, y, z
+  unit: 'mm' | 'm' | null; // Convention of the format; OBJ stores none
+  unitAssumed?: boolean; // The format stores no units (STL); `unit` is only the usual convention
+}
+
+export interface ModelSummary {
+  fileName: string;
+  stats: MeshStats;
+}
+
+export type DimensionKind = 'linear' | 'aligned' | 'angular' | 'diameter' | 'radius' | 'ordinate';
+
+export interface DrawingDimension {
+  layer: string;
+  kind: DimensionKind;
+  measurement: number | null; // Value the CAD program measured, in drawing units (degrees for angular)
+  text: string | null; // Overridden label, when it differs from the measurement
+  style: string | null; // Dimension style name
+}
+
+export interface DrawingLayer {
+  name: string;
+  color: number; // AutoCAD Color Index
+  visible: boolean;
+  frozen: boolean;
+  entityCounts: Record<string, number>; // By DXF entity type
+}
+
+// Read in the browser from an uploaded DXF file
+export interface DrawingSummary {
+  fileName: string;
+  units: string | null; // From $INSUNITS, e.g. 'mm'; null when unitless or unset
+  measurement: 'metric' | 'imperial' | null; // From $MEASUREMENT
+  layers: DrawingLayer[];
+  entityCounts: Record<string, number>; // Model space entities by type
+  dimensions: DrawingDimension[];
+  texts: string[]; // First text notes, formatting stripped
+  extents: { width: number; height: number }; // In drawing units
+}
+
+// Everything a step review is based on
+export interface ReviewRequest {
+  images: LabelledImage[];
+  models?: ModelSummary[];
+  drawings?: DrawingSummary[];
+  stepDescription: string;
+  criteria: string[];
+  requiredViews?: SubmissionView[];
+}
+
+export interface SubmissionImage {
+  view: SubmissionView;
+  dataUrl?: string; // Downscaled copy of the upload; missing if it couldn't be decoded
+}
+
+// One reviewed upload for a learning path step, kept so the work's evolution can be compared
+export interface StepSubmission {
+  id: string;
+  pathId: string;
+  stepId: string;
+  stepTitle: string; // Snapshots, since steps can be revised after the upload
+  criteria: string[];
+  submittedAt: number;
+  images: SubmissionImage[]; // In the order they were sent to the reviewer
+  models?: ModelSummary[];
+  drawings?: DrawingSummary[];
+  passed: boolean;
+  feedback: string;
+  score?: number; // Missing on submissions reviewed before rubric results existed
+  criteriaResults?: CriterionResult[];
+}
+
+// Deterministic comparison of a submission with the reference image; each part is 0-100
+export interface SimilarityBreakdown {
+  silhouette: number; // Overlap of the subjects' outlines
+  edges: number; // Edges found near an edge in the other image
+  color: number; // Colour histogram overlap
+  structure: number; // SSIM of the normalized grayscale images
+  score: number; // Weighted total
+}
+
+export interface ChallengeEvaluation {
+  passed: boolean;
+  score: number; // 0-100; blended with the local comparison when one could be made
+  feedback: string;
+  aiScore?: number; // The model's own score
+  similarity?: SimilarityBreakdown;
+}
+
+export type ChallengeTier = 'GOLD' | 'SILVER' | 'BRONZE' | 'FAIL';
+
+export type AttemptOutcome = 'completed' | 'failed' | 'abandoned';
+
+// A graded upload, with the clock as it stood when the work was submitted
+export interface ChallengeSubmission {
+  evaluation: ChallengeEvaluation;
+  file: File;
+  elapsedSeconds: number;
+  penaltySeconds: number;
+  hintsUsed: number;
+}
+
+export interface SessionPause {
+  at: number;
+  until: number | null; // null while the pause is ongoing
+}
+
+/**
+ * A timed challenge in progress. Persisted on every change and timed from wall-clock
+ * timestamps, so it survives reloads and background-tab throttling.
+ */
+export interface ChallengeSession {
+  challenge: Challenge;
+  ranked: boolean; // Ranked runs earn XP and count on the leaderboard; practice runs may pause
+  startedAt: number;
+  pauses: SessionPause[];
+  penaltySeconds: number;
+  hints: string[];
+  submission?: ChallengeSubmission;
+}
+
+// What a timed challenge session reports back when it ends
+export interface ChallengeAttemptReport {
+  outcome: AttemptOutcome;
+  ranked: boolean;
+  startedAt: number;
+  elapsedSeconds: number;
+  penaltySeconds: number;
+  hintsUsed: number;
+  tier: ChallengeTier; // Tier at the moment the session ended
+  evaluation?: ChallengeEvaluation; // Last graded submission, if any
+  submission?: File;
+  xpReward: number;
+}
+
+// One recorded run of a timed challenge, kept for history, personal bests and the leaderboard
+export interface ChallengeAttempt {
+  id: string;
+  profileId: string;
+  profileName: string;
+  challenge: Challenge; // Snapshot, so history survives the daily cache being replaced
+  outcome: AttemptOutcome;
+  ranked?: boolean; // Missing on attempts recorded before practice runs existed (all ranked)
+  startedAt: number;
+  finishedAt: number;
+  elapsedSeconds: number;
+  penaltySeconds: number;
+  hintsUsed: number;
+  tier: ChallengeTier;
+  score?: number;
+  feedback?: string;
+  thumbnailDataUrl?: string;
+  xpEarned: number;
+}
+
+// A submission whose AI evaluation failed, kept until a real verdict arrives
+interface PendingReviewBase {
+  id: string;
+  title: string; // What the submission was for, for display
+  queuedAt: number;
+  attempts: number; // Evaluations tried so far, including the one at submission
+  nextAttemptAt: number;
+  lastError?: string;
+  failedAt?: number; // Automatic retries stopped; waits for the user to retry or discard it
 }
 
+export interface PendingStepReview extends PendingReviewBase {
+  kind: 'step';
+  pathId: string;
+  stepId: string;
+  request: ReviewRequest;
+}
+
+// Timed challenge upload; scored with the clock as it stood at submission
+export interface PendingChallengeReview extends PendingReviewBase {
+  kind: 'challenge';
+  challenge: Challenge;
+  file: File;
+  ranked: boolean;
+  startedAt: number;
+  elapsedSeconds: number;
+  penaltySeconds: number;
+  hintsUsed: number;
+}
+
+export interface PendingMilestoneReview extends PendingReviewBase {
+  kind: 'milestone';
+  eventKind: EventKind;
+  challenge: Challenge; // The event's challenge, so a verdict for an expired event is not applied
+  milestoneId: string;
+  file: File;
+}
+
+export type PendingReview = PendingStepReview | PendingChallengeReview | PendingMilestoneReview;
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text: string;
   imageUrl?: string; // For displaying generated/edited images
   timestamp: number;
+  offThread?: boolean; // Image edits and error notices; not replayed to the model when a thread is reopened
+  action?: ChatActionRecord; // Set on messages that record an app action the Copilot asked for
+  savedToStepId?: string; // Generated image saved as an attachment on this step
+  imageVersion?: ImageVersionRef; // Image edits point into the thread's edit sessions instead of carrying the image
+}
+
+export interface ImageVersionRef {
+  sessionId: string;
+  versionId: string;
+}
+
+// One image in a Copilot edit session; any version can be edited further, which branches the tree
+export interface ImageVersion {
+  id: string;
+  parentId?: string; // Unset for the pasted original
+  imageUrl: string;
+  prompt?: string; // The edit instruction that produced this version
+  createdAt: number;
+}
+
+export interface ImageEditSession {
+  id: string;
+  versions: ImageVersion[]; // In creation order; the first is the original
+}
+
+export type ChatActionStatus = 'awaiting' | 'done' | 'declined' | 'failed';
+
+export interface ChatActionRecord {
+  name: string;
+  summary: string; // What the action does, in the user's terms
+  status: ChatActionStatus;
+}
+
+// A saved Copilot conversation, tied to the step or path it was started from (or neither for general questions)
+export interface ChatThread {
+  id: string;
+  title: string; // From the first question
+  pathId?: string;
+  stepId?: string;
+  scopeLabel: string; // Step or path title when the thread was started, kept in case it is renamed or removed
+  tool: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+  editSessions?: ImageEditSession[];
+}
+
+export type ActivityKind = 'step_passed' | 'challenge_finished' | 'chat_session';
+
+export interface ActivityEntry {
+  day: string; // Local calendar day, YYYY-MM-DD
+  kind: ActivityKind;
+  at: number;
+}
+
+export interface ActivityLog {
+  entries: ActivityEntry[];
+  freezeTokens: number;
+  frozenDays: string[]; // Missed days covered by a spent streak freeze
+}
+
+export interface StreakSummary {
+  current: number;
+  longest: number;
+  activeToday: boolean;
+  freezeTokens: number;
+}
+
+export type XpSource = 'step' | 'challenge' | 'bonus' | 'penalty';
+
+// One immutable line in the XP ledger; penalties carry a negative amount
+export interface XpEntry {
+  id: string;
+  source: XpSource;
+  amount: number;
+  reason: string;
+  at: number;
+}
+
+export interface LevelProgress {
+  level: number;
+  totalXp: number;
+  xpIntoLevel: number;
+  xpForNextLevel: number; // XP span of the current level
 }